@@ -2,6 +2,24 @@ import React, { useState, useRef, useEffect } from 'react';
 import ImageUploader from './components/ImageUploader';
 import HistoryModal from './components/HistoryModal';
 import ExportGalleryModal from './components/ExportGalleryModal';
+import MaskEditor from './components/MaskEditor';
+import SurfaceAssignmentEditor from './components/SurfaceAssignmentEditor';
+import PromptTemplatesModal from './components/PromptTemplatesModal';
+import UploadSettingsModal from './components/UploadSettingsModal';
+import SeamlessTilePanel from './components/SeamlessTilePanel';
+import RepeatPreviewPanel from './components/RepeatPreviewPanel';
+import LayoutSelector from './components/LayoutSelector';
+import LayoutComposerModal from './components/LayoutComposerModal';
+import TileEstimatorPanel from './components/TileEstimatorPanel';
+import DriveCatalogueModal from './components/DriveCatalogueModal';
+import CatalogueSourcesModal from './components/CatalogueSourcesModal';
+import SaveToDriveModal from './components/SaveToDriveModal';
+import ProjectModal from './components/ProjectModal';
+import ComparisonViewer from './components/ComparisonViewer';
+import ShortlistModal from './components/ShortlistModal';
+import ClientPdfModal from './components/ClientPdfModal';
+import type { ViewerImage } from './components/ComparisonViewer';
+import type { SurfaceAssignmentState } from './components/SurfaceAssignmentEditor';
 import { 
   createBovaliChat, 
   editImageWithPrompt,
@@ -10,9 +28,48 @@ import {
   applyMaterialOnly,
   extractAndProcessImage,
   createFromOutline,
+  applyMultiSurface,
+  retryVariation,
 } from './services/geminiService';
-import { ImageState } from './types';
-import type { Chat, GenerateContentResponse } from '@google/genai';
+import type { BatchJob, BatchProgressEvent } from './services/geminiService';
+import type { VariationResult } from './services/batchRunner';
+import { SURFACE_TYPES } from './services/surfaceTypes';
+import type { SurfaceType } from './services/surfaceTypes';
+import { formatTemplateRef, getPromptTemplate } from './services/promptTemplates';
+import { formatLayout, getLayingPatternDefinition, groutUnitFor, withGroutUnit } from './services/layingPatterns';
+import type { LayoutOptions } from './services/layingPatterns';
+import { estimatesToCsv, summariseEstimate } from './services/tileEstimator';
+import type { TileEstimate } from './services/tileEstimator';
+import type { TemplateRef } from './services/promptTemplates';
+import { formatSkus, parseNominalSize, productsToCsv, skusForFilename } from './services/productMetadata';
+import type { ProductMetadata } from './services/productMetadata';
+import { preprocessImage } from './services/imagePreprocessor';
+import { addAsset, addAssetFromUrl, countAssetsByType, getAssetBlob, getAssetFile } from './services/assetHistory';
+import type { AssetType } from './services/assetHistory';
+import { deleteExports, isQuotaError, loadExports, saveExport, updateExportDetails } from './services/exportStore';
+import type { ExportEntry } from './services/exportStore';
+import { addToShortlist, loadShortlist, removeFromShortlist, updateShortlistItem } from './services/shortlist';
+import type { ShortlistItem, ShortlistSource, ShortlistUpdate } from './services/shortlist';
+import type { PdfDesign } from './services/clientPdf';
+import {
+  createProjectId,
+  downloadProject,
+  getRecentProject,
+  pickProjectToOpen,
+  pickSaveLocation,
+  projectFilename,
+  projectNameFromFilename,
+  readProjectFile,
+  rememberProject,
+  writeProjectFile,
+  writeToHandle,
+} from './services/projectFile';
+import type { ProjectImage, ProjectOutputDetails, ProjectState } from './services/projectFile';
+import { captureProvenance, describeProvenance, embedProvenance, hashBlob, stampProvenance } from './services/provenance';
+import type { ProvenanceRecord, ProvenanceSource } from './services/provenance';
+import { getOfflineNotice, isAbortError } from './services/generationProvider';
+import type { ChatSession } from './services/generationProvider';
+import { ImageState, TileUnit } from './types';
 
 declare var JSZip: any;
 
@@ -22,12 +79,23 @@ interface Message {
   sender: 'user' | 'bot';
 }
 
-type SurfaceType = 'Flooring' | 'Walls';
-type GenerationMode = 'PatternAndMaterial' | 'PatternOnly' | 'MaterialOnly';
-type TileUnit = 'cm' | 'inches';
+type GenerationMode = 'PatternAndMaterial' | 'PatternOnly' | 'MaterialOnly' | 'MultiSurface';
 type ActiveTab = 'generator' | 'extractor' | 'pattern';
 type ExtractionType = 'Pattern' | 'Material';
-type HistoryType = 'renderShot' | 'pattern' | 'material';
+type HistoryType = AssetType;
+// Which input a catalogue pick goes to.
+type CatalogueTarget = 'renderShot' | 'pattern' | 'material' | 'patternMaterial';
+// A slot in the Generator results grid: waiting, rendering, or settled with its outcome.
+type GeneratorSlot = (VariationResult | { status: 'queued' } | { status: 'running' }) & {
+  startedAt?: number;
+  finishedAt?: number;
+};
+
+const INITIAL_MESSAGES: Message[] = [
+  { id: 1, text: "Hello! How can I assist you with your Bovali design today?", sender: 'bot' }
+];
+
+const formatElapsed = (from: number, to: number) => `${Math.max(0, Math.round((to - from) / 1000))}s`;
 
 
 // Chatbot UI Component defined within App.tsx to avoid creating new files
@@ -37,7 +105,8 @@ const Chatbot: React.FC<{
   messages: Message[];
   onSendMessage: (message: string) => void;
   isBotTyping: boolean;
-}> = ({ isOpen, onClose, messages, onSendMessage, isBotTyping }) => {
+  onCancelEdit?: () => void;
+}> = ({ isOpen, onClose, messages, onSendMessage, isBotTyping, onCancelEdit }) => {
   const [input, setInput] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -80,6 +149,11 @@ const Chatbot: React.FC<{
                       <span className="h-2 w-2 bg-bovali-grey rounded-full animate-bounce"></span>
                   </div>
               </div>
+              {onCancelEdit && (
+                <button onClick={onCancelEdit} className="ml-2 self-center text-xs font-semibold text-bovali-green hover:underline">
+                  Stop editing
+                </button>
+              )}
           </div>
         )}
         <div ref={messagesEndRef} />
@@ -106,6 +180,7 @@ const Chatbot: React.FC<{
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<ActiveTab>('generator');
   const [apiKeyError, setApiKeyError] = useState<string | null>(null);
+  const [providerNotice, setProviderNotice] = useState<string | null>(null);
 
   // Generator state
   const [surfaceType, setSurfaceType] = useState<SurfaceType>('Flooring');
@@ -113,13 +188,27 @@ const App: React.FC = () => {
   const [renderShot, setRenderShot] = useState<ImageState>({ file: null, previewUrl: null });
   const [pattern, setPattern] = useState<ImageState>({ file: null, previewUrl: null });
   const [materials, setMaterials] = useState<ImageState[]>([]);
-  const [outputImages, setOutputImages] = useState<string[] | null>(null);
+  const [outputResults, setOutputResults] = useState<GeneratorSlot[] | null>(null);
+  const [editTargetIndex, setEditTargetIndex] = useState<number | null>(null);
+  const [now, setNow] = useState<number>(Date.now());
+  // The batch the Generator's results belong to. Late results (retries, chat edits) carry the
+  // id of the batch they were started for and are dropped once another has replaced it.
+  const [generatorJob, setGeneratorJob] = useState<BatchJob | null>(null);
+  const generatorBatchRef = useRef(0);
+  const generatorProductsRef = useRef<ProductMetadata[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [tileWidth, setTileWidth] = useState<string>('');
   const [tileHeight, setTileHeight] = useState<string>('');
   const [tileUnit, setTileUnit] = useState<TileUnit>('cm');
+  const [layout, setLayout] = useState<LayoutOptions | null>(null);
+  // Real-world size of the pattern image when it is a sheet from the layout composer.
+  const [patternSheet, setPatternSheet] = useState<{ width: number; height: number } | null>(null);
+  const pendingPatternSheetRef = useRef<{ width: number; height: number } | null>(null);
   const [numberOfVariations, setNumberOfVariations] = useState<number>(1);
+  const [isMaskEditorOpen, setIsMaskEditorOpen] = useState<boolean>(false);
+  const [isComposerOpen, setIsComposerOpen] = useState<boolean>(false);
+  const [surfaceAssignments, setSurfaceAssignments] = useState<SurfaceAssignmentState[]>([]);
 
   // Extractor state
   const [sourceImage, setSourceImage] = useState<ImageState>({ file: null, previewUrl: null });
@@ -143,111 +232,328 @@ const App: React.FC = () => {
   // Chat state
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [isBotTyping, setIsBotTyping] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([
-    { id: 1, text: "Hello! How can I assist you with your Bovali design today?", sender: 'bot' }
-  ]);
-  const chatRef = useRef<Chat | null>(null);
+  const [messages, setMessages] = useState<Message[]>(INITIAL_MESSAGES);
+  const chatRef = useRef<ChatSession | null>(null);
+  // The system template revision the chat session was created with.
+  const chatRevisionRef = useRef<string | null>(null);
+  const [isChatEditing, setIsChatEditing] = useState(false);
+
+  // In-flight requests, one per studio. Aborting a controller both cancels the request
+  // and marks any response that still arrives afterwards as stale.
+  const generatorAbortRef = useRef<AbortController | null>(null);
+  const retryAbortRef = useRef<AbortController>(new AbortController());
+  const extractorAbortRef = useRef<AbortController | null>(null);
+  const patternAbortRef = useRef<AbortController | null>(null);
+  const chatEditAbortRef = useRef<AbortController | null>(null);
 
   // History state
-  const [renderShotHistory, setRenderShotHistory] = useState<string[]>([]);
-  const [patternHistory, setPatternHistory] = useState<string[]>([]);
-  const [materialHistory, setMaterialHistory] = useState<string[]>([]);
+  const [historyCounts, setHistoryCounts] = useState<Record<HistoryType, number>>({ renderShot: 0, pattern: 0, material: 0 });
   const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
   const [activeHistoryType, setActiveHistoryType] = useState<HistoryType | null>(null);
 
   // Export Gallery State
   const [exportedImages, setExportedImages] = useState<string[]>([]);
+  // The stored record behind each exported image, keyed by image URL.
+  const [exportEntries, setExportEntries] = useState<Record<string, ExportEntry>>({});
   const [isExportGalleryOpen, setIsExportGalleryOpen] = useState<boolean>(false);
   const [isZipping, setIsZipping] = useState<boolean>(false);
+  const [driveUploadUrls, setDriveUploadUrls] = useState<string[] | null>(null);
+  const [pdfImageUrls, setPdfImageUrls] = useState<string[] | null>(null);
+  // Favourite outputs collected across runs
+  const [shortlist, setShortlist] = useState<ShortlistItem[]>([]);
+  const [isShortlistOpen, setIsShortlistOpen] = useState<boolean>(false);
+
+  // Prompt template settings, and which template version produced each generated image
+  const [isPromptSettingsOpen, setIsPromptSettingsOpen] = useState<boolean>(false);
+  const [isUploadSettingsOpen, setIsUploadSettingsOpen] = useState<boolean>(false);
+  const [imageTemplates, setImageTemplates] = useState<Record<string, TemplateRef>>({});
+  const [imageLayouts, setImageLayouts] = useState<Record<string, LayoutOptions>>({});
+  const [currentEstimate, setCurrentEstimate] = useState<TileEstimate | null>(null);
+  const [imageEstimates, setImageEstimates] = useState<Record<string, TileEstimate>>({});
+  // Catalogue products that went into each output image
+  const [catalogueTarget, setCatalogueTarget] = useState<CatalogueTarget | null>(null);
+  const [isCatalogueSourcesOpen, setIsCatalogueSourcesOpen] = useState<boolean>(false);
+  // Bumped when sources are edited so an open catalogue browser reloads them.
+  const [catalogueSourcesVersion, setCatalogueSourcesVersion] = useState<number>(0);
+  const [imageProducts, setImageProducts] = useState<Record<string, ProductMetadata[]>>({});
+  // Inputs, settings and model behind each output image, embedded in it on download
+  const [imageProvenance, setImageProvenance] = useState<Record<string, ProvenanceRecord>>({});
+  const generatorProvenanceRef = useRef<Promise<ProvenanceRecord | null> | null>(null);
+  // The full-screen comparison viewer: the outputs it steps through and the input they are compared with
+  const [viewer, setViewer] = useState<{ images: ViewerImage[]; index: number; before: ViewerImage | null } | null>(null);
+  // A "before" image read back from the asset history, owned by the viewer until it closes.
+  const viewerBeforeUrlRef = useRef<string | null>(null);
+  // A re-imported output whose settings can be restored, and the outcome once they are.
+  const [provenanceOffer, setProvenanceOffer] = useState<{ record: ProvenanceRecord; notice?: string } | null>(null);
+
+  // Project file state. The handle is the file on disk Save writes back to, where supported.
+  const [isProjectOpen, setIsProjectOpen] = useState<boolean>(false);
+  const [projectName, setProjectName] = useState<string>('Untitled project');
+  const [projectStatus, setProjectStatus] = useState<string | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const projectIdRef = useRef<string | null>(null);
+  const projectHandleRef = useRef<FileSystemFileHandle | null>(null);
+  // Set while a project is restored, so the generation mode change doesn't clear its inputs.
+  const skipModeResetRef = useRef<boolean>(false);
 
   useEffect(() => {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-      setApiKeyError("Configuration Error: The Google API Key is missing. Please ensure the API_KEY is correctly configured in your environment.");
-    } else {
-        if (!chatRef.current) {
-            try {
-                chatRef.current = createBovaliChat();
-            } catch (e) {
-                 if (e instanceof Error) {
-                    setApiKeyError(`Configuration Error: ${e.message}`);
-                 } else {
-                    setApiKeyError("An unknown error occurred during initialization.");
-                 }
-            }
-        }
+    if (chatRef.current) return;
+    try {
+        setProviderNotice(getOfflineNotice());
+        chatRef.current = createBovaliChat();
+        chatRevisionRef.current = getPromptTemplate('chatSystem').revision;
+    } catch (e) {
+         if (e instanceof Error) {
+            setApiKeyError(`Configuration Error: ${e.message}`);
+         } else {
+            setApiKeyError("An unknown error occurred during initialization.");
+         }
     }
   }, []);
   
   useEffect(() => {
-    // Load exported images from local storage on initial mount
-    try {
-      const savedExports = localStorage.getItem('bovaliExportedImages');
-      if (savedExports) {
-        setExportedImages(JSON.parse(savedExports));
-      }
-    } catch (error) {
-      console.error("Could not load exported images from local storage", error);
-    }
+    refreshHistoryCounts();
   }, []);
 
   useEffect(() => {
-    // Save exported images to local storage whenever they change
-    try {
-      localStorage.setItem('bovaliExportedImages', JSON.stringify(exportedImages));
-    } catch (error) {
-      console.error("Could not save exported images to local storage", error);
-    }
-  }, [exportedImages]);
-  
+    // Any other pattern is a single tile again.
+    setPatternSheet(pendingPatternSheetRef.current);
+    pendingPatternSheetRef.current = null;
+  }, [pattern.file]);
+
   useEffect(() => {
-    // Reset states of inactive tabs to avoid confusion and memory leaks
-    if (activeTab !== 'generator') {
-        setRenderShot({ file: null, previewUrl: null });
-        setPattern({ file: null, previewUrl: null });
-        setMaterials([]);
-        setOutputImages(null);
-        setError(null);
-        setTileWidth('');
-        setTileHeight('');
-    }
-    if (activeTab !== 'extractor') {
-        setSourceImage({ file: null, previewUrl: null });
-        setProcessedImage(null);
-        setProcessingError(null);
-        setSourceWidth('');
-        setSourceHeight('');
-    }
-    if (activeTab !== 'pattern') {
-        setPatternOutline({ file: null, previewUrl: null });
-        setPatternMaterials([]);
-        setPatternReference({ file: null, previewUrl: null });
-        setPatternPrompt('');
-        setPatternOutput(null);
-        setPatternError(null);
+    // Keep the grout in the unit that goes with the tile size.
+    setLayout(prev => prev && withGroutUnit(prev, groutUnitFor(tileUnit)));
+  }, [tileUnit]);
+
+  useEffect(() => {
+    // Load exported images from the on-device store on initial mount. The store is the whole
+    // gallery, so it replaces the state rather than adding to it.
+    let isCancelled = false;
+    loadExports()
+      .then(entries => {
+        if (isCancelled) {
+            entries.forEach(entry => URL.revokeObjectURL(entry.url));
+            return;
+        }
+        setExportedImages(entries.map(entry => entry.url));
+        setExportEntries(Object.fromEntries(entries.map(entry => [entry.url, entry])));
+        entries.forEach(entry => restoreOutputDetails(entry.url, entry));
+      })
+      .catch(error => console.error("Could not load exported images", error));
+    return () => { isCancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadShortlist()
+      .then(items => {
+        if (isCancelled) {
+            items.forEach(item => URL.revokeObjectURL(item.imageUrl));
+            return;
+        }
+        setShortlist(items);
+      })
+      .catch(error => console.error("Could not load the shortlist", error));
+    return () => { isCancelled = true; };
+  }, []);
+  
+  const beginRequest = (ref: React.MutableRefObject<AbortController | null>): AbortController => {
+    // A chat edit writes into a studio's result, which any new run is about to replace.
+    if (ref !== chatEditAbortRef && chatEditAbortRef.current) {
+      cancelChatEdit();
+      setMessages(prev => [...prev, { id: Date.now(), text: "Edit cancelled: a new generation started.", sender: 'bot' }]);
     }
+    ref.current?.abort();
+    const controller = new AbortController();
+    ref.current = controller;
+    return controller;
+  };
+
+  const cancelGenerator = () => {
+    generatorAbortRef.current?.abort();
+    generatorAbortRef.current = null;
+    retryAbortRef.current.abort();
+    retryAbortRef.current = new AbortController();
+    setOutputResults(prev => prev && prev.map(slot => slot.status === 'queued' || slot.status === 'running'
+      ? { status: 'error', reason: 'Cancelled.', startedAt: slot.startedAt }
+      : slot));
+    setLoading(false);
+  };
+
+  const cancelExtractor = () => {
+    extractorAbortRef.current?.abort();
+    extractorAbortRef.current = null;
+    setIsProcessing(false);
+  };
+
+  const cancelPattern = () => {
+    patternAbortRef.current?.abort();
+    patternAbortRef.current = null;
+    setIsPatternGenerating(false);
+  };
+
+  const cancelChatEdit = () => {
+    if (!chatEditAbortRef.current) return;
+    chatEditAbortRef.current.abort();
+    chatEditAbortRef.current = null;
+    setIsChatEditing(false);
+    setIsBotTyping(false);
+  };
+
+  const handleCancelChatEdit = () => {
+    cancelChatEdit();
+    setMessages(prev => [...prev, { id: Date.now(), text: "Edit cancelled.", sender: 'bot' }]);
+  };
+
+  useEffect(() => {
+    // Each studio keeps its inputs and results across tab switches; only a chat edit,
+    // which targets the visible studio's image, is stopped.
+    cancelChatEdit();
   }, [activeTab]);
   
+  const revokePreview = (image: ImageState) => {
+    if (image.previewUrl?.startsWith('blob:')) URL.revokeObjectURL(image.previewUrl);
+  };
+
+  // The Generator's inputs, including every surface's, for releasing previews before a reset.
+  const generatorInputImages = (): ImageState[] => [
+    renderShot, pattern, ...materials,
+    ...surfaceAssignments.flatMap(assignment => [assignment.pattern, ...assignment.materials]),
+  ];
+
   useEffect(() => {
       // Reset images when generator mode changes
+      if (skipModeResetRef.current) {
+        skipModeResetRef.current = false;
+        return;
+      }
+      cancelGenerator();
+      generatorInputImages().forEach(revokePreview);
       setRenderShot({ file: null, previewUrl: null });
       setPattern({ file: null, previewUrl: null });
       setMaterials([]);
       setTileWidth('');
       setTileHeight('');
+      setLayout(null);
       setError(null);
-      setOutputImages(null);
+      setOutputResults(null);
+      setSurfaceAssignments(generationMode === 'MultiSurface'
+        ? [createSurfaceAssignment('Flooring'), createSurfaceAssignment('Walls')]
+        : []);
   }, [generationMode]);
 
-  const fileToDataURL = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = (error) => reject(error);
+  const outputImages = (outputResults ?? [])
+    .filter((r): r is Extract<GeneratorSlot, { status: 'success' }> => r.status === 'success')
+    .map(r => r.imageUrl);
+
+  const hasRunningSlots = !!outputResults?.some(slot => slot.status === 'running');
+
+  useEffect(() => {
+    // Keep the per-slot elapsed timers ticking while anything is rendering.
+    if (!hasRunningSlots) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [hasRunningSlots]);
+
+  const updateSlot = (index: number, slot: GeneratorSlot) => {
+    setOutputResults(prev => prev ? prev.map((r, i) => i === index ? slot : r) : prev);
+  };
+
+  // Returns the new batch's id; the job is set once the batch reports it.
+  const startGeneratorBatch = (): number => {
+    generatorBatchRef.current += 1;
+    setGeneratorJob(null);
+    return generatorBatchRef.current;
+  };
+
+  const recordTemplate = (imageUrls: string[], template: TemplateRef) => {
+    setImageTemplates(prev => {
+      const next = { ...prev };
+      imageUrls.forEach(url => { next[url] = template; });
+      return next;
+    });
+  };
+
+  const recordLayout = (imageUrls: string[], layout?: LayoutOptions | null) => {
+    if (!layout) return;
+    setImageLayouts(prev => {
+      const next = { ...prev };
+      imageUrls.forEach(url => { next[url] = layout; });
+      return next;
+    });
+  };
+
+  const recordProducts = (imageUrls: string[], products: ProductMetadata[]) => {
+    if (products.length === 0) return;
+    setImageProducts(prev => {
+      const next = { ...prev };
+      imageUrls.forEach(url => { next[url] = products; });
+      return next;
     });
   };
 
+  // Starts hashing the inputs as a run begins, before they can change. The run may end without
+  // an output that reads the result, so a failure is logged here and resolves to null.
+  const startProvenance = (...args: Parameters<typeof captureProvenance>): Promise<ProvenanceRecord | null> =>
+    captureProvenance(...args).catch(error => {
+      console.error("Could not record image provenance", error);
+      return null;
+    });
+
+  // The record's inputs are hashed in the background, so it is stored once that finishes.
+  const recordProvenance = (
+    imageUrl: string,
+    base: Promise<ProvenanceRecord | null>,
+    details?: Parameters<typeof stampProvenance>[1]
+  ) => {
+    base.then(record => {
+      if (record) setImageProvenance(prev => ({ ...prev, [imageUrl]: stampProvenance(record, details) }));
+    });
+  };
+
+  // Everything recorded about an output, as saved with exports and in project files.
+  const getOutputDetails = (imageUrl: string): ProjectOutputDetails => ({
+    template: imageTemplates[imageUrl],
+    layout: imageLayouts[imageUrl],
+    estimate: imageEstimates[imageUrl],
+    products: imageProducts[imageUrl],
+    provenance: imageProvenance[imageUrl],
+  });
+
+  const restoreOutputDetails = (imageUrl: string, details: ProjectOutputDetails) => {
+    if (details.template) recordTemplate([imageUrl], details.template);
+    recordLayout([imageUrl], details.layout);
+    if (details.estimate) setImageEstimates(prev => ({ ...prev, [imageUrl]: details.estimate! }));
+    recordProducts([imageUrl], details.products ?? []);
+    if (details.provenance) setImageProvenance(prev => ({ ...prev, [imageUrl]: details.provenance! }));
+  };
+
+  const handleAttachEstimate = (imageUrl: string) => {
+    if (!currentEstimate) return;
+    setImageEstimates(prev => ({ ...prev, [imageUrl]: currentEstimate }));
+    const exported = exportEntries[imageUrl];
+    if (exported) {
+      updateExportDetails(exported.id, { estimate: currentEstimate })
+        .catch(error => console.error("Could not save the estimate with the exported image", error));
+    }
+  };
+
+  const refreshHistoryCounts = () => {
+    countAssetsByType()
+      .then(setHistoryCounts)
+      .catch(error => console.error("Could not load asset history", error));
+  };
+
+  // Saves an input or extracted image to the persistent history. Accepts a file or an image URL.
+  const addToHistory = (source: File | string, type: HistoryType) => {
+    const added = typeof source === 'string' ? addAssetFromUrl(source, type) : addAsset(source, type, source.name.replace(/\.[^.]+$/, ''));
+    added
+      .then(refreshHistoryCounts)
+      .catch(error => console.error("Could not save image to history", error));
+  };
+
   const parseDataUrl = (dataUrl: string): { mimeType: string; base64: string } => {
     const parts = dataUrl.split(',');
     const mimePart = parts[0].match(/:(.*?);/);
@@ -270,10 +576,17 @@ const App: React.FC = () => {
         setImageCallback: (url: string) => void,
         successMessage: string
     ) => {
+        const controller = beginRequest(chatEditAbortRef);
+        setIsChatEditing(true);
+        const provenance = startProvenance('chat', [{ role: 'source', image: currentImage }], { instruction: message });
         try {
             const { mimeType, base64 } = parseDataUrl(currentImage);
-            const { imageUrl, text } = await editImageWithPrompt(base64, mimeType, message);
+            const { imageUrl, text, template } = await editImageWithPrompt(base64, mimeType, message, controller.signal);
+            if (controller.signal.aborted) return;
             if (imageUrl) {
+                recordTemplate([imageUrl], template);
+                recordProducts([imageUrl], imageProducts[currentImage] ?? []);
+                recordProvenance(imageUrl, provenance, { template, parent: imageProvenance[currentImage] });
                 setImageCallback(imageUrl);
                 const botMessage: Message = { id: Date.now() + 1, text: text || successMessage, sender: 'bot'};
                 setMessages(prev => [...prev, botMessage]);
@@ -281,24 +594,43 @@ const App: React.FC = () => {
                 throw new Error("The AI did not return a new image for your edit request.");
             }
         } catch (e) {
+            if (controller.signal.aborted || isAbortError(e)) return;
             console.error("Chat edit error:", e);
             const errorMessageText = e instanceof Error ? e.message : "Sorry, I couldn't edit the image. Please try a different instruction.";
             const errorMessage: Message = { id: Date.now() + 1, text: errorMessageText, sender: 'bot'};
             setMessages(prev => [...prev, errorMessage]);
         } finally {
-            setIsBotTyping(false);
+            if (chatEditAbortRef.current === controller) {
+                chatEditAbortRef.current = null;
+                setIsChatEditing(false);
+                setIsBotTyping(false);
+            }
         }
     }
 
-    if (activeTab === 'generator' && outputImages && outputImages.length > 0) {
-        await handleEdit(outputImages[0], (newUrl) => setOutputImages([newUrl]), "Of course. Here is the updated design.");
+    const editTarget = outputResults && editTargetIndex !== null && outputResults[editTargetIndex]?.status === 'success'
+        ? editTargetIndex
+        : outputResults?.findIndex(slot => slot.status === 'success') ?? -1;
+    const editTargetSlot = outputResults?.[editTarget];
+
+    if (activeTab === 'generator' && editTargetSlot?.status === 'success') {
+        const batchId = generatorBatchRef.current;
+        await handleEdit(editTargetSlot.imageUrl, (newUrl) => {
+            if (generatorBatchRef.current === batchId) updateSlot(editTarget, { status: 'success', imageUrl: newUrl });
+        }, "Of course. Here is the updated design.");
     } else if (activeTab === 'pattern' && patternOutput) {
         await handleEdit(patternOutput, setPatternOutput, "Of course. Here is the updated pattern.");
     } else {
         if (chatRef.current) {
+            // The system instruction is fixed per session, so an edited template needs a new one.
+            const { revision } = getPromptTemplate('chatSystem');
+            if (revision !== chatRevisionRef.current) {
+                chatRef.current = createBovaliChat();
+                chatRevisionRef.current = revision;
+            }
             try {
-                const response: GenerateContentResponse = await chatRef.current.sendMessage({ message });
-                const botMessageText = response.text;
+                const response = await chatRef.current.sendMessage({ message });
+                const botMessageText = response.text ?? '';
                 const newBotMessage: Message = { id: Date.now() + 1, text: botMessageText, sender: 'bot' };
                 setMessages(prev => [...prev, newBotMessage]);
             } catch (e) {
@@ -315,7 +647,8 @@ const App: React.FC = () => {
   const handleImageSelect = async (
     file: File,
     setter: React.Dispatch<React.SetStateAction<ImageState>>,
-    historyType?: HistoryType
+    historyType?: HistoryType,
+    product?: ProductMetadata
   ) => {
     setter(prevState => {
       if (prevState.previewUrl && prevState.previewUrl.startsWith('blob:')) {
@@ -324,10 +657,11 @@ const App: React.FC = () => {
       return {
         file,
         previewUrl: URL.createObjectURL(file),
+        product,
       };
     });
     // Reset outputs when a new image is selected
-    setOutputImages(null);
+    setOutputResults(null);
     setError(null);
     setProcessedImage(null);
     setProcessingError(null);
@@ -335,13 +669,7 @@ const App: React.FC = () => {
     setPatternError(null);
 
     if (historyType) {
-        const dataUrl = await fileToDataURL(file);
-        const historySetter = {
-            renderShot: setRenderShotHistory,
-            pattern: setPatternHistory,
-            material: setMaterialHistory,
-        }[historyType];
-        historySetter(prev => [...new Set([dataUrl, ...prev])]);
+        addToHistory(file, historyType);
     }
   };
   
@@ -352,7 +680,7 @@ const App: React.FC = () => {
         }
         return { file: null, previewUrl: null };
       });
-      setOutputImages(null);
+      setOutputResults(null);
       setError(null);
       setProcessedImage(null);
       setProcessingError(null);
@@ -361,14 +689,14 @@ const App: React.FC = () => {
   }
 
   // --- Generator Studio Logic ---
-  const handleGeneratorMaterialSelect = async (file: File) => {
+  const handleGeneratorMaterialSelect = async (file: File, product?: ProductMetadata) => {
     const newMaterial: ImageState = {
         file,
         previewUrl: URL.createObjectURL(file),
+        product,
     };
     setMaterials(prev => [...prev, newMaterial]);
-    const dataUrl = await fileToDataURL(file);
-    setMaterialHistory(prev => [...new Set([dataUrl, ...prev])]);
+    addToHistory(file, 'material');
   };
 
   const handleGeneratorMaterialRemove = (index: number) => {
@@ -382,11 +710,122 @@ const App: React.FC = () => {
     });
   };
   
+  const createSurfaceAssignment = (surfaceType: SurfaceType): SurfaceAssignmentState => ({
+    id: Date.now() + Math.random(),
+    surfaceType,
+    pattern: { file: null, previewUrl: null },
+    materials: [],
+    tileWidth: '',
+    tileHeight: '',
+  });
+
+  const handleAddSurfaceAssignment = () => {
+    setSurfaceAssignments(prev => {
+      const unused = SURFACE_TYPES.find(surface => !prev.some(a => a.surfaceType === surface.value));
+      return unused ? [...prev, createSurfaceAssignment(unused.value)] : prev;
+    });
+  };
+
+  const handleSurfaceAssignmentChange = (id: number, update: Partial<SurfaceAssignmentState>) => {
+    setSurfaceAssignments(prev => prev.map(a => a.id === id ? { ...a, ...update } : a));
+  };
+
+  const isSurfaceAssignmentComplete = (assignment: SurfaceAssignmentState) => !!assignment.pattern.file || assignment.materials.length > 0;
+
+  // Catalogue products among the inputs the current mode actually uses.
+  const getGeneratorProducts = (): ProductMetadata[] => {
+    const inputs: ImageState[] = {
+      PatternAndMaterial: [pattern, ...materials],
+      PatternOnly: [pattern],
+      MaterialOnly: materials,
+      MultiSurface: surfaceAssignments.flatMap(a => [a.pattern, ...a.materials]),
+    }[generationMode];
+    return inputs.map(input => input.product).filter((product): product is ProductMetadata => !!product);
+  };
+
+  const captureGeneratorProvenance = () => {
+    const sources: ProvenanceSource[] = [
+      { role: 'renderShot', image: renderShot.file },
+      { role: 'mask', image: renderShot.mask },
+    ];
+    if (generationMode === 'MultiSurface') {
+      surfaceAssignments.forEach((a, surface) => {
+        sources.push({ role: 'pattern', surface, image: a.pattern.file, product: a.pattern.product });
+        a.materials.forEach(m => sources.push({ role: 'material', surface, image: m.file, product: m.product }));
+      });
+    } else {
+      if (generationMode !== 'MaterialOnly') sources.push({ role: 'pattern', image: pattern.file, product: pattern.product });
+      if (generationMode !== 'PatternOnly') materials.forEach(m => sources.push({ role: 'material', image: m.file, product: m.product }));
+    }
+    return startProvenance('generator', sources, {
+      generationMode,
+      surfaceType,
+      tileWidth,
+      tileHeight,
+      tileUnit,
+      numberOfVariations,
+      ...(generationMode === 'MultiSurface' && {
+        surfaces: surfaceAssignments.map(a => ({ surfaceType: a.surfaceType, tileWidth: a.tileWidth, tileHeight: a.tileHeight })),
+      }),
+    });
+  };
+
+  const handleCatalogueSelect = async (file: File, product?: ProductMetadata) => {
+    const target = catalogueTarget;
+    setCatalogueTarget(null);
+    let prepared = file;
+    try {
+      prepared = (await preprocessImage(file)).file;
+    } catch (err) {
+      console.warn("Catalogue image preprocessing failed; using the original file.", err);
+    }
+    if (target === 'renderShot') {
+      handleImageSelect(prepared, setRenderShot, 'renderShot', product);
+    } else if (target === 'pattern') {
+      handleImageSelect(prepared, setPattern, 'pattern', product);
+      const size = parseNominalSize(product?.nominalSize);
+      if (size) {
+        setTileWidth(size.width);
+        setTileHeight(size.height);
+        if (size.unit) setTileUnit(size.unit);
+      }
+    } else if (target === 'material') {
+      handleGeneratorMaterialSelect(prepared, product);
+    } else if (target === 'patternMaterial') {
+      handlePatternMaterialSelect(prepared, product);
+    }
+  };
+
   const handleGeneratorSubmit = async () => {
     if (apiKeyError) return;
+    const controller = beginRequest(generatorAbortRef);
     setLoading(true);
     setError(null);
-    setOutputImages(null);
+    setOutputResults(Array.from({ length: numberOfVariations }, () => ({ status: 'queued' })));
+    setEditTargetIndex(null);
+    const batchId = startGeneratorBatch();
+    const products = getGeneratorProducts();
+    generatorProductsRef.current = products;
+    const provenance = captureGeneratorProvenance();
+    generatorProvenanceRef.current = provenance;
+
+    const onProgress = (event: BatchProgressEvent) => {
+      if (controller.signal.aborted || generatorBatchRef.current !== batchId) return;
+      setGeneratorJob(event.job);
+      if (event.type === 'start') {
+        updateSlot(event.index, { status: 'running', startedAt: Date.now() });
+        return;
+      }
+      setOutputResults(prev => prev ? prev.map((slot, i) => i === event.index
+        ? { ...event.result, startedAt: slot.startedAt, finishedAt: Date.now() }
+        : slot) : prev);
+      if (event.result.status === 'success') {
+        recordTemplate([event.result.imageUrl], event.job.template);
+        recordLayout([event.result.imageUrl], event.job.layout);
+        recordProducts([event.result.imageUrl], products);
+        recordProvenance(event.result.imageUrl, provenance, { template: event.job.template, layout: event.job.layout, variation: event.index });
+      }
+    };
 
     try {
       let result;
@@ -395,46 +834,84 @@ const App: React.FC = () => {
       if (tileWidth && tileHeight) {
           tileDimensions = `${tileWidth} x ${tileHeight} ${tileUnit}`;
       }
+      const sheetDimensions = patternSheet ? `${patternSheet.width} x ${patternSheet.height} ${tileUnit}` : undefined;
 
       switch (generationMode) {
         case 'PatternAndMaterial':
           if (!renderShot.file || !pattern.file || materialFiles.length === 0) {
             throw new Error("Please upload a Render Shot, a Pattern, and at least one Material image.");
           }
-          result = await applyPatternAndMaterial(renderShot.file, pattern.file, materialFiles, surfaceType, numberOfVariations, tileDimensions);
+          result = await applyPatternAndMaterial(renderShot.file, pattern.file, materialFiles, surfaceType, numberOfVariations, { tileDimensions, sheetDimensions, layout, mask: renderShot.mask, signal: controller.signal, onProgress });
           break;
         case 'PatternOnly':
           if (!renderShot.file || !pattern.file) {
             throw new Error("Please upload a Render Shot and a Pattern Image for this mode.");
           }
-          result = await applyPatternOnly(renderShot.file, pattern.file, surfaceType, numberOfVariations, tileDimensions);
+          result = await applyPatternOnly(renderShot.file, pattern.file, surfaceType, numberOfVariations, { tileDimensions, sheetDimensions, layout, mask: renderShot.mask, signal: controller.signal, onProgress });
           break;
         case 'MaterialOnly':
           if (!renderShot.file || materialFiles.length === 0) {
             throw new Error("Please upload a Render Shot and at least one Material Image for this mode.");
           }
-          result = await applyMaterialOnly(renderShot.file, materialFiles, surfaceType, numberOfVariations);
+          result = await applyMaterialOnly(renderShot.file, materialFiles, surfaceType, numberOfVariations, { mask: renderShot.mask, signal: controller.signal, onProgress });
+          break;
+        case 'MultiSurface':
+          if (!renderShot.file || surfaceAssignments.length === 0 || !surfaceAssignments.every(isSurfaceAssignmentComplete)) {
+            throw new Error("Please upload a Render Shot and give every surface a pattern or at least one material.");
+          }
+          result = await applyMultiSurface(
+            renderShot.file,
+            surfaceAssignments.map(a => ({
+              surfaceType: a.surfaceType,
+              pattern: a.pattern.file,
+              materials: a.materials.map(m => m.file).filter((f): f is File => f !== null),
+              tileDimensions: a.tileWidth && a.tileHeight ? `${a.tileWidth} x ${a.tileHeight} ${tileUnit}` : undefined,
+            })),
+            numberOfVariations,
+            { mask: renderShot.mask, signal: controller.signal, onProgress }
+          );
           break;
         default:
           throw new Error("Invalid generation mode selected.");
       }
       
-      if (result && result.imageUrls.length > 0) {
-        setOutputImages(result.imageUrls);
-      } else {
-        setError("Failed to generate image. The AI did not return any images.");
+      if (controller.signal.aborted) return;
+      if (!result.results.some(r => r.status === 'success')) {
+        setError("The AI failed to generate any images. Please try a different combination of images or prompt, or retry the failed variations.");
       }
     } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      setOutputResults(null);
       if (err instanceof Error) {
         setError(err.message);
       } else {
         setError("An unknown error occurred.");
       }
     } finally {
-      setLoading(false);
+      if (generatorAbortRef.current === controller) {
+        generatorAbortRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
+  const handleUseComposedPattern = (sheetUrl: string, size: { tileWidth: number; tileHeight: number; sheetWidth: number; sheetHeight: number }) => {
+    // Picked up by the pattern effect once the sheet has been preprocessed into the pattern.
+    pendingPatternSheetRef.current = { width: size.sheetWidth, height: size.sheetHeight };
+    handleImageSelect(dataURLtoFile(sheetUrl, `composed_pattern_${Date.now()}.png`), setPattern, 'pattern');
+    // The sheet already shows the layout. The tile size stays the real one; the sheet's size
+    // is sent alongside it so the generator scales the sheet as a whole.
+    setLayout(null);
+    setTileWidth(String(size.tileWidth));
+    setTileHeight(String(size.tileHeight));
+    setIsComposerOpen(false);
+  };
+
+  const handleMaskSave = (mask: File | null) => {
+    setRenderShot(prev => ({ ...prev, mask }));
+    setIsMaskEditorOpen(false);
+  };
+
   const getIsGeneratorButtonDisabled = () => {
     if(loading || apiKeyError) return true;
     switch (generationMode) {
@@ -444,11 +921,46 @@ const App: React.FC = () => {
             return !renderShot.file || !pattern.file;
         case 'MaterialOnly':
             return !renderShot.file || materials.length === 0;
+        case 'MultiSurface':
+            return !renderShot.file || surfaceAssignments.length === 0 || !surfaceAssignments.every(isSurfaceAssignmentComplete);
         default:
             return true;
     }
   };
 
+  const handleRetryVariation = async (index: number) => {
+    const job = generatorJob;
+    const batchId = generatorBatchRef.current;
+    if (!job || outputResults?.[index]?.status === 'running') return;
+    const { signal } = retryAbortRef.current;
+    const startedAt = Date.now();
+    updateSlot(index, { status: 'running', startedAt });
+    try {
+      const result = await retryVariation(job, index, signal);
+      // Ignore the retry if it was cancelled or a new batch has replaced the one it belonged to.
+      if (signal.aborted || generatorBatchRef.current !== batchId) return;
+      updateSlot(index, { ...result, startedAt, finishedAt: Date.now() });
+      if (result.status === 'success') {
+        recordTemplate([result.imageUrl], job.template);
+        recordLayout([result.imageUrl], job.layout);
+        recordProducts([result.imageUrl], generatorProductsRef.current);
+        if (generatorProvenanceRef.current) {
+          recordProvenance(result.imageUrl, generatorProvenanceRef.current, { template: job.template, layout: job.layout, variation: index });
+        }
+        setError(null);
+      }
+    } catch (err) {
+      if (signal.aborted || isAbortError(err) || generatorBatchRef.current !== batchId) return;
+      // Shown on the variation like any other failure, so it can be retried again.
+      updateSlot(index, {
+        status: 'error',
+        reason: err instanceof Error ? err.message : "An unknown error occurred.",
+        startedAt,
+        finishedAt: Date.now(),
+      });
+    }
+  };
+
   // --- Extractor Studio Logic ---
   const handleProcessImage = async () => {
     if (apiKeyError) return;
@@ -456,6 +968,7 @@ const App: React.FC = () => {
       setProcessingError("Please upload an image to process.");
       return;
     }
+    const controller = beginRequest(extractorAbortRef);
     setIsProcessing(true);
     setProcessingError(null);
     setProcessedImage(null);
@@ -466,28 +979,37 @@ const App: React.FC = () => {
         dimensions = `${sourceWidth} x ${sourceHeight} ${sourceUnit}`;
       }
 
-      const result = await extractAndProcessImage(sourceImage.file, extractionType, dimensions);
-      
+      const provenance = startProvenance('extractor', [{ role: 'source', image: sourceImage.file, product: sourceImage.product }], {
+        extractionType,
+        sourceWidth,
+        sourceHeight,
+        sourceUnit,
+      });
+      const result = await extractAndProcessImage(sourceImage.file, extractionType, dimensions, controller.signal);
+      if (controller.signal.aborted) return;
+
       if (result && result.imageUrl) {
         setProcessedImage(result.imageUrl);
+        recordTemplate([result.imageUrl], result.template);
+        recordProvenance(result.imageUrl, provenance, { template: result.template });
         // Add to history
-        if (extractionType === 'Pattern') {
-            setPatternHistory(prev => [...new Set([result.imageUrl!, ...prev])]);
-        } else {
-            setMaterialHistory(prev => [...new Set([result.imageUrl!, ...prev])]);
-        }
+        addToHistory(result.imageUrl, extractionType === 'Pattern' ? 'pattern' : 'material');
       } else {
         setProcessingError("Failed to process image. The AI did not return an image.");
       }
 
     } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
       if (err instanceof Error) {
         setProcessingError(err.message);
       } else {
         setProcessingError("An unknown error occurred during processing.");
       }
     } finally {
-      setIsProcessing(false);
+      if (extractorAbortRef.current === controller) {
+        extractorAbortRef.current = null;
+        setIsProcessing(false);
+      }
     }
   };
   
@@ -507,16 +1029,36 @@ const App: React.FC = () => {
     return new File([u8arr], filename, { type: mime });
   };
 
-  const handleDownload = (imageUrl: string | null, baseFilename: string) => {
+  const handleDownload = async (imageUrl: string | null, baseFilename: string) => {
     if (!imageUrl) return;
     const link = document.createElement('a');
     link.href = imageUrl;
-    link.download = `bovali_${baseFilename}.png`;
+    const provenance = imageProvenance[imageUrl];
+    if (provenance) {
+      try {
+        link.href = URL.createObjectURL(await embedProvenance(await (await fetch(imageUrl)).blob(), provenance));
+      } catch (err) {
+        console.error("Could not embed provenance; downloading the image without it.", err);
+      }
+    }
+    const skus = skusForFilename(imageProducts[imageUrl]);
+    link.download = `bovali_${baseFilename}${skus ? `_${skus}` : ''}.png`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    if (link.href.startsWith('blob:') && link.href !== imageUrl) URL.revokeObjectURL(link.href);
   };
   
+  const handleApplySeamlessFix = (fixedUrl: string) => {
+    if (processedImage && imageTemplates[processedImage]) {
+      recordTemplate([fixedUrl], imageTemplates[processedImage]);
+    }
+    if (processedImage && imageProvenance[processedImage]) {
+      setImageProvenance(prev => ({ ...prev, [fixedUrl]: prev[processedImage] }));
+    }
+    setProcessedImage(fixedUrl);
+  };
+
   const handleSendToGenerator = (imageUrl: string | null, type: 'Pattern' | 'Material') => {
     if (!imageUrl) return;
 
@@ -550,14 +1092,14 @@ const App: React.FC = () => {
   };
   
   // --- Pattern Studio Logic ---
-  const handlePatternMaterialSelect = async (file: File) => {
+  const handlePatternMaterialSelect = async (file: File, product?: ProductMetadata) => {
     const newMaterial: ImageState = {
         file,
         previewUrl: URL.createObjectURL(file),
+        product,
     };
     setPatternMaterials(prev => [...prev, newMaterial]);
-    const dataUrl = await fileToDataURL(file);
-    setMaterialHistory(prev => [...new Set([dataUrl, ...prev])]);
+    addToHistory(file, 'material');
   };
 
   const handlePatternMaterialRemove = (index: number) => {
@@ -577,6 +1119,7 @@ const App: React.FC = () => {
         setPatternError("Please provide a Pattern Outline and at least one Material Image.");
         return;
     }
+    const controller = beginRequest(patternAbortRef);
     setIsPatternGenerating(true);
     setPatternError(null);
     setPatternOutput(null);
@@ -585,21 +1128,34 @@ const App: React.FC = () => {
         const materialFiles = patternMaterials.map(m => m.file).filter((f): f is File => f !== null);
         const referenceFile = patternReference.file;
 
-        const result = await createFromOutline(patternOutline.file, materialFiles, referenceFile, patternPrompt);
+        const provenance = startProvenance('pattern', [
+            { role: 'outline', image: patternOutline.file },
+            ...patternMaterials.map(m => ({ role: 'material', image: m.file, product: m.product })),
+            { role: 'reference', image: referenceFile },
+        ], { prompt: patternPrompt });
+        const result = await createFromOutline(patternOutline.file, materialFiles, referenceFile, patternPrompt, controller.signal);
+        if (controller.signal.aborted) return;
         if (result.imageUrl) {
             setPatternOutput(result.imageUrl);
-            setPatternHistory(prev => [...new Set([result.imageUrl!, ...prev])]);
+            recordTemplate([result.imageUrl], result.template);
+            recordProducts([result.imageUrl], patternMaterials.map(m => m.product).filter((p): p is ProductMetadata => !!p));
+            recordProvenance(result.imageUrl, provenance, { template: result.template });
+            addToHistory(result.imageUrl, 'pattern');
         } else {
             setPatternError("The AI failed to generate a pattern. Please try again.");
         }
     } catch (err) {
+        if (controller.signal.aborted || isAbortError(err)) return;
         if (err instanceof Error) {
             setPatternError(err.message);
         } else {
             setPatternError("An unknown error occurred during pattern generation.");
         }
     } finally {
-        setIsPatternGenerating(false);
+        if (patternAbortRef.current === controller) {
+            patternAbortRef.current = null;
+            setIsPatternGenerating(false);
+        }
     }
   };
 
@@ -613,61 +1169,464 @@ const App: React.FC = () => {
     setIsHistoryModalOpen(true);
   };
 
-  const handleHistorySelect = (dataUrl: string) => {
-    if (!activeHistoryType) return;
-    
-    const filename = `${activeHistoryType}_from_history_${Date.now()}.png`;
-    const file = dataURLtoFile(dataUrl, filename);
-    const imageState: ImageState = { file, previewUrl: dataUrl };
+  // Render shots and patterns take the first file; materials take them all.
+  const handleHistorySelect = (files: File[]) => {
+    if (!activeHistoryType || files.length === 0) return;
+    const [file] = files;
+    const toImageState = (f: File): ImageState => ({ file: f, previewUrl: URL.createObjectURL(f) });
 
     if (activeHistoryType === 'renderShot') {
-        setRenderShot(imageState);
+        handleImageSelect(file, setRenderShot, 'renderShot');
     } else if (activeHistoryType === 'pattern') {
         if (activeTab === 'pattern') {
-             const newMaterial: ImageState = { file, previewUrl: dataUrl };
-             setPatternMaterials(prev => [...prev, newMaterial]);
+             setPatternMaterials(prev => [...prev, toImageState(file)]);
         } else {
-            setPattern(imageState);
+            handleImageSelect(file, setPattern, 'pattern');
         }
     } else if (activeHistoryType === 'material') {
         if (activeTab === 'pattern') {
-             const newMaterial: ImageState = { file, previewUrl: dataUrl };
-             setPatternMaterials(prev => [...prev, newMaterial]);
+             setPatternMaterials(prev => [...prev, ...files.map(toImageState)]);
         } else {
-            handleGeneratorMaterialSelect(file);
+            setMaterials(prev => [...prev, ...files.map(toImageState)]);
         }
     }
     
     setIsHistoryModalOpen(false);
     setActiveHistoryType(null);
-    setOutputImages(null);
+    setOutputResults(null);
     setError(null);
   };
 
-  const getActiveHistory = () => {
+  const getHistoryTitle = () => {
     switch (activeHistoryType) {
-      case 'renderShot': return { title: 'Render Shot History', images: renderShotHistory };
-      case 'pattern': return { title: 'Pattern History', images: patternHistory };
-      case 'material': return { title: 'Material History', images: materialHistory };
-      default: return { title: '', images: [] };
+      case 'renderShot': return 'Render Shot History';
+      case 'pattern': return 'Pattern History';
+      case 'material': return 'Material History';
+      default: return 'Asset History';
     }
   };
 
-  // --- Export Gallery Logic ---
-  const handleExportImage = (imageUrl: string) => {
-    setExportedImages(prev => {
-        if (prev.includes(imageUrl)) {
-            // Optionally, provide feedback that the image is already exported
-            return prev;
+  // --- Project Logic ---
+  const toProjectImage = (image: ImageState): ProjectImage | null =>
+    image.file ? { file: image.file, mask: image.mask ?? null, product: image.product ?? null } : null;
+
+  const fromProjectImage = (image: ProjectImage | null): ImageState =>
+    image ? { file: image.file, previewUrl: URL.createObjectURL(image.file), mask: image.mask ?? null, product: image.product ?? null } : { file: null, previewUrl: null };
+
+  const getProjectState = (name: string): ProjectState => {
+    const outputs = [...outputImages, processedImage, patternOutput].filter((url): url is string => !!url);
+    return {
+      name,
+      activeTab,
+      generator: {
+        surfaceType,
+        generationMode,
+        renderShot: toProjectImage(renderShot),
+        pattern: toProjectImage(pattern),
+        materials: materials.map(toProjectImage).filter((image): image is ProjectImage => !!image),
+        tileWidth,
+        tileHeight,
+        tileUnit,
+        layout,
+        numberOfVariations,
+        surfaces: surfaceAssignments.map(assignment => ({
+          surfaceType: assignment.surfaceType,
+          pattern: toProjectImage(assignment.pattern),
+          materials: assignment.materials.map(toProjectImage).filter((image): image is ProjectImage => !!image),
+          tileWidth: assignment.tileWidth,
+          tileHeight: assignment.tileHeight,
+        })),
+        outputs: outputImages,
+      },
+      extractor: {
+        sourceImage: toProjectImage(sourceImage),
+        extractionType,
+        sourceWidth,
+        sourceHeight,
+        sourceUnit,
+        output: processedImage,
+      },
+      pattern: {
+        outline: toProjectImage(patternOutline),
+        materials: patternMaterials.map(toProjectImage).filter((image): image is ProjectImage => !!image),
+        reference: toProjectImage(patternReference),
+        prompt: patternPrompt,
+        output: patternOutput,
+      },
+      chat: messages,
+      outputDetails: Object.fromEntries(outputs.map(url => [url, getOutputDetails(url)])),
+    };
+  };
+
+  const applyProjectState = (project: ProjectState) => {
+    cancelGenerator();
+    cancelExtractor();
+    cancelPattern();
+    cancelChatEdit();
+    // Every input is replaced, so the previews of the current ones can go.
+    [...generatorInputImages(), sourceImage, patternOutline, ...patternMaterials, patternReference].forEach(revokePreview);
+    const { generator, extractor, pattern: studio } = project;
+    if (generator.generationMode !== generationMode) {
+        skipModeResetRef.current = true;
+    }
+    setActiveTab(project.activeTab as ActiveTab);
+    setProjectName(project.name);
+
+    setSurfaceType(generator.surfaceType as SurfaceType);
+    setGenerationMode(generator.generationMode as GenerationMode);
+    setRenderShot(fromProjectImage(generator.renderShot));
+    setPattern(fromProjectImage(generator.pattern));
+    setMaterials(generator.materials.map(fromProjectImage));
+    setTileWidth(generator.tileWidth);
+    setTileHeight(generator.tileHeight);
+    setTileUnit(generator.tileUnit);
+    setLayout(generator.layout);
+    setNumberOfVariations(generator.numberOfVariations);
+    setSurfaceAssignments(generator.surfaces.map(surface => ({
+        ...createSurfaceAssignment(surface.surfaceType as SurfaceType),
+        pattern: fromProjectImage(surface.pattern),
+        materials: surface.materials.map(fromProjectImage),
+        tileWidth: surface.tileWidth,
+        tileHeight: surface.tileHeight,
+    })));
+    startGeneratorBatch();
+    setOutputResults(generator.outputs.length > 0 ? generator.outputs.map(imageUrl => ({ status: 'success', imageUrl })) : null);
+    setEditTargetIndex(null);
+    setError(null);
+
+    setSourceImage(fromProjectImage(extractor.sourceImage));
+    setExtractionType(extractor.extractionType as ExtractionType);
+    setSourceWidth(extractor.sourceWidth);
+    setSourceHeight(extractor.sourceHeight);
+    setSourceUnit(extractor.sourceUnit);
+    setProcessedImage(extractor.output);
+    setProcessingError(null);
+
+    setPatternOutline(fromProjectImage(studio.outline));
+    setPatternMaterials(studio.materials.map(fromProjectImage));
+    setPatternReference(fromProjectImage(studio.reference));
+    setPatternPrompt(studio.prompt);
+    setPatternOutput(studio.output);
+    setPatternError(null);
+
+    setMessages(project.chat.length > 0 ? project.chat : INITIAL_MESSAGES);
+    Object.entries(project.outputDetails).forEach(([url, details]) => restoreOutputDetails(url, details));
+  };
+
+  const handleSaveProject = async (saveAs: boolean) => {
+    setProjectError(null);
+    try {
+        let handle = saveAs ? null : projectHandleRef.current;
+        if (!handle) {
+            handle = await pickSaveLocation(projectFilename(projectName));
+        }
+        const name = handle ? projectNameFromFilename(handle.name) : projectName;
+        setProjectStatus('Saving project...');
+        const blob = await writeProjectFile(getProjectState(name));
+        if (handle) {
+            await writeToHandle(handle, blob);
+        } else {
+            downloadProject(name, blob);
+        }
+        const id = saveAs || !projectIdRef.current ? createProjectId() : projectIdRef.current;
+        projectIdRef.current = id;
+        projectHandleRef.current = handle;
+        setProjectName(name);
+        // The project itself is saved by now; only listing it under recent projects can fail here.
+        try {
+            await rememberProject(id, name, blob, handle ?? undefined);
+        } catch (err) {
+            console.error("Could not remember project", err);
+            setProjectError(isQuotaError(err)
+                ? "The project was saved, but there isn't room on this device to list it under recent projects."
+                : "The project was saved, but it couldn't be added to recent projects.");
+        }
+    } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        console.error("Could not save project", err);
+        setProjectError(err instanceof Error ? err.message : "The project could not be saved.");
+    } finally {
+        setProjectStatus(null);
+    }
+  };
+
+  const openProject = async (blob: Blob, id: string, handle?: FileSystemFileHandle) => {
+    setProjectError(null);
+    setProjectStatus('Opening project...');
+    try {
+        const project = await readProjectFile(blob);
+        applyProjectState(project);
+        projectIdRef.current = id;
+        projectHandleRef.current = handle ?? null;
+        setIsProjectOpen(false);
+        await rememberProject(id, project.name, blob, handle);
+    } catch (err) {
+        console.error("Could not open project", err);
+        setProjectError(err instanceof Error ? err.message : "The project could not be opened.");
+    } finally {
+        setProjectStatus(null);
+    }
+  };
+
+  // Returns false when the browser has no file picker, so the modal falls back to a file input.
+  const handleOpenProjectPicker = async (): Promise<boolean> => {
+    try {
+        const picked = await pickProjectToOpen();
+        if (!picked) return false;
+        await openProject(picked.file, createProjectId(), picked.handle);
+    } catch (err) {
+        if (!(err instanceof DOMException && err.name === 'AbortError')) {
+            console.error("Could not open project", err);
+            setProjectError("The project could not be opened.");
+        }
+    }
+    return true;
+  };
+
+  const handleOpenRecentProject = async (id: string) => {
+    try {
+        const stored = await getRecentProject(id);
+        if (!stored) {
+            setProjectError("That project is no longer stored on this device.");
+            return;
+        }
+        await openProject(stored.blob, id, stored.handle);
+    } catch (err) {
+        console.error("Could not open recent project", err);
+        setProjectError("The project could not be opened.");
+    }
+  };
+
+  // --- Viewer Logic ---
+  const releaseViewerBefore = () => {
+    if (viewerBeforeUrlRef.current) URL.revokeObjectURL(viewerBeforeUrlRef.current);
+    viewerBeforeUrlRef.current = null;
+  };
+
+  const closeViewer = () => {
+    setViewer(null);
+    releaseViewerBefore();
+  };
+
+  // The render shot the output was actually made from, found by the hash in its provenance: the
+  // current Render Shot if it still matches, otherwise the copy kept in the asset history.
+  const findGeneratorBefore = async (imageUrl: string): Promise<ViewerImage | null> => {
+    const input = imageProvenance[imageUrl]?.inputs.find(item => item.role === 'renderShot');
+    if (!input) return null;
+    if (renderShot.file && renderShot.previewUrl && await hashBlob(renderShot.file) === input.sha256) {
+      return { url: renderShot.previewUrl, label: 'Render Shot' };
+    }
+    const blob = await getAssetBlob(input.sha256);
+    if (!blob) return null;
+    releaseViewerBefore();
+    viewerBeforeUrlRef.current = URL.createObjectURL(blob);
+    return { url: viewerBeforeUrlRef.current, label: 'Render Shot' };
+  };
+
+  const openGeneratorViewer = (imageUrl: string) => {
+    const images = (outputResults ?? []).flatMap((slot, index) =>
+      slot.status === 'success' ? [{ url: slot.imageUrl, label: `Variation ${index + 1}` }] : []);
+    releaseViewerBefore();
+    setViewer({
+      images,
+      index: Math.max(0, images.findIndex(image => image.url === imageUrl)),
+      before: null,
+    });
+    findGeneratorBefore(imageUrl)
+      .then(before => before && setViewer(prev => prev && prev.images === images ? { ...prev, before } : prev))
+      .catch(err => console.warn("Could not find the render shot this output was made from", err));
+  };
+
+  const openSingleViewer = (imageUrl: string, label: string, before: ImageState, beforeLabel: string) => {
+    setViewer({
+      images: [{ url: imageUrl, label }],
+      index: 0,
+      before: before.previewUrl ? { url: before.previewUrl, label: beforeLabel } : null,
+    });
+  };
+
+  // --- Provenance Logic ---
+  const handleProvenanceFound = (record: ProvenanceRecord) => {
+    setProvenanceOffer({ record });
+  };
+
+  // Restores the settings an output was made with. Its inputs come back too when they are still
+  // in the asset history, which is keyed by the same content hashes.
+  const handleRestoreProvenance = async (offered: ProvenanceRecord) => {
+    const record = offered.studio === 'chat' && offered.parent ? offered.parent : offered;
+    const { settings } = record;
+    const found = await Promise.all(record.inputs.map(async input => {
+        try {
+            return { input, file: await getAssetFile(input.sha256) };
+        } catch {
+            return { input, file: null };
+        }
+    }));
+    const filesFor = (role: string, surface?: number) => found
+        .filter(({ input, file }) => input.role === role && input.surface === surface && file)
+        .map(({ file }) => ({ file: file!, previewUrl: URL.createObjectURL(file!) }));
+    const imageFor = (role: string, surface?: number): ImageState => filesFor(role, surface)[0] ?? { file: null, previewUrl: null };
+
+    if (record.studio === 'generator') {
+        if (settings.generationMode && settings.generationMode !== generationMode) {
+            skipModeResetRef.current = true;
         }
-        return [imageUrl, ...prev]; // Add to the beginning
+        cancelGenerator();
+        generatorInputImages().forEach(revokePreview);
+        setActiveTab('generator');
+        if (settings.generationMode) setGenerationMode(settings.generationMode as GenerationMode);
+        if (settings.surfaceType) setSurfaceType(settings.surfaceType as SurfaceType);
+        setTileWidth(settings.tileWidth ?? '');
+        setTileHeight(settings.tileHeight ?? '');
+        if (settings.tileUnit) setTileUnit(settings.tileUnit);
+        setLayout(record.layout ?? null);
+        if (settings.numberOfVariations) setNumberOfVariations(settings.numberOfVariations);
+        setRenderShot(imageFor('renderShot'));
+        setPattern(imageFor('pattern'));
+        setMaterials(filesFor('material'));
+        setSurfaceAssignments((settings.surfaces ?? []).map((surface, index) => ({
+            ...createSurfaceAssignment(surface.surfaceType as SurfaceType),
+            pattern: imageFor('pattern', index),
+            materials: filesFor('material', index),
+            tileWidth: surface.tileWidth,
+            tileHeight: surface.tileHeight,
+        })));
+        setOutputResults(null);
+        setError(null);
+    } else if (record.studio === 'extractor') {
+        cancelExtractor();
+        setActiveTab('extractor');
+        if (settings.extractionType) setExtractionType(settings.extractionType as ExtractionType);
+        setSourceWidth(settings.sourceWidth ?? '');
+        setSourceHeight(settings.sourceHeight ?? '');
+        if (settings.sourceUnit) setSourceUnit(settings.sourceUnit);
+        setSourceImage(imageFor('source'));
+        setProcessedImage(null);
+        setProcessingError(null);
+    } else if (record.studio === 'pattern') {
+        cancelPattern();
+        setActiveTab('pattern');
+        setPatternOutline(imageFor('outline'));
+        setPatternMaterials(filesFor('material'));
+        setPatternReference(imageFor('reference'));
+        setPatternPrompt(settings.prompt ?? '');
+        setPatternOutput(null);
+        setPatternError(null);
+    }
+
+    // Masks are never added to the history, so they aren't counted.
+    const images = found.filter(({ input }) => input.role !== 'mask');
+    const restored = images.filter(({ file }) => file).length;
+    setProvenanceOffer({
+        record: offered,
+        notice: record.studio === 'chat'
+            ? "This edit's original settings weren't recorded, so there is nothing to restore."
+            : `Settings restored. ${restored} of ${images.length} input images were found in your history${restored < images.length ? '; add the rest again' : ''}.`,
+    });
+  };
+
+  // --- Export Gallery Logic ---
+  const handleExportImage = async (imageUrl: string) => {
+    if (exportedImages.includes(imageUrl)) return;
+    setExportedImages(prev => [imageUrl, ...prev]); // Add to the beginning
+    try {
+        const entry = await saveExport(imageUrl, getOutputDetails(imageUrl));
+        setExportEntries(prev => ({ ...prev, [imageUrl]: entry }));
+    } catch (err) {
+        console.error("Could not save exported image", err);
+        setExportedImages(prev => prev.filter(url => url !== imageUrl));
+        setError(isQuotaError(err)
+            ? "Storage on this device is full. Delete some images from the Export Gallery and try again."
+            : "The image could not be saved to the Export Gallery.");
+    }
+  };
+
+  // e.g. "bovali_BV-1001_Herringbone_2026-10-19_003.png": what it shows, then when and which one.
+  const getExportFilename = (imageUrl: string) => {
+    const mimeType = exportEntries[imageUrl]?.mimeType ?? imageUrl.match(/^data:(image\/\w+)/)?.[1];
+    const extension = mimeType?.split('/')[1]?.replace('jpeg', 'jpg') ?? 'png';
+    const position = exportedImages.indexOf(imageUrl);
+    const parts = [
+      'bovali',
+      skusForFilename(imageProducts[imageUrl]),
+      imageLayouts[imageUrl]?.pattern,
+      new Date().toISOString().slice(0, 10),
+      String((position === -1 ? 0 : exportedImages.length - position)).padStart(3, '0'),
+    ].filter(Boolean);
+    return `${parts.join('_')}.${extension}`;
+  };
+
+  const handleDeleteExportedImages = async (urls: string[]) => {
+    const ids = urls.map(url => exportEntries[url]?.id).filter((id): id is string => !!id);
+    try {
+        await deleteExports(ids);
+    } catch (err) {
+        console.error("Could not delete exported images", err);
+        setError("The images could not be deleted from the Export Gallery.");
+        return;
+    }
+    setExportedImages(prev => prev.filter(url => !urls.includes(url)));
+    setExportEntries(prev => {
+        const next = { ...prev };
+        urls.forEach(url => {
+            if (url.startsWith('blob:') && !isShortlisted(url)) URL.revokeObjectURL(url);
+            delete next[url];
+        });
+        return next;
     });
   };
 
-  const handleDeleteExportedImage = (indexToDelete: number) => {
-    setExportedImages(prev => prev.filter((_, index) => index !== indexToDelete));
+  // --- Shortlist Logic ---
+  const handleShortlist = async (imageUrl: string, source: ShortlistSource, label: string) => {
+    if (shortlist.some(item => item.imageUrl === imageUrl)) return;
+    const layout = imageLayouts[imageUrl];
+    try {
+        const item = await addToShortlist(imageUrl, {
+            source,
+            label,
+            skus: formatSkus(imageProducts[imageUrl] ?? []).split(', ').filter(Boolean),
+            layingPattern: layout ? getLayingPatternDefinition(layout.pattern).label : undefined,
+        });
+        setShortlist(prev => [item, ...prev]);
+    } catch (err) {
+        console.error("Could not add image to the shortlist", err);
+        setError(isQuotaError(err)
+            ? "Storage on this device is full. Remove some shortlisted or exported images and try again."
+            : "The image could not be added to the shortlist.");
+    }
+  };
+
+  const handleUpdateShortlist = (id: string, update: ShortlistUpdate) => {
+    setShortlist(prev => prev.map(item => item.id === id ? { ...item, ...update } : item));
+    updateShortlistItem(id, update).catch(err => console.error("Could not update shortlist item", err));
   };
 
+  const handleRemoveFromShortlist = async (ids: string[]) => {
+    try {
+        await removeFromShortlist(ids);
+    } catch (err) {
+        console.error("Could not remove shortlist items", err);
+        setError("The images could not be removed from the shortlist.");
+        return;
+    }
+    setShortlist(prev => prev.filter(item => {
+        if (!ids.includes(item.id)) return true;
+        if (item.imageUrl.startsWith('blob:') && !exportedImages.includes(item.imageUrl)) URL.revokeObjectURL(item.imageUrl);
+        return false;
+    }));
+  };
+
+  const isShortlisted = (imageUrl: string) => shortlist.some(item => item.imageUrl === imageUrl);
+
+  // Shortlist notes become the design's notes in a client PDF.
+  const getPdfDesign = (imageUrl: string): PdfDesign => ({
+    imageUrl,
+    products: (imageProducts[imageUrl] ?? []).filter(Boolean),
+    provenance: imageProvenance[imageUrl],
+    layout: imageLayouts[imageUrl],
+    note: shortlist.find(item => item.imageUrl === imageUrl)?.note ?? '',
+  });
+
   const handleDownloadAllAsZip = async () => {
       if (!exportedImages.length || typeof JSZip === 'undefined') {
           if (typeof JSZip === 'undefined') {
@@ -681,16 +1640,43 @@ const App: React.FC = () => {
 
       try {
           const zip = new JSZip();
+          const estimateRows: { image: string; estimate: TileEstimate }[] = [];
+          const productRows: { image: string; products: ProductMetadata[] }[] = [];
+          const manifestRows: { file: string; provenance: ProvenanceRecord | null }[] = [];
           const promises = exportedImages.map(async (dataUrl, index) => {
               // Fetch is more reliable for all data URL types
               const response = await fetch(dataUrl);
-              const blob = await response.blob();
+              let blob = await response.blob();
+              if (imageProvenance[dataUrl]) {
+                  blob = await embedProvenance(blob, imageProvenance[dataUrl]);
+              }
               const extension = blob.type.split('/')[1] || 'png';
-              const filename = `bovali_export_${String(index + 1).padStart(3, '0')}.${extension}`;
+              const skus = skusForFilename(imageProducts[dataUrl]);
+              const filename = `bovali_export_${String(index + 1).padStart(3, '0')}${skus ? `_${skus}` : ''}.${extension}`;
               zip.file(filename, blob);
+              manifestRows[index] = { file: filename, provenance: imageProvenance[dataUrl] ?? null };
+              if (imageEstimates[dataUrl]) {
+                  estimateRows[index] = { image: filename, estimate: imageEstimates[dataUrl] };
+              }
+              if (imageProducts[dataUrl]) {
+                  productRows[index] = { image: filename, products: imageProducts[dataUrl] };
+              }
           });
 
           await Promise.all(promises);
+          const estimates = estimateRows.filter(Boolean);
+          if (estimates.length > 0) {
+              zip.file('bovali_estimates.csv', estimatesToCsv(estimates));
+          }
+          zip.file('manifest.json', JSON.stringify({
+              app: 'Bovali AI Studio',
+              createdAt: new Date().toISOString(),
+              images: manifestRows.filter(Boolean),
+          }, null, 2));
+          const products = productRows.filter(Boolean);
+          if (products.length > 0) {
+              zip.file('bovali_products.csv', productsToCsv(products));
+          }
           
           const zipBlob = await zip.generateAsync({ type: 'blob' });
           
@@ -753,23 +1739,140 @@ const App: React.FC = () => {
             <p className="font-bold">{apiKeyError}</p>
         </div>
       )}
+      {!apiKeyError && providerNotice && (
+        <div className="bg-bovali-dark text-bovali-beige p-3 text-center text-sm sticky top-0 z-[100]" role="status">
+            <p>{providerNotice}</p>
+        </div>
+      )}
       <HistoryModal
         isOpen={isHistoryModalOpen}
         onClose={() => setIsHistoryModalOpen(false)}
-        title={getActiveHistory().title}
-        images={getActiveHistory().images}
-        onImageSelect={handleHistorySelect}
+        title={getHistoryTitle()}
+        initialType={activeHistoryType}
+        allowMultiple={activeHistoryType === 'material'}
+        onSelect={handleHistorySelect}
+        onChange={refreshHistoryCounts}
+      />
+      <ComparisonViewer
+        isOpen={viewer !== null}
+        onClose={closeViewer}
+        images={viewer?.images ?? []}
+        startIndex={viewer?.index ?? 0}
+        before={viewer?.before ?? null}
+      />
+      <ProjectModal
+        isOpen={isProjectOpen}
+        onClose={() => setIsProjectOpen(false)}
+        projectName={projectName}
+        onRename={setProjectName}
+        hasSaveLocation={!!projectHandleRef.current}
+        status={projectStatus}
+        error={projectError}
+        onSave={() => handleSaveProject(false)}
+        onSaveAs={() => handleSaveProject(true)}
+        onOpenFile={(file) => openProject(file, createProjectId())}
+        onOpenPicker={handleOpenProjectPicker}
+        onOpenRecent={handleOpenRecentProject}
       />
       <ExportGalleryModal
         isOpen={isExportGalleryOpen}
         onClose={() => setIsExportGalleryOpen(false)}
         images={exportedImages}
-        onDelete={handleDeleteExportedImage}
+        onDelete={handleDeleteExportedImages}
         onDownloadAll={handleDownloadAllAsZip}
         isDownloading={isZipping}
         onDownloadSingle={handleDownload}
+        onSaveToDrive={setDriveUploadUrls}
+        onCreatePdf={setPdfImageUrls}
+        imageSkus={Object.fromEntries(exportedImages.map(url => [url, formatSkus(imageProducts[url] ?? [])]))}
+        entries={exportEntries}
+      />
+      <ClientPdfModal
+        isOpen={pdfImageUrls !== null}
+        onClose={() => setPdfImageUrls(null)}
+        designs={(pdfImageUrls ?? []).map(getPdfDesign)}
+        defaultTitle={projectName === 'Untitled project' ? '' : projectName}
+      />
+      <ShortlistModal
+        isOpen={isShortlistOpen}
+        onClose={() => setIsShortlistOpen(false)}
+        items={shortlist}
+        onUpdate={handleUpdateShortlist}
+        onRemove={handleRemoveFromShortlist}
+        onPromote={(urls) => urls.forEach(handleExportImage)}
+        exportedImages={exportedImages}
+      />
+      <DriveCatalogueModal
+        key={catalogueSourcesVersion}
+        isOpen={catalogueTarget !== null}
+        onClose={() => setCatalogueTarget(null)}
+        onImageSelect={handleCatalogueSelect}
+        title={{ renderShot: 'Choose a Render Shot', pattern: 'Choose a Pattern', material: 'Choose a Material', patternMaterial: 'Choose a Material' }[catalogueTarget ?? 'material']}
+        role={catalogueTarget === 'renderShot' || catalogueTarget === 'pattern' ? catalogueTarget : 'material'}
+        onManageSources={() => setIsCatalogueSourcesOpen(true)}
+      />
+      <SaveToDriveModal
+        isOpen={driveUploadUrls !== null}
+        onClose={() => setDriveUploadUrls(null)}
+        items={(driveUploadUrls ?? []).map(url => ({ url, name: getExportFilename(url) }))}
+      />
+      <CatalogueSourcesModal
+        isOpen={isCatalogueSourcesOpen}
+        onClose={() => { setIsCatalogueSourcesOpen(false); setCatalogueSourcesVersion(v => v + 1); }}
       />
-      <header className="bg-bovali-green text-white py-16">
+      <MaskEditor
+        isOpen={isMaskEditorOpen}
+        imageUrl={renderShot.previewUrl}
+        initialMask={renderShot.mask ?? null}
+        onSave={handleMaskSave}
+        onClose={() => setIsMaskEditorOpen(false)}
+      />
+      <LayoutComposerModal
+        isOpen={isComposerOpen}
+        initialTileUrl={pattern.previewUrl}
+        tileWidth={tileWidth}
+        tileHeight={tileHeight}
+        tileUnit={tileUnit}
+        onUsePattern={handleUseComposedPattern}
+        onDownload={handleDownload}
+        onClose={() => setIsComposerOpen(false)}
+      />
+      <PromptTemplatesModal
+        isOpen={isPromptSettingsOpen}
+        onClose={() => setIsPromptSettingsOpen(false)}
+      />
+      <UploadSettingsModal
+        isOpen={isUploadSettingsOpen}
+        onClose={() => setIsUploadSettingsOpen(false)}
+      />
+      <header className="bg-bovali-green text-white py-16 relative">
+          <div className="absolute top-4 right-4 flex gap-2">
+            <button
+              onClick={() => setIsUploadSettingsOpen(true)}
+              className="text-sm font-semibold text-bovali-beige/80 hover:text-bovali-beige border border-bovali-beige/40 rounded-full py-1.5 px-4 transition-colors"
+            >
+              Upload Settings
+            </button>
+            <button
+              onClick={() => setIsProjectOpen(true)}
+              className="text-sm font-semibold text-bovali-beige/80 hover:text-bovali-beige border border-bovali-beige/40 rounded-full py-1.5 px-4 transition-colors"
+              title={projectName}
+            >
+              Project
+            </button>
+            <button
+              onClick={() => setIsCatalogueSourcesOpen(true)}
+              className="text-sm font-semibold text-bovali-beige/80 hover:text-bovali-beige border border-bovali-beige/40 rounded-full py-1.5 px-4 transition-colors"
+            >
+              Catalogue Sources
+            </button>
+            <button
+              onClick={() => setIsPromptSettingsOpen(true)}
+              className="text-sm font-semibold text-bovali-beige/80 hover:text-bovali-beige border border-bovali-beige/40 rounded-full py-1.5 px-4 transition-colors"
+            >
+              Prompt Templates
+            </button>
+          </div>
           <div className="container mx-auto px-4 text-center">
               <h1 className="text-6xl font-serif mb-4 text-bovali-beige">
                   Bovali AI Studio
@@ -784,6 +1887,21 @@ const App: React.FC = () => {
       </header>
 
       <main className="container mx-auto px-4 py-12">
+        {provenanceOffer && (
+          <div className="max-w-4xl mx-auto mb-8 bg-white border border-bovali-green/40 rounded-lg shadow-sm p-4 flex flex-wrap items-center gap-4 text-sm text-bovali-dark">
+            <p className="flex-grow">
+              {provenanceOffer.notice ?? <>This image was made in Bovali AI Studio ({describeProvenance(provenanceOffer.record)}). Restore the settings it was made with?</>}
+            </p>
+            {!provenanceOffer.notice && (
+              <button onClick={() => handleRestoreProvenance(provenanceOffer.record)} className="bg-bovali-green text-white font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-colors">
+                Restore settings
+              </button>
+            )}
+            <button onClick={() => setProvenanceOffer(null)} className="font-semibold text-bovali-grey hover:underline">
+              {provenanceOffer.notice ? 'Close' : 'Dismiss'}
+            </button>
+          </div>
+        )}
         <div className="flex flex-wrap justify-center items-center gap-4 bg-gray-200/50 p-2 rounded-full w-fit mx-auto mb-16">
             <TabButton label="Generator Studio" isActive={activeTab === 'generator'} onClick={() => setActiveTab('generator')} />
             <TabButton label="Extractor Studio" isActive={activeTab === 'extractor'} onClick={() => setActiveTab('extractor')} />
@@ -796,10 +1914,15 @@ const App: React.FC = () => {
             <div className="max-w-5xl mx-auto">
                 <div className="mb-10">
                     <h2 className="text-3xl font-serif text-bovali-dark mb-4 text-center">1. Select Surface Type</h2>
-                    <div className="flex justify-center items-center gap-4 bg-gray-200/50 p-2 rounded-full w-fit mx-auto">
-                        <ModeButton label="Flooring" isActive={surfaceType === 'Flooring'} onClick={() => setSurfaceType('Flooring')} />
-                        <ModeButton label="Walls" isActive={surfaceType === 'Walls'} onClick={() => setSurfaceType('Walls')} />
-                    </div>
+                    {generationMode === 'MultiSurface' ? (
+                        <p className="text-center text-bovali-grey">Assign a surface to each pattern and material in step 3.</p>
+                    ) : (
+                        <div className="flex flex-wrap justify-center items-center gap-4 bg-gray-200/50 p-2 rounded-3xl w-fit max-w-4xl mx-auto">
+                            {SURFACE_TYPES.map(surface => (
+                                <ModeButton key={surface.value} label={surface.label} isActive={surfaceType === surface.value} onClick={() => setSurfaceType(surface.value)} />
+                            ))}
+                        </div>
+                    )}
                 </div>
 
                 <div className="mb-12">
@@ -808,6 +1931,7 @@ const App: React.FC = () => {
                         <ModeButton label="Apply Pattern & Material" isActive={generationMode === 'PatternAndMaterial'} onClick={() => setGenerationMode('PatternAndMaterial')} />
                         <ModeButton label="Apply Pattern Only" isActive={generationMode === 'PatternOnly'} onClick={() => setGenerationMode('PatternOnly')} />
                         <ModeButton label="Apply Material Only" isActive={generationMode === 'MaterialOnly'} onClick={() => setGenerationMode('MaterialOnly')} />
+                        <ModeButton label="Multi-Surface" isActive={generationMode === 'MultiSurface'} onClick={() => setGenerationMode('MultiSurface')} />
                     </div>
                 </div>
                 
@@ -815,11 +1939,16 @@ const App: React.FC = () => {
                     <h2 className="text-3xl font-serif text-bovali-dark mb-6 text-center">3. Upload Your Images</h2>
                     <div className="flex flex-wrap justify-center gap-8 mb-12">
                       <div className="w-full max-w-sm">
-                        <ImageUploader title="Render Shot" onImageSelect={(file) => handleImageSelect(file, setRenderShot, 'renderShot')} previewUrl={renderShot.previewUrl} onImageRemove={() => handleImageRemove(setRenderShot)} onHistoryClick={renderShotHistory.length > 0 ? () => openHistoryModal('renderShot') : undefined} />
+                        <ImageUploader title="Render Shot" onImageSelect={(file) => handleImageSelect(file, setRenderShot, 'renderShot')} previewUrl={renderShot.previewUrl} onImageRemove={() => handleImageRemove(setRenderShot)} onHistoryClick={historyCounts.renderShot > 0 ? () => openHistoryModal('renderShot') : undefined} onMaskClick={() => setIsMaskEditorOpen(true)} hasMask={!!renderShot.mask} onCatalogueClick={() => setCatalogueTarget('renderShot')} onProvenanceFound={handleProvenanceFound} />
                       </div>
                       { (generationMode === 'PatternAndMaterial' || generationMode === 'PatternOnly') && (
                         <div className="w-full max-w-sm">
-                          <ImageUploader title="Pattern Image" onImageSelect={(file) => handleImageSelect(file, setPattern, 'pattern')} previewUrl={pattern.previewUrl} onImageRemove={() => handleImageRemove(setPattern)} onHistoryClick={patternHistory.length > 0 ? () => openHistoryModal('pattern') : undefined} />
+                          <ImageUploader title="Pattern Image" onImageSelect={(file) => handleImageSelect(file, setPattern, 'pattern')} previewUrl={pattern.previewUrl} onImageRemove={() => handleImageRemove(setPattern)} onHistoryClick={historyCounts.pattern > 0 ? () => openHistoryModal('pattern') : undefined} onCatalogueClick={() => setCatalogueTarget('pattern')} caption={pattern.product?.sku ? `SKU ${pattern.product.sku}${pattern.product.nominalSize ? ` · ${pattern.product.nominalSize}` : ''}` : undefined} onProvenanceFound={handleProvenanceFound} />
+                          <div className="text-center mt-4">
+                            <button onClick={() => setIsComposerOpen(true)} className="text-sm font-semibold text-bovali-green hover:underline">
+                              Compose layout from a single tile
+                            </button>
+                          </div>
                         </div>
                       )}
                       { (generationMode === 'PatternAndMaterial' || generationMode === 'MaterialOnly') && (
@@ -830,6 +1959,7 @@ const App: React.FC = () => {
                               {materials.map((mat, index) => (
                                 <div key={index} className="relative aspect-square rounded-md overflow-hidden group bg-gray-100">
                                   <img src={mat.previewUrl!} alt={`Material ${index + 1}`} className="w-full h-full object-cover" />
+                                  {mat.product?.sku && <span className="absolute bottom-1 left-1 bg-bovali-dark/80 text-white text-xs font-semibold px-1.5 py-0.5 rounded">{mat.product.sku}</span>}
                                   <button onClick={() => handleGeneratorMaterialRemove(index)} className="absolute top-1 right-1 bg-black/50 text-white rounded-full p-1 leading-none hover:bg-black/75 opacity-0 group-hover:opacity-100 transition-opacity" aria-label={`Remove Material ${index + 1}`}>
                                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
                                   </button>
@@ -837,16 +1967,27 @@ const App: React.FC = () => {
                               ))}
                             </div>
                            )}
-                          <ImageUploader title="Add Material" onImageSelect={handleGeneratorMaterialSelect} previewUrl={null} onHistoryClick={materialHistory.length > 0 ? () => openHistoryModal('material') : undefined} />
+                          <ImageUploader title="Add Material" onImageSelect={handleGeneratorMaterialSelect} previewUrl={null} onHistoryClick={historyCounts.material > 0 ? () => openHistoryModal('material') : undefined} onCatalogueClick={() => setCatalogueTarget('material')} onProvenanceFound={handleProvenanceFound} />
                         </div>
                       )}
                     </div>
+                    {generationMode === 'MultiSurface' && (
+                      <div className="mb-12">
+                        <SurfaceAssignmentEditor
+                          assignments={surfaceAssignments}
+                          tileUnit={tileUnit}
+                          onChange={handleSurfaceAssignmentChange}
+                          onAdd={handleAddSurfaceAssignment}
+                          onRemove={(id) => setSurfaceAssignments(prev => prev.filter(a => a.id !== id))}
+                        />
+                      </div>
+                    )}
                 </div>
             </div>
 
             <div className="max-w-5xl mx-auto mb-12">
                 <h2 className="text-3xl font-serif text-bovali-dark mb-6 text-center">4. Generation Options</h2>
-                <div className="flex flex-col sm:flex-row justify-center items-center gap-8 p-6 bg-gray-50 rounded-lg shadow-sm border border-gray-200/80 w-fit mx-auto">
+                <div className="flex flex-col sm:flex-row sm:flex-wrap justify-center items-center gap-8 p-6 bg-gray-50 rounded-lg shadow-sm border border-gray-200/80 w-fit mx-auto">
                     { (generationMode === 'PatternAndMaterial' || generationMode === 'PatternOnly') && (
                         <div className="flex flex-col items-center">
                             <h3 className="font-semibold text-bovali-dark mb-2">Tile Dimensions <span className="text-bovali-grey font-normal">(Optional)</span></h3>
@@ -861,6 +2002,18 @@ const App: React.FC = () => {
                             </div>
                         </div>
                     )}
+                    { (generationMode === 'PatternAndMaterial' || generationMode === 'PatternOnly') && (
+                        <LayoutSelector layout={layout} tileUnit={tileUnit} onChange={setLayout} />
+                    )}
+                    {generationMode === 'MultiSurface' && (
+                        <div className="flex flex-col items-center">
+                            <h3 className="font-semibold text-bovali-dark mb-2">Tile Unit</h3>
+                            <select value={tileUnit} onChange={(e) => setTileUnit(e.target.value as TileUnit)} className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark" aria-label="Tile dimension unit">
+                                <option value="cm">cm</option>
+                                <option value="inches">inches</option>
+                            </select>
+                        </div>
+                    )}
                     <div className="flex flex-col items-center">
                        <h3 className="font-semibold text-bovali-dark mb-2">Number of Variations</h3>
                        <input type="number" value={numberOfVariations} onChange={(e) => setNumberOfVariations(Math.max(1, Math.min(4, parseInt(e.target.value, 10) || 1)))} min="1" max="4" className="w-28 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none text-center bg-white text-bovali-dark" aria-label="Number of variations" />
@@ -869,41 +2022,125 @@ const App: React.FC = () => {
                 </div>
             </div>
 
+            {(generationMode === 'PatternAndMaterial' || generationMode === 'PatternOnly') && pattern.previewUrl && (
+              <div className="max-w-5xl mx-auto mb-12">
+                <h2 className="text-3xl font-serif text-bovali-dark mb-6 text-center">Repeat Preview</h2>
+                <RepeatPreviewPanel imageUrl={pattern.previewUrl} tileWidth={tileWidth} tileHeight={tileHeight} unit={tileUnit} onDownload={handleDownload} />
+              </div>
+            )}
+
+            {(generationMode === 'PatternAndMaterial' || generationMode === 'PatternOnly') && (
+              <div className="max-w-5xl mx-auto mb-12">
+                <h2 className="text-3xl font-serif text-bovali-dark mb-6 text-center">Quantity &amp; Cost Estimate</h2>
+                <TileEstimatorPanel tileWidth={tileWidth} tileHeight={tileHeight} tileUnit={tileUnit} layout={layout?.pattern ?? null} onEstimateChange={setCurrentEstimate} />
+              </div>
+            )}
+
             <div className="text-center mb-12">
               <button onClick={handleGeneratorSubmit} disabled={getIsGeneratorButtonDisabled()} className="bg-bovali-green text-white font-bold py-4 px-12 rounded-full text-xl hover:bg-opacity-90 transition-all duration-300 disabled:bg-gray-400 disabled:cursor-not-allowed transform hover:scale-105">
                 {loading ? 'Generating...' : `Generate ${numberOfVariations} Design${numberOfVariations > 1 ? 's' : ''}`}
               </button>
+              {loading && (
+                <button onClick={cancelGenerator} className="ml-4 bg-white text-red-700 border-2 border-red-600 font-semibold py-4 px-8 rounded-full text-xl hover:bg-red-50 transition-colors">
+                  Stop
+                </button>
+              )}
             </div>
 
             {error && <div className="text-center bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-8 max-w-4xl mx-auto" role="alert"><strong className="font-bold">Error: </strong><span className="block sm:inline">{error}</span></div>}
-            {loading && <div className="text-center"><p className="text-lg text-bovali-grey animate-pulse">The AI is working its magic... This can take a moment.</p><p className="text-sm text-gray-400 mt-2">Generating high-quality product visualizations requires complex processing. Thanks for your patience!</p></div>}
+            {loading && !outputResults && <div className="text-center"><p className="text-lg text-bovali-grey animate-pulse">The AI is working its magic... This can take a moment.</p><p className="text-sm text-gray-400 mt-2">Generating high-quality product visualizations requires complex processing. Thanks for your patience!</p></div>}
 
-            {outputImages && (
+            {outputResults && (
               <div className="mt-8">
-                <h2 className="text-4xl font-serif text-center text-bovali-green mb-6">Generated Result{outputImages.length > 1 ? 's' : ''}</h2>
-                <div className={`grid grid-cols-1 ${outputImages.length > 1 ? 'md:grid-cols-2' : ''} gap-8 max-w-7xl mx-auto`}>
-                  {outputImages.map((image, index) => (
+                <h2 className="text-4xl font-serif text-center text-bovali-green mb-2">Generated Result{outputResults.length > 1 ? 's' : ''}</h2>
+                {loading && <p className="text-center text-sm text-bovali-grey mb-6">{outputResults.filter(r => r.status !== 'queued' && r.status !== 'running').length} of {outputResults.length} finished. Finished designs can be downloaded, exported or edited while the rest render.</p>}
+                <div className={`grid grid-cols-1 ${outputResults.length > 1 ? 'md:grid-cols-2' : ''} gap-8 max-w-7xl mx-auto ${loading ? '' : 'mt-6'}`}>
+                  {outputResults.map((result, index) => {
+                    if (result.status === 'queued' || result.status === 'running') {
+                      return (
+                        <div key={index} className="bg-white p-4 rounded-lg shadow-lg border border-gray-200">
+                          <div className={`w-full aspect-[4/3] rounded-md bg-gray-200 flex flex-col items-center justify-center gap-2 ${result.status === 'running' ? 'animate-pulse' : ''}`}>
+                            <p className="font-semibold text-bovali-dark">Variation {index + 1}</p>
+                            <p className="text-sm text-bovali-grey">
+                              {result.status === 'running' && result.startedAt ? `Rendering… ${formatElapsed(result.startedAt, now)}` : 'Queued'}
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    }
+                    const elapsed = result.startedAt && result.finishedAt ? formatElapsed(result.startedAt, result.finishedAt) : null;
+                    return result.status === 'success' ? (
                     <div key={index} className="bg-white p-4 rounded-lg shadow-lg border border-gray-200 group relative">
-                      <img src={image} alt={`Generated product ${index + 1}`} className="w-full h-auto rounded-md" />
-                      <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-40 transition-all flex items-center justify-center gap-4">
+                      <img src={result.imageUrl} alt={`Generated product ${index + 1}`} className="w-full h-auto rounded-md" />
+                      {(() => {
+                        const details = [
+                          formatSkus(imageProducts[result.imageUrl] ?? []) && `SKU: ${formatSkus(imageProducts[result.imageUrl])}`,
+                          imageTemplates[result.imageUrl] && `Prompt: ${formatTemplateRef(imageTemplates[result.imageUrl])}`,
+                          imageLayouts[result.imageUrl] && `Layout: ${formatLayout(imageLayouts[result.imageUrl])}`,
+                          elapsed && `Rendered in ${elapsed}`,
+                        ].filter(Boolean);
+                        return details.length > 0 && <p className="text-xs text-bovali-grey mt-2 text-center">{details.join(' · ')}</p>;
+                      })()}
+                      {imageEstimates[result.imageUrl] && <p className="text-xs text-bovali-dark font-semibold mt-1 text-center">Estimate: {summariseEstimate(imageEstimates[result.imageUrl])}</p>}
+                      {currentEstimate && imageEstimates[result.imageUrl] !== currentEstimate && (
+                        <div className="text-center mt-1 relative z-10">
+                          <button onClick={() => handleAttachEstimate(result.imageUrl)} className="text-xs font-semibold text-bovali-green hover:underline">
+                            {imageEstimates[result.imageUrl] ? 'Replace with current estimate' : 'Attach current estimate'}
+                          </button>
+                        </div>
+                      )}
+                      <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-40 transition-all flex flex-wrap content-center items-center justify-center gap-4 p-4">
                         <button
-                          onClick={() => handleDownload(image, `generator_result_${index + 1}`)}
+                          onClick={() => handleDownload(result.imageUrl, `generator_result_${index + 1}`)}
                           className="bg-bovali-dark text-white font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-all opacity-0 group-hover:opacity-100 transform hover:scale-105"
                         >
                           Download
                         </button>
                         <button
-                          onClick={() => handleExportImage(image)}
+                          onClick={() => handleExportImage(result.imageUrl)}
                           className="bg-bovali-green text-white font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-all opacity-0 group-hover:opacity-100 disabled:bg-bovali-grey transform hover:scale-105"
-                          disabled={exportedImages.includes(image)}
+                          disabled={exportedImages.includes(result.imageUrl)}
+                        >
+                          {exportedImages.includes(result.imageUrl) ? 'Exported' : 'Export'}
+                        </button>
+                        <button
+                          onClick={() => { setEditTargetIndex(index); setIsChatOpen(true); }}
+                          className="bg-white text-bovali-dark font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-all opacity-0 group-hover:opacity-100 transform hover:scale-105"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => openGeneratorViewer(result.imageUrl)}
+                          className="bg-white text-bovali-dark font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-all opacity-0 group-hover:opacity-100 transform hover:scale-105"
                         >
-                          {exportedImages.includes(image) ? 'Exported' : 'Export'}
+                          Compare
+                        </button>
+                        <button
+                          onClick={() => handleShortlist(result.imageUrl, 'generator', `Variation ${index + 1}`)}
+                          className="bg-white text-bovali-dark font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-all opacity-0 group-hover:opacity-100 disabled:text-bovali-grey transform hover:scale-105"
+                          disabled={isShortlisted(result.imageUrl)}
+                        >
+                          {isShortlisted(result.imageUrl) ? 'Shortlisted' : 'Shortlist'}
                         </button>
                       </div>
+                      {editTargetIndex === index && outputImages.length > 1 && <span className="absolute top-6 left-6 bg-bovali-green text-white text-xs font-semibold px-2 py-1 rounded-full">Editing in chat</span>}
                     </div>
-                  ))}
+                  ) : (
+                    <div key={index} className="bg-white p-4 rounded-lg shadow-lg border border-red-200 flex flex-col items-center justify-center text-center min-h-[16rem] gap-4">
+                      <p className="font-semibold text-bovali-dark">Variation {index + 1} {result.status === 'no-image' ? 'returned no image' : 'failed'}</p>
+                      <p className="text-sm text-red-700 max-w-sm">{result.reason}</p>
+                      <button
+                        onClick={() => handleRetryVariation(index)}
+                        disabled={!generatorJob || !!apiKeyError}
+                        className="bg-bovali-green text-white font-semibold py-2 px-6 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                      >
+                        Retry this one
+                      </button>
+                    </div>
+                  );
+                  })}
                 </div>
-                <div className="text-center max-w-2xl mx-auto mt-6 p-4 bg-bovali-green/10 rounded-lg"><p className="text-bovali-green font-semibold">Want to make a change? Open the Design Assistant chat to edit your design.</p><p className="text-sm text-bovali-grey mt-1">Note: Editing will replace your batch results with a single edited image.</p></div>
+                {outputImages.length > 0 && <div className="text-center max-w-2xl mx-auto mt-6 p-4 bg-bovali-green/10 rounded-lg"><p className="text-bovali-green font-semibold">Want to make a change? Use Edit on a design, or open the Design Assistant chat.</p><p className="text-sm text-bovali-grey mt-1">Note: Editing replaces only the selected design{outputImages.length > 1 ? ' (the first one unless you pick another)' : ''}; the rest of the batch is kept.</p></div>}
               </div>
             )}
           </div>
@@ -921,7 +2158,7 @@ const App: React.FC = () => {
               {/* Input Column */}
               <div className="bg-white p-8 rounded-lg shadow-md border border-gray-200/80">
                 <h3 className="text-2xl font-serif text-bovali-dark mb-4 text-center">1. Upload Your Photo</h3>
-                <ImageUploader title="Source Photo" onImageSelect={(file) => handleImageSelect(file, setSourceImage)} previewUrl={sourceImage.previewUrl} onImageRemove={() => handleImageRemove(setSourceImage)} />
+                <ImageUploader title="Source Photo" onImageSelect={(file) => handleImageSelect(file, setSourceImage)} previewUrl={sourceImage.previewUrl} onImageRemove={() => handleImageRemove(setSourceImage)} onProvenanceFound={handleProvenanceFound} />
 
                 <h3 className="text-2xl font-serif text-bovali-dark mb-4 mt-8 text-center">2. Select Extraction Type</h3>
                 <div className="flex justify-center items-center gap-4 bg-gray-200/50 p-2 rounded-full w-fit mx-auto">
@@ -954,6 +2191,11 @@ const App: React.FC = () => {
                   <button onClick={handleProcessImage} disabled={getIsExtractorButtonDisabled()} className="bg-bovali-green text-white font-bold py-4 px-12 rounded-full text-xl hover:bg-opacity-90 transition-all duration-300 disabled:bg-gray-400 disabled:cursor-not-allowed transform hover:scale-105">
                     {isProcessing ? 'Processing...' : 'Process Image'}
                   </button>
+                  {isProcessing && (
+                    <button onClick={cancelExtractor} className="mt-4 block mx-auto bg-white text-red-700 border-2 border-red-600 font-semibold py-2 px-8 rounded-full hover:bg-red-50 transition-colors">
+                      Stop
+                    </button>
+                  )}
                 </div>
               </div>
               
@@ -963,9 +2205,14 @@ const App: React.FC = () => {
                 <div className="flex flex-col items-center justify-center w-full h-96 border-2 border-gray-300 border-dashed rounded-lg bg-gray-50">
                   {isProcessing && <p className="text-lg text-bovali-grey animate-pulse">AI is processing your image...</p>}
                   {processingError && <div className="text-center text-red-700 px-4"><strong className="font-bold">Error:</strong> {processingError}</div>}
-                  {processedImage && <img src={processedImage} alt="Processed asset" className="object-contain w-full h-full rounded-lg" />}
+                  {processedImage && (
+                    <button onClick={() => openSingleViewer(processedImage, 'Processed Result', sourceImage, 'Source Photo')} className="w-full h-full" aria-label="Open processed result in the viewer">
+                      <img src={processedImage} alt="Processed asset" className="object-contain w-full h-full rounded-lg cursor-zoom-in" />
+                    </button>
+                  )}
                   {!isProcessing && !processingError && !processedImage && <p className="text-bovali-grey text-center px-4">Your processed image will appear here.</p>}
                 </div>
+                 {processedImage && imageTemplates[processedImage] && <p className="text-xs text-bovali-grey mt-2 text-center">Prompt: {formatTemplateRef(imageTemplates[processedImage])}</p>}
                  {processedImage && (
                     <div className="text-center mt-6 flex flex-wrap justify-center gap-4">
                       <button onClick={() => handleDownload(processedImage, `extracted_${extractionType.toLowerCase()}`)} className="bg-bovali-dark text-white font-semibold py-3 px-6 rounded-full hover:bg-opacity-90 transition-colors">
@@ -981,10 +2228,24 @@ const App: React.FC = () => {
                       >
                          {exportedImages.includes(processedImage) ? 'Exported' : 'Export'}
                       </button>
+                      <button
+                        onClick={() => handleShortlist(processedImage, 'extractor', `Extracted ${extractionType}`)}
+                        className="bg-white text-bovali-dark border-2 border-bovali-dark font-semibold py-3 px-6 rounded-full hover:bg-bovali-dark/10 transition-colors disabled:border-bovali-grey disabled:text-bovali-grey"
+                        disabled={isShortlisted(processedImage)}
+                      >
+                        {isShortlisted(processedImage) ? 'Shortlisted' : 'Shortlist'}
+                      </button>
                     </div>
                   )}
+                 {processedImage && <SeamlessTilePanel imageUrl={processedImage} onApplyFix={handleApplySeamlessFix} />}
               </div>
             </div>
+            {processedImage && (
+              <div className="mt-12">
+                <h3 className="text-3xl font-serif text-bovali-dark mb-6 text-center">Repeat Preview</h3>
+                <RepeatPreviewPanel imageUrl={processedImage} tileWidth={sourceWidth} tileHeight={sourceHeight} unit={sourceUnit} onDownload={handleDownload} />
+              </div>
+            )}
           </div>
         )}
         
@@ -1001,7 +2262,7 @@ const App: React.FC = () => {
               <div className="bg-white p-8 rounded-lg shadow-md border border-gray-200/80 space-y-8">
                 <div>
                   <h3 className="text-2xl font-serif text-bovali-dark mb-4 text-center">1. Upload Pattern Outline</h3>
-                  <ImageUploader title="Pattern Outline" onImageSelect={(file) => handleImageSelect(file, setPatternOutline, 'pattern')} previewUrl={patternOutline.previewUrl} onImageRemove={() => handleImageRemove(setPatternOutline)} onHistoryClick={patternHistory.length > 0 ? () => openHistoryModal('pattern') : undefined} />
+                  <ImageUploader title="Pattern Outline" onImageSelect={(file) => handleImageSelect(file, setPatternOutline, 'pattern')} previewUrl={patternOutline.previewUrl} onImageRemove={() => handleImageRemove(setPatternOutline)} onHistoryClick={historyCounts.pattern > 0 ? () => openHistoryModal('pattern') : undefined} onProvenanceFound={handleProvenanceFound} />
                 </div>
                 
                 <div>
@@ -1010,18 +2271,19 @@ const App: React.FC = () => {
                         {patternMaterials.map((mat, index) => (
                             <div key={index} className="relative aspect-square rounded-md overflow-hidden group">
                                 <img src={mat.previewUrl} alt={`Material ${index + 1}`} className="w-full h-full object-cover" />
+                                {mat.product?.sku && <span className="absolute bottom-1 left-1 bg-bovali-dark/80 text-white text-xs font-semibold px-1.5 py-0.5 rounded">{mat.product.sku}</span>}
                                 <button onClick={() => handlePatternMaterialRemove(index)} className="absolute top-1 right-1 bg-black/50 text-white rounded-full p-1 leading-none hover:bg-black/75 opacity-0 group-hover:opacity-100 transition-opacity">
                                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
                                 </button>
                             </div>
                         ))}
                    </div>
-                   <ImageUploader title="Add Material" onImageSelect={handlePatternMaterialSelect} previewUrl={null} onHistoryClick={materialHistory.length > 0 ? () => openHistoryModal('material') : undefined} />
+                   <ImageUploader title="Add Material" onImageSelect={handlePatternMaterialSelect} previewUrl={null} onHistoryClick={historyCounts.material > 0 ? () => openHistoryModal('material') : undefined} onCatalogueClick={() => setCatalogueTarget('patternMaterial')} onProvenanceFound={handleProvenanceFound} />
                 </div>
                 
                 <div>
                    <h3 className="text-2xl font-serif text-bovali-dark mb-4 text-center">3. Add Reference Image <span className="text-lg text-bovali-grey">(Optional)</span></h3>
-                   <ImageUploader title="Reference Image" onImageSelect={(file) => handleImageSelect(file, setPatternReference)} previewUrl={patternReference.previewUrl} onImageRemove={() => handleImageRemove(setPatternReference)} />
+                   <ImageUploader title="Reference Image" onImageSelect={(file) => handleImageSelect(file, setPatternReference)} previewUrl={patternReference.previewUrl} onImageRemove={() => handleImageRemove(setPatternReference)} onProvenanceFound={handleProvenanceFound} />
                 </div>
 
                 <div>
@@ -1033,6 +2295,11 @@ const App: React.FC = () => {
                   <button onClick={handlePatternSubmit} disabled={getIsPatternButtonDisabled()} className="bg-bovali-green text-white font-bold py-4 px-12 rounded-full text-xl hover:bg-opacity-90 transition-all duration-300 disabled:bg-gray-400 disabled:cursor-not-allowed transform hover:scale-105">
                     {isPatternGenerating ? 'Generating...' : 'Generate Pattern'}
                   </button>
+                  {isPatternGenerating && (
+                    <button onClick={cancelPattern} className="mt-4 block mx-auto bg-white text-red-700 border-2 border-red-600 font-semibold py-2 px-8 rounded-full hover:bg-red-50 transition-colors">
+                      Stop
+                    </button>
+                  )}
                 </div>
               </div>
               
@@ -1042,9 +2309,15 @@ const App: React.FC = () => {
                 <div className="flex flex-col items-center justify-center w-full aspect-square border-2 border-gray-300 border-dashed rounded-lg bg-gray-50">
                   {isPatternGenerating && <p className="text-lg text-bovali-grey animate-pulse">AI is crafting your pattern...</p>}
                   {patternError && <div className="text-center text-red-700 px-4"><strong className="font-bold">Error:</strong> {patternError}</div>}
-                  {patternOutput && <img src={patternOutput} alt="Generated pattern" className="object-contain w-full h-full rounded-lg" />}
+                  {patternOutput && (
+                    <button onClick={() => openSingleViewer(patternOutput, 'Generated Pattern', patternOutline, 'Pattern Outline')} className="w-full h-full" aria-label="Open generated pattern in the viewer">
+                      <img src={patternOutput} alt="Generated pattern" className="object-contain w-full h-full rounded-lg cursor-zoom-in" />
+                    </button>
+                  )}
                   {!isPatternGenerating && !patternError && !patternOutput && <p className="text-bovali-grey text-center px-4">Your generated pattern will appear here.</p>}
                 </div>
+                {patternOutput && formatSkus(imageProducts[patternOutput] ?? []) && <p className="text-xs text-bovali-dark font-semibold mt-2 text-center">SKU: {formatSkus(imageProducts[patternOutput])}</p>}
+                {patternOutput && imageTemplates[patternOutput] && <p className="text-xs text-bovali-grey mt-2 text-center">Prompt: {formatTemplateRef(imageTemplates[patternOutput])}</p>}
                 {patternOutput && (
                     <div className="mt-6 space-y-4">
                         <div className="text-center p-3 bg-bovali-green/10 rounded-lg">
@@ -1064,6 +2337,13 @@ const App: React.FC = () => {
                              >
                                 {exportedImages.includes(patternOutput) ? 'Exported' : 'Export'}
                             </button>
+                            <button
+                                onClick={() => handleShortlist(patternOutput, 'pattern', 'Pattern Studio result')}
+                                className="bg-white text-bovali-dark border-2 border-bovali-dark font-semibold py-3 px-6 rounded-full hover:bg-bovali-dark/10 transition-colors disabled:border-bovali-grey disabled:text-bovali-grey"
+                                disabled={isShortlisted(patternOutput)}
+                            >
+                                {isShortlisted(patternOutput) ? 'Shortlisted' : 'Shortlist'}
+                            </button>
                         </div>
                     </div>
                 )}
@@ -1077,18 +2357,30 @@ const App: React.FC = () => {
         <p>Powered by Bovali AI Studio</p>
       </footer>
       
-      <button 
-        onClick={() => setIsExportGalleryOpen(true)}
-        className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 bg-bovali-green text-white font-bold py-3 px-6 rounded-full shadow-lg hover:bg-opacity-90 transform hover:scale-105 transition-all flex items-center gap-2"
-        aria-label="Open export gallery"
-      >
-        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-        </svg>
-        <span>Export Gallery ({exportedImages.length})</span>
-      </button>
+      <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3">
+        <button
+          onClick={() => setIsShortlistOpen(true)}
+          className="bg-bovali-dark text-white font-bold py-3 px-6 rounded-full shadow-lg hover:bg-opacity-90 transform hover:scale-105 transition-all flex items-center gap-2"
+          aria-label="Open shortlist"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.5a.56.56 0 011.04 0l2.13 5.11a.56.56 0 00.47.35l5.52.44c.5.04.7.66.32.98l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.38a.56.56 0 01-.84.61l-4.72-2.88a.56.56 0 00-.59 0l-4.72 2.88a.56.56 0 01-.84-.61l1.28-5.38a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.98l5.52-.44a.56.56 0 00.47-.35l2.13-5.11z" />
+          </svg>
+          <span>Shortlist ({shortlist.length})</span>
+        </button>
+        <button 
+          onClick={() => setIsExportGalleryOpen(true)}
+          className="bg-bovali-green text-white font-bold py-3 px-6 rounded-full shadow-lg hover:bg-opacity-90 transform hover:scale-105 transition-all flex items-center gap-2"
+          aria-label="Open export gallery"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+          <span>Export Gallery ({exportedImages.length})</span>
+        </button>
+      </div>
 
-      <Chatbot isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} messages={messages} onSendMessage={handleSendMessage} isBotTyping={isBotTyping} />
+      <Chatbot isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} messages={messages} onSendMessage={handleSendMessage} isBotTyping={isBotTyping} onCancelEdit={isChatEditing ? handleCancelChatEdit : undefined} />
       <button onClick={() => setIsChatOpen(true)} className="fixed bottom-4 right-4 sm:bottom-8 sm:right-8 bg-bovali-green text-white w-16 h-16 rounded-full shadow-lg flex items-center justify-center hover:bg-opacity-90 transform hover:scale-110 transition-all z-40" aria-label="Open chat">
         <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
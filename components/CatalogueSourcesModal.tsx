@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  createCatalogueSource,
+  getCatalogueSettings,
+  parseFolderId,
+  saveCatalogueSettings,
+  validateCatalogueSource,
+  CATALOGUE_ROLES,
+  DEFAULT_CATALOGUE_SETTINGS,
+  CatalogueAuthType,
+  CatalogueRole,
+  CatalogueSettings,
+  CatalogueSource,
+} from '../services/catalogueSources';
+import {
+  countLocalCatalogueFiles,
+  deleteLocalCatalogue,
+  entriesFromFileList,
+  entriesFromZip,
+  importLocalCatalogue,
+  readDirectoryHandle,
+  LocalImportEntry,
+  LOCAL_MANIFEST_NAME,
+} from '../services/localCatalogue';
+import { signOutSource } from '../services/driveSignIn';
+import GoogleSignInStatus from './GoogleSignInStatus';
+
+interface CatalogueSourcesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark";
+
+const CloseIcon: React.FC = () => (
+    <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+    </svg>
+);
+
+// The File System Access API's directory picker, where the browser has one.
+type DirectoryPicker = () => Promise<FileSystemDirectoryHandle>;
+
+const CatalogueSourcesModal: React.FC<CatalogueSourcesModalProps> = ({ isOpen, onClose }) => {
+  const [settings, setSettings] = useState<CatalogueSettings>(DEFAULT_CATALOGUE_SETTINGS);
+  const [localCounts, setLocalCounts] = useState<Record<string, number>>({});
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSettings(getCatalogueSettings());
+      setImportError(null);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    settings.sources.filter(source => source.kind === 'local').forEach(source => {
+      countLocalCatalogueFiles(source.rootFolderId)
+        .then(count => setLocalCounts(prev => ({ ...prev, [source.id]: count })))
+        .catch(err => console.error("Could not count local catalogue items", err));
+    });
+  }, [isOpen, settings.sources.length]);
+
+  // The folder input needs the non-standard attribute set directly.
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [isOpen]);
+
+  const update = (next: CatalogueSettings) => {
+    setSettings(next);
+    saveCatalogueSettings(next);
+  };
+
+  const updateSource = (id: string, partial: Partial<CatalogueSource>) => {
+    update({ ...settings, sources: settings.sources.map(source => source.id === id ? { ...source, ...partial } : source) });
+  };
+
+  const removeSource = (id: string) => {
+    const removed = settings.sources.find(source => source.id === id);
+    if (removed) deleteLocalData([removed]);
+    signOutSource(id);
+    const defaults = Object.fromEntries(Object.entries(settings.defaults).filter(([, sourceId]) => sourceId !== id));
+    update({ sources: settings.sources.filter(source => source.id !== id), defaults });
+  };
+
+  const deleteLocalData = (sources: CatalogueSource[]) => {
+    sources.filter(source => source.kind === 'local').forEach(source => {
+      deleteLocalCatalogue(source.rootFolderId).catch(err => console.error("Could not delete local catalogue", err));
+    });
+  };
+
+  const handleRestoreDefaults = () => {
+    const localCount = settings.sources.filter(source => source.kind === 'local').length;
+    const warning = localCount > 0 ? ` This also deletes ${localCount} imported offline catalogue${localCount === 1 ? '' : 's'} from this device.` : '';
+    if (!window.confirm(`Replace all catalogue sources with the defaults?${warning}`)) return;
+    deleteLocalData(settings.sources);
+    settings.sources.forEach(source => signOutSource(source.id));
+    update(DEFAULT_CATALOGUE_SETTINGS);
+  };
+
+  const setDefault = (role: CatalogueRole, sourceId: string) => {
+    update({ ...settings, defaults: { ...settings.defaults, [role]: sourceId } });
+  };
+
+  const runImport = async (readEntries: () => Promise<LocalImportEntry[]>, fallbackName: string) => {
+    setImportError(null);
+    setImportStatus('Reading files...');
+    try {
+      const entries = await readEntries();
+      const result = await importLocalCatalogue(entries, fallbackName, (done, total) => setImportStatus(`Importing ${done} of ${total}...`));
+      const source: CatalogueSource = {
+        id: `source_${Date.now().toString(36)}`,
+        name: result.name,
+        kind: 'local',
+        rootFolderId: result.rootFolderId,
+        authType: 'shared',
+      };
+      const latest = getCatalogueSettings();
+      update({ ...latest, sources: [...latest.sources, source] });
+      setLocalCounts(prev => ({ ...prev, [source.id]: result.fileCount }));
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error("Local catalogue import failed", err);
+      setImportError(err instanceof Error ? err.message : "The catalogue could not be imported.");
+    } finally {
+      setImportStatus(null);
+    }
+  };
+
+  const handleImportFolder = () => {
+    const picker = (window as Window & { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+    if (!picker) {
+      folderInputRef.current?.click();
+      return;
+    }
+    runImport(async () => {
+      const directory = await picker.call(window);
+      return readDirectoryHandle(directory, `${directory.name}/`);
+    }, 'Local catalogue');
+  };
+
+  const handleFolderInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from(e.target.files as ArrayLike<File>) : [];
+    e.target.value = '';
+    if (files.length > 0) runImport(async () => entriesFromFileList(files), 'Local catalogue');
+  };
+
+  const handleZipInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) runImport(() => entriesFromZip(file), file.name.replace(/\.zip$/i, ''));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4"
+        onClick={onClose}
+        aria-modal="true"
+        role="dialog"
+    >
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b border-gray-200">
+          <h2 className="text-2xl font-serif text-bovali-dark">Catalogue Sources</h2>
+          <button
+            onClick={onClose}
+            className="text-bovali-grey hover:text-bovali-dark transition-colors"
+            aria-label="Close catalogue sources"
+          >
+            <CloseIcon />
+          </button>
+        </header>
+        <div className="p-6 space-y-6 text-bovali-dark overflow-y-auto">
+          <p className="text-sm text-bovali-grey">
+            Drive sources are Google Drive folders shared with the team. Public folders can use the app's API key or one of their own (restrict it to this site in Google Cloud, as it is stored in the browser); private folders need a Google sign-in, which is kept for this session only.
+          </p>
+          {settings.sources.map(source => {
+            const problem = validateCatalogueSource(source);
+            return (
+              <div key={source.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <input value={source.name} onChange={(e) => updateSource(source.id, { name: e.target.value })} className={`${inputClassName} font-semibold`} aria-label="Source name" />
+                  <button onClick={() => removeSource(source.id)} className="text-sm font-semibold text-red-700 hover:underline">Remove</button>
+                </div>
+                {source.kind === 'local' ? (
+                  <p className="text-sm text-bovali-grey">
+                    Stored on this device{localCounts[source.id] !== undefined ? ` · ${localCounts[source.id]} images` : ''}. Available offline; removing it deletes the imported images.
+                  </p>
+                ) : (<>
+                <label className="flex flex-col gap-1 text-sm font-semibold">
+                  Root folder ID or link
+                  <input
+                    value={source.rootFolderId}
+                    onChange={(e) => updateSource(source.id, { rootFolderId: e.target.value })}
+                    onBlur={(e) => updateSource(source.id, { rootFolderId: parseFolderId(e.target.value) })}
+                    className={`${inputClassName} font-normal`}
+                  />
+                </label>
+                <div className="grid sm:grid-cols-3 gap-3">
+                  <label className="flex flex-col gap-1 text-sm font-semibold">
+                    Access
+                    <select value={source.authType} onChange={(e) => updateSource(source.id, { authType: e.target.value as CatalogueAuthType })} className={`${inputClassName} font-normal`}>
+                      <option value="shared">App API key</option>
+                      <option value="apiKey">Own API key</option>
+                      <option value="oauth">Google sign-in</option>
+                    </select>
+                  </label>
+                  {source.authType === 'apiKey' && (
+                    <label className="flex flex-col gap-1 text-sm font-semibold sm:col-span-2">
+                      API key
+                      <input type="password" value={source.apiKey ?? ''} onChange={(e) => updateSource(source.id, { apiKey: e.target.value })} className={`${inputClassName} font-normal`} autoComplete="off" />
+                    </label>
+                  )}
+                  {source.authType === 'oauth' && (
+                    <div className="sm:col-span-2 self-end">
+                      <GoogleSignInStatus sourceId={source.id} />
+                    </div>
+                  )}
+                </div>
+                </>)}
+                {problem && <p className="text-xs text-red-700">{problem}</p>}
+              </div>
+            );
+          })}
+          <button onClick={() => update({ ...settings, sources: [...settings.sources, createCatalogueSource()] })} className="text-sm font-semibold text-bovali-green hover:underline">
+            + Add Drive source
+          </button>
+
+          <div className="bg-bovali-beige rounded-lg p-4 space-y-3">
+            <h3 className="font-semibold">Import an offline catalogue</h3>
+            <p className="text-sm text-bovali-grey">
+              Import a folder of images, or a ZIP of one, to browse without a connection. Subfolders are kept. An optional {LOCAL_MANIFEST_NAME} at the top can name the catalogue and list product details per file; products.json files in subfolders are read as well.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <button onClick={handleImportFolder} disabled={!!importStatus} className="bg-bovali-green text-white text-sm font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400">
+                Import folder
+              </button>
+              <button onClick={() => zipInputRef.current?.click()} disabled={!!importStatus} className="bg-bovali-dark text-white text-sm font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400">
+                Import ZIP
+              </button>
+              {importStatus && <span className="text-sm text-bovali-grey animate-pulse">{importStatus}</span>}
+            </div>
+            {importError && <p className="text-sm text-red-700">{importError}</p>}
+            <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleFolderInput} />
+            <input ref={zipInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleZipInput} />
+          </div>
+
+          {settings.sources.length > 1 && (
+            <div className="space-y-3">
+              <h3 className="font-semibold">Open by default</h3>
+              {CATALOGUE_ROLES.map(role => (
+                <label key={role.value} className="flex items-center justify-between gap-4 text-sm">
+                  {role.label}
+                  <select
+                    value={settings.defaults[role.value] ?? settings.sources[0].id}
+                    onChange={(e) => setDefault(role.value, e.target.value)}
+                    className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white"
+                  >
+                    {settings.sources.map(source => <option key={source.id} value={source.id}>{source.name}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end">
+            <button onClick={handleRestoreDefaults} className="text-sm font-semibold text-bovali-green hover:underline">
+              Restore defaults
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogueSourcesModal;
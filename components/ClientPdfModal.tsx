@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { buildClientPdf, clientPdfFilename, describeTileSize, getPdfSettings, savePdfSettings, PDF_LAYOUTS } from '../services/clientPdf';
+import type { PdfDesign, PdfLayout } from '../services/clientPdf';
+import { formatSkus } from '../services/productMetadata';
+
+interface ClientPdfModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  designs: PdfDesign[];
+  defaultTitle: string;
+}
+
+const inputClassName = "w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark";
+
+const CloseIcon: React.FC = () => (
+    <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+    </svg>
+);
+
+const ClientPdfModal: React.FC<ClientPdfModalProps> = ({ isOpen, onClose, designs, defaultTitle }) => {
+  const [title, setTitle] = useState('');
+  const [client, setClient] = useState('');
+  const [preparedBy, setPreparedBy] = useState('');
+  const [layout, setLayout] = useState<PdfLayout>('single');
+  const [includeBefore, setIncludeBefore] = useState(true);
+  // Notes edited here, keyed by image URL; the rest fall back to the design's own note.
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const settings = getPdfSettings();
+    setTitle(defaultTitle);
+    // The client changes from one document to the next, so it starts empty each time.
+    setClient('');
+    setPreparedBy(settings.preparedBy);
+    setLayout(settings.layout);
+    setIncludeBefore(settings.includeBefore);
+    setNotes({});
+    setProgress(null);
+    setError(null);
+  }, [isOpen, defaultTitle]);
+
+  if (!isOpen) return null;
+
+  const isBuilding = progress !== null;
+
+  const handleGenerate = async () => {
+    savePdfSettings({ preparedBy, layout, includeBefore });
+    const options = { title: title.trim(), client: client.trim(), preparedBy: preparedBy.trim(), layout, includeBefore };
+    setError(null);
+    setProgress({ done: 0, total: designs.length });
+    try {
+      const blob = await buildClientPdf(
+        designs.map(design => ({ ...design, note: notes[design.imageUrl] ?? design.note })),
+        options,
+        (done, total) => setProgress({ done, total }),
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = clientPdfFilename(options);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Could not build the client PDF", err);
+      setError(err instanceof Error ? err.message : "The PDF could not be created.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4"
+        onClick={isBuilding ? undefined : onClose}
+        aria-modal="true"
+        role="dialog"
+    >
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b border-gray-200">
+          <h2 className="text-2xl font-serif text-bovali-dark">Client PDF</h2>
+          <button
+            onClick={onClose}
+            disabled={isBuilding}
+            className="text-bovali-grey hover:text-bovali-dark transition-colors disabled:opacity-50"
+            aria-label="Close client PDF"
+          >
+            <CloseIcon />
+          </button>
+        </header>
+        <main className="p-6 overflow-y-auto space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-bovali-dark">
+            <label className="block">
+              <span className="font-semibold">Title</span>
+              <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Design Proposal" className={`${inputClassName} mt-1`} />
+            </label>
+            <label className="block">
+              <span className="font-semibold">Client</span>
+              <input type="text" value={client} onChange={(e) => setClient(e.target.value)} placeholder="e.g. Smith Residence" className={`${inputClassName} mt-1`} />
+            </label>
+            <label className="block">
+              <span className="font-semibold">Prepared by</span>
+              <input type="text" value={preparedBy} onChange={(e) => setPreparedBy(e.target.value)} placeholder="Your name" className={`${inputClassName} mt-1`} />
+            </label>
+          </div>
+          <fieldset>
+            <legend className="text-sm font-semibold text-bovali-dark mb-2">Layout</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {PDF_LAYOUTS.map(option => (
+                <label
+                  key={option.value}
+                  className={`border rounded-md p-3 cursor-pointer ${layout === option.value ? 'border-bovali-green ring-2 ring-bovali-green' : 'border-gray-300 hover:border-bovali-green'}`}
+                >
+                  <input type="radio" name="pdfLayout" value={option.value} checked={layout === option.value} onChange={() => setLayout(option.value)} className="sr-only" />
+                  <span className="block font-semibold text-bovali-dark">{option.label}</span>
+                  <span className="block text-xs text-bovali-grey">{option.description}</span>
+                </label>
+              ))}
+            </div>
+            <label className={`flex items-center gap-2 mt-3 text-sm ${layout === 'contactSheet' ? 'text-bovali-grey' : 'text-bovali-dark'}`}>
+              <input
+                type="checkbox"
+                checked={includeBefore}
+                disabled={layout === 'contactSheet'}
+                onChange={(e) => setIncludeBefore(e.target.checked)}
+                className="accent-bovali-green"
+              />
+              Show the before image next to each design, where it is still in your upload history
+            </label>
+          </fieldset>
+          <section>
+            <h3 className="text-sm font-semibold text-bovali-dark mb-2">Designs ({designs.length})</h3>
+            <ul className="space-y-3">
+              {designs.map((design, index) => (
+                <li key={design.imageUrl} className="flex gap-3 items-start">
+                  <img src={design.imageUrl} alt={`Design ${index + 1}`} className="w-20 h-20 object-cover rounded-md bg-gray-100 flex-shrink-0" />
+                  <div className="flex-grow min-w-0">
+                    <p className="text-xs text-bovali-grey truncate">
+                      {[`Design ${index + 1}`, formatSkus(design.products) && `SKU: ${formatSkus(design.products)}`, describeTileSize(design)].filter(Boolean).join(' · ')}
+                    </p>
+                    <textarea
+                      value={notes[design.imageUrl] ?? design.note}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [design.imageUrl]: e.target.value }))}
+                      rows={2}
+                      placeholder="Notes for the client"
+                      className={`${inputClassName} mt-1 text-sm resize-none`}
+                      aria-label={`Notes for design ${index + 1}`}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+          {error && <p className="bg-red-100 text-red-700 text-sm rounded-md p-3">{error}</p>}
+        </main>
+        <footer className="p-4 border-t border-gray-200 flex justify-end items-center gap-4">
+          {progress && <span className="text-sm text-bovali-grey mr-auto">Adding design {Math.min(progress.done + 1, progress.total)} of {progress.total}…</span>}
+          <button
+            onClick={handleGenerate}
+            disabled={isBuilding || designs.length === 0}
+            className="bg-bovali-green text-white font-semibold py-2 px-6 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {isBuilding ? 'Creating PDF...' : 'Download PDF'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ClientPdfModal;
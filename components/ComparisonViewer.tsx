@@ -0,0 +1,286 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+export interface ViewerImage {
+  url: string;
+  label: string;
+}
+
+interface ComparisonViewerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The outputs to step through, e.g. every generated variation.
+  images: ViewerImage[];
+  startIndex: number;
+  // The input the outputs are compared against; without it only the output is shown.
+  before: ViewerImage | null;
+}
+
+type ViewerMode = 'wipe' | 'side' | 'onion';
+
+const MODES: { value: ViewerMode; label: string; key: string }[] = [
+  { value: 'wipe', label: 'Before / after', key: '1' },
+  { value: 'side', label: 'Side by side', key: '2' },
+  { value: 'onion', label: 'Onion skin', key: '3' },
+];
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+const CloseIcon: React.FC = () => (
+    <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+    </svg>
+);
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// One zoomable pane. Every pane shares the same transform, so zoom and pan stay in step.
+const Pane: React.FC<{
+  transform: ViewTransform;
+  onTransform: (update: (prev: ViewTransform) => ViewTransform) => void;
+  label?: string;
+  children: React.ReactNode;
+  overlay?: React.ReactNode;
+}> = ({ transform, onTransform, label, children, overlay }) => {
+  const paneRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Zooms about the cursor, so the point under it stays put.
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = paneRef.current!.getBoundingClientRect();
+    const px = e.clientX - rect.left - rect.width / 2;
+    const py = e.clientY - rect.top - rect.height / 2;
+    onTransform(prev => {
+      const scale = clampScale(prev.scale * (e.deltaY < 0 ? 1.2 : 1 / 1.2));
+      if (scale === MIN_SCALE) return IDENTITY;
+      const ratio = scale / prev.scale;
+      return { scale, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio };
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (transform.scale === MIN_SCALE) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const last = dragRef.current;
+    if (!last) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    onTransform(prev => ({ ...prev, x: prev.x + e.clientX - last.x, y: prev.y + e.clientY - last.y }));
+  };
+
+  return (
+    <div
+      ref={paneRef}
+      className={`relative flex-1 overflow-hidden bg-black/40 rounded-md select-none touch-none ${transform.scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : ''}`}
+      onWheel={handleWheel}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => { dragRef.current = null; }}
+      onPointerCancel={() => { dragRef.current = null; }}
+      onDoubleClick={() => onTransform(() => IDENTITY)}
+    >
+      <div
+        className="absolute inset-0"
+        style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}
+      >
+        {children}
+      </div>
+      {overlay}
+      {label && <span className="absolute top-3 left-3 bg-bovali-dark/80 text-white text-xs font-semibold px-2 py-1 rounded pointer-events-none">{label}</span>}
+    </div>
+  );
+};
+
+const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ isOpen, onClose, images, startIndex, before }) => {
+  const [index, setIndex] = useState(startIndex);
+  const [mode, setMode] = useState<ViewerMode>('wipe');
+  const [wipe, setWipe] = useState(50);
+  const [opacity, setOpacity] = useState(50);
+  const [transform, setTransform] = useState<ViewTransform>(IDENTITY);
+  const wipeAreaRef = useRef<HTMLDivElement>(null);
+  const isWipingRef = useRef(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setIndex(startIndex);
+      setTransform(IDENTITY);
+    }
+  }, [isOpen, startIndex]);
+
+  const current = images[Math.min(index, images.length - 1)];
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement && e.target.type !== 'range') return;
+      switch (e.key) {
+        case 'Escape': onClose(); break;
+        case 'ArrowRight': setIndex(i => (i + 1) % images.length); break;
+        case 'ArrowLeft': setIndex(i => (i - 1 + images.length) % images.length); break;
+        case '+': case '=': setTransform(prev => ({ ...prev, scale: clampScale(prev.scale * 1.2) })); break;
+        case '-': setTransform(prev => { const scale = clampScale(prev.scale / 1.2); return scale === MIN_SCALE ? IDENTITY : { ...prev, scale }; }); break;
+        case '0': setTransform(IDENTITY); break;
+        default: {
+          const match = MODES.find(m => m.key === e.key);
+          if (match && before) setMode(match.value);
+          return;
+        }
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, images.length, before, onClose]);
+
+  const moveWipe = (clientX: number) => {
+    const rect = wipeAreaRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setWipe(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  if (!isOpen || !current) return null;
+
+  const imageClassName = "absolute inset-0 w-full h-full object-contain pointer-events-none";
+  const activeMode: ViewerMode | null = before ? mode : null;
+
+  const wipeHandle = (
+    <div
+      className="absolute inset-y-0 w-8 -ml-4 cursor-ew-resize flex justify-center z-10 touch-none"
+      style={{ left: `${wipe}%` }}
+      onPointerDown={(e) => { e.stopPropagation(); isWipingRef.current = true; e.currentTarget.setPointerCapture(e.pointerId); }}
+      onPointerMove={(e) => { if (isWipingRef.current) moveWipe(e.clientX); }}
+      onPointerUp={() => { isWipingRef.current = false; }}
+      onKeyDown={(e) => {
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+          e.stopPropagation();
+          e.preventDefault();
+          setWipe(w => Math.min(100, Math.max(0, w + (e.key === 'ArrowLeft' ? -2 : 2))));
+        }
+      }}
+      role="slider"
+      tabIndex={0}
+      aria-label="Before and after divider"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(wipe)}
+    >
+      <div className="w-0.5 h-full bg-white shadow" />
+      <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center text-bovali-dark text-xs font-bold">⇔</div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-90 z-50 flex flex-col p-4 gap-3" aria-modal="true" role="dialog">
+      <header className="flex flex-wrap items-center gap-4 text-white">
+        <h2 className="text-2xl font-serif">{current.label}</h2>
+        {images.length > 1 && <span className="text-sm text-white/70">{index + 1} of {images.length}</span>}
+        {before && (
+          <div className="flex bg-white/10 rounded-full p-1" role="tablist">
+            {MODES.map(m => (
+              <button
+                key={m.value}
+                onClick={() => setMode(m.value)}
+                className={`text-sm font-semibold py-1.5 px-4 rounded-full transition-colors ${mode === m.value ? 'bg-bovali-green text-white' : 'text-white/80 hover:text-white'}`}
+                role="tab"
+                aria-selected={mode === m.value}
+                title={`Shortcut: ${m.key}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        )}
+        {activeMode === 'onion' && (
+          <label className="flex items-center gap-2 text-sm">
+            {before!.label}
+            <input type="range" min={0} max={100} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} className="accent-bovali-green" aria-label="Blend between before and after" />
+            {current.label}
+          </label>
+        )}
+        <div className="flex items-center gap-2 ml-auto text-sm">
+          <button onClick={() => setTransform(prev => ({ ...prev, scale: clampScale(prev.scale / 1.2) }))} className="w-8 h-8 rounded-full bg-white/10 hover:bg-white/20" aria-label="Zoom out">−</button>
+          <span className="w-12 text-center">{Math.round(transform.scale * 100)}%</span>
+          <button onClick={() => setTransform(prev => ({ ...prev, scale: clampScale(prev.scale * 1.2) }))} className="w-8 h-8 rounded-full bg-white/10 hover:bg-white/20" aria-label="Zoom in">+</button>
+          <button onClick={() => setTransform(IDENTITY)} className="font-semibold text-white/80 hover:text-white px-2">Fit</button>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors ml-2" aria-label="Close viewer">
+            <CloseIcon />
+          </button>
+        </div>
+      </header>
+
+      <div className="relative flex-1 flex gap-3 min-h-0">
+        {activeMode === 'side' ? (<>
+          <Pane transform={transform} onTransform={setTransform} label={before!.label}>
+            <img src={before!.url} alt={before!.label} className={imageClassName} draggable={false} />
+          </Pane>
+          <Pane transform={transform} onTransform={setTransform} label={current.label}>
+            <img src={current.url} alt={current.label} className={imageClassName} draggable={false} />
+          </Pane>
+        </>) : (
+          <div ref={wipeAreaRef} className="relative flex-1 flex">
+            <Pane
+              transform={transform}
+              onTransform={setTransform}
+              overlay={activeMode === 'wipe' && (<>
+                {wipeHandle}
+                <span className="absolute top-3 left-3 bg-bovali-dark/80 text-white text-xs font-semibold px-2 py-1 rounded pointer-events-none">{before!.label}</span>
+                <span className="absolute top-3 right-3 bg-bovali-dark/80 text-white text-xs font-semibold px-2 py-1 rounded pointer-events-none">{current.label}</span>
+              </>)}
+            >
+              <img src={current.url} alt={current.label} className={imageClassName} draggable={false} />
+              {activeMode === 'wipe' && (
+                // The clip is applied inside the transformed layer, so it is scaled back to screen space.
+                <img
+                  src={before!.url}
+                  alt={before!.label}
+                  className={imageClassName}
+                  style={{ clipPath: `inset(0 ${100 - (wipe - 50 - transform.x / (wipeAreaRef.current?.clientWidth || 1) * 100) / transform.scale - 50}% 0 0)` }}
+                  draggable={false}
+                />
+              )}
+              {activeMode === 'onion' && (
+                <img src={before!.url} alt={before!.label} className={imageClassName} style={{ opacity: 1 - opacity / 100 }} draggable={false} />
+              )}
+            </Pane>
+          </div>
+        )}
+
+        {images.length > 1 && (<>
+          <button onClick={() => setIndex(i => (i - 1 + images.length) % images.length)} className="absolute left-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-white/20 hover:bg-white/40 text-white text-xl z-20" aria-label="Previous variation">‹</button>
+          <button onClick={() => setIndex(i => (i + 1) % images.length)} className="absolute right-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-white/20 hover:bg-white/40 text-white text-xl z-20" aria-label="Next variation">›</button>
+        </>)}
+      </div>
+
+      {images.length > 1 && (
+        <div className="flex justify-center gap-2 overflow-x-auto">
+          {images.map((image, i) => (
+            <button
+              key={image.url}
+              onClick={() => setIndex(i)}
+              className={`w-16 h-16 flex-shrink-0 rounded overflow-hidden border-2 ${i === index ? 'border-bovali-green' : 'border-transparent opacity-60 hover:opacity-100'}`}
+              aria-label={`Show ${image.label}`}
+            >
+              <img src={image.url} alt="" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="text-center text-xs text-white/50">
+        ← → to switch variations · scroll to zoom, drag to pan, double-click to fit{before ? ' · 1 2 3 to change mode' : ''} · Esc to close
+      </p>
+    </div>
+  );
+};
+
+export default ComparisonViewer;
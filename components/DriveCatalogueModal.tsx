@@ -1,5 +1,15 @@
-import React, { useState, useEffect } from 'react';
-import { listFolders, listFiles, getDriveFileAsFile, DriveFile, DriveFolder } from '../services/googleDriveService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DriveFile, DriveFileFilters, DriveFolder, SIGN_IN_REQUIRED_MESSAGE } from '../services/googleDriveService';
+import { ProductMetadata } from '../services/productMetadata';
+import {
+  getCatalogueBackend,
+  getCatalogueSettings,
+  getDefaultSource,
+  CatalogueBackend,
+  CatalogueRole,
+  CatalogueSource,
+} from '../services/catalogueSources';
+import GoogleSignInStatus from './GoogleSignInStatus';
 
 const CloseIcon: React.FC = () => (
     <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -13,79 +23,226 @@ const FolderIcon: React.FC = () => (
     </svg>
 );
 
+// Thumbnails that need credentials are fetched into a blob URL, released when the tile unmounts.
+const CatalogueThumbnail: React.FC<{ file: DriveFile; backend: CatalogueBackend }> = ({ file, backend }) => {
+  const [src, setSrc] = useState(backend.getThumbnailBlob ? '' : file.thumbnailLink);
+
+  useEffect(() => {
+    if (!backend.getThumbnailBlob) {
+      setSrc(file.thumbnailLink);
+      return;
+    }
+    let url = '';
+    let cancelled = false;
+    backend.getThumbnailBlob(file)
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setSrc(url);
+      })
+      .catch(err => console.warn(`Could not load the thumbnail for "${file.name}"`, err));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file.id, backend]);
+
+  return src ? <img src={src} alt={file.name} className="w-full h-full object-cover" /> : null;
+};
+
 interface DriveCatalogueModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImageSelect: (file: File) => void;
+  onImageSelect: (file: File, product?: ProductMetadata) => void;
   title: string;
+  // Picks which configured source opens first.
+  role: CatalogueRole;
+  onManageSources: () => void;
 }
 
-const ROOT_FOLDER_ID = '1xMiHtJHZj5TB1q-68Bu0-AxwbW6AfElI';
-const ROOT_FOLDER_NAME = "Bovali Catalogue";
+const MIME_FILTERS = [
+  { value: '', label: 'All images' },
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/webp', label: 'WEBP' },
+];
+
+const MODIFIED_FILTERS = [
+  { value: 0, label: 'Any time' },
+  { value: 7, label: 'Past week' },
+  { value: 30, label: 'Past month' },
+  { value: 90, label: 'Past 3 months' },
+  { value: 365, label: 'Past year' },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
 
-const DriveCatalogueModal: React.FC<DriveCatalogueModalProps> = ({ isOpen, onClose, onImageSelect, title }) => {
+const DriveCatalogueModal: React.FC<DriveCatalogueModalProps> = ({ isOpen, onClose, onImageSelect, title, role, onManageSources }) => {
+  const [sources, setSources] = useState<CatalogueSource[]>([]);
+  const [source, setSource] = useState<CatalogueSource | null>(null);
   const [folders, setFolders] = useState<DriveFolder[]>([]);
   const [files, setFiles] = useState<DriveFile[]>([]);
   const [folderStack, setFolderStack] = useState<{id: string; name: string}[]>([]);
+  const [nextPageToken, setNextPageToken] = useState<string | undefined>();
   
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
 
+  const [searchInput, setSearchInput] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [mimeFilter, setMimeFilter] = useState('');
+  const [modifiedWithinDays, setModifiedWithinDays] = useState(0);
+
+  const loadAbortRef = useRef<AbortController | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const filters = useMemo<DriveFileFilters>(() => ({
+    mimeTypes: mimeFilter ? [mimeFilter] : undefined,
+    modifiedAfter: modifiedWithinDays
+      ? new Date(new Date().setHours(0, 0, 0, 0) - modifiedWithinDays * 24 * 60 * 60 * 1000).toISOString()
+      : undefined,
+  }), [mimeFilter, modifiedWithinDays]);
+
+  const backend = useMemo(() => source ? getCatalogueBackend(source) : null, [source]);
+
   useEffect(() => {
     if (isOpen) {
-      if (!ROOT_FOLDER_ID) {
-        setError("Google Drive Folder ID is not configured.");
-        setIsLoading(false);
-        return;
-      }
-      setFolderStack([{ id: ROOT_FOLDER_ID, name: ROOT_FOLDER_NAME }]);
+      const settings = getCatalogueSettings();
+      setSources(settings.sources);
+      setSource(getDefaultSource(settings, role) ?? null);
     } else {
+      loadAbortRef.current?.abort();
       setFolders([]);
       setFiles([]);
       setFolderStack([]);
+      setNextPageToken(undefined);
       setError(null);
       setIsLoading(false);
+      setIsLoadingMore(false);
+      setIsRefreshing(false);
+      setSearchInput('');
+      setSearchTerm('');
     }
   }, [isOpen]);
 
   useEffect(() => {
-    if (!isOpen || folderStack.length === 0) return;
-    
-    const fetchContents = async () => {
-        setIsLoading(true);
-        setError(null);
-        setFolders([]);
-        setFiles([]);
+    if (!isOpen) return;
+    loadAbortRef.current?.abort();
+    setFolderStack([]);
+    setFolders([]);
+    setFiles([]);
+    setNextPageToken(undefined);
+    setIsLoading(false);
+    if (!source) {
+      setError("No catalogue source is configured. Add one under Catalogue Sources.");
+      return;
+    }
+    if (!source.rootFolderId) {
+      setError(`"${source.name}" has no root folder configured.`);
+      return;
+    }
+    setError(null);
+    setFolderStack([{ id: source.rootFolderId, name: source.name }]);
+  }, [isOpen, source]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchTerm(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    if (!isOpen || folderStack.length === 0 || !backend) return;
+
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    setIsLoading(true);
+    setIsLoadingMore(false);
+    setIsRefreshing(false);
+    setError(null);
+    setFolders([]);
+    setFiles([]);
+    setNextPageToken(undefined);
+    scrollRef.current?.scrollTo({ top: 0 });
+
+    const handleError = (err: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "An unknown error occurred while loading catalogue contents.");
+    };
 
+    if (searchTerm) {
+        backend.searchFilesPage(folderStack[0].id, searchTerm, { filters, signal: controller.signal })
+            .then(page => {
+                if (controller.signal.aborted) return;
+                setFiles(page.files);
+                setNextPageToken(page.nextPageToken);
+            })
+            .catch(handleError)
+            .finally(() => !controller.signal.aborted && setIsLoading(false));
+    } else {
         const currentFolderId = folderStack[folderStack.length - 1].id;
-        try {
-            const [fetchedFolders, fetchedFiles] = await Promise.all([
-                listFolders(currentFolderId),
-                listFiles(currentFolderId),
-            ]);
-            setFolders(fetchedFolders);
-            setFiles(fetchedFiles);
-        } catch (err) {
-            if (err instanceof Error) {
-                setError(err.message);
-            } else {
-                setError("An unknown error occurred while loading catalogue contents.");
-            }
-        } finally {
+        // A cached listing arrives first (possibly stale), then the revalidated one if it changed.
+        backend.loadFolderListing(currentFolderId, filters, (listing, isStale) => {
+            if (controller.signal.aborted) return;
+            setFolders(listing.folders);
+            setFiles(listing.files);
+            setNextPageToken(listing.nextPageToken);
             setIsLoading(false);
-        }
-    };
-    
-    fetchContents();
-  }, [folderStack, isOpen]);
+            setIsRefreshing(isStale);
+        })
+            .catch(handleError)
+            .finally(() => {
+                if (controller.signal.aborted) return;
+                setIsLoading(false);
+                setIsRefreshing(false);
+            });
+    }
+
+    return () => controller.abort();
+  }, [folderStack, isOpen, searchTerm, filters]);
+
+  const loadMore = async () => {
+    if (!nextPageToken || isLoadingMore || isLoading || folderStack.length === 0 || !backend) return;
+    const controller = loadAbortRef.current;
+    setIsLoadingMore(true);
+    try {
+        const options = { filters, pageToken: nextPageToken, signal: controller?.signal };
+        const page = searchTerm
+            ? await backend.searchFilesPage(folderStack[0].id, searchTerm, options)
+            : await backend.listFilesPage(folderStack[folderStack.length - 1].id, options);
+        if (controller?.signal.aborted) return;
+        setFiles(prev => [...prev, ...page.files.filter(file => !prev.some(existing => existing.id === file.id))]);
+        setNextPageToken(page.nextPageToken);
+    } catch (err) {
+        if (controller?.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "An unknown error occurred while loading more items.");
+    } finally {
+        if (!controller?.signal.aborted) setIsLoadingMore(false);
+    }
+  };
+
+  // Infinite scroll: fetch the next page whenever the sentinel below the grid comes into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextPageToken || isLoading || isLoadingMore || error) return;
+    const observer = new IntersectionObserver(entries => {
+        if (entries.some(entry => entry.isIntersecting)) loadMore();
+    }, { root: scrollRef.current, rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextPageToken, isLoading, isLoadingMore, error, files.length]);
 
   const handleFileClick = async (file: DriveFile) => {
     setSelectedFileId(file.id);
     setError(null);
     try {
-        const fileObject = await getDriveFileAsFile(file);
-        onImageSelect(fileObject);
+        if (!backend) return;
+        const fileObject = await backend.getFileAsFile(file);
+        onImageSelect(fileObject, file.product);
     } catch (err) {
         if (err instanceof Error) {
             setError(err.message);
@@ -120,6 +277,19 @@ const DriveCatalogueModal: React.FC<DriveCatalogueModalProps> = ({ isOpen, onClo
       >
         <header className="flex justify-between items-center p-4 border-b border-gray-200 sticky top-0 bg-white rounded-t-lg">
           <h2 className="text-2xl font-serif text-bovali-dark">{title}</h2>
+          <div className="flex items-center gap-3 ml-auto mr-4">
+            {sources.length > 1 && (
+              <select
+                value={source?.id ?? ''}
+                onChange={(e) => setSource(sources.find(s => s.id === e.target.value) ?? null)}
+                className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark text-sm"
+                aria-label="Catalogue source"
+              >
+                {sources.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+            )}
+            <button onClick={onManageSources} className="text-sm font-semibold text-bovali-green hover:underline">Manage sources</button>
+          </div>
           <button 
             onClick={onClose} 
             className="text-bovali-grey hover:text-bovali-dark transition-colors"
@@ -129,8 +299,26 @@ const DriveCatalogueModal: React.FC<DriveCatalogueModalProps> = ({ isOpen, onClo
           </button>
         </header>
         <main className="p-6 flex flex-col overflow-hidden">
+            <div className="mb-4 flex flex-col sm:flex-row gap-3">
+                <input
+                    type="search"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder={`Search all of ${source?.name ?? 'the catalogue'} by name`}
+                    className="flex-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark"
+                    aria-label="Search catalogue"
+                />
+                <select value={mimeFilter} onChange={(e) => setMimeFilter(e.target.value)} className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark" aria-label="File type">
+                    {MIME_FILTERS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+                <select value={modifiedWithinDays} onChange={(e) => setModifiedWithinDays(Number(e.target.value))} className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark" aria-label="Modified">
+                    {MODIFIED_FILTERS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+            </div>
             <nav className="mb-4 text-sm font-semibold text-bovali-grey flex items-center flex-wrap">
-                {folderStack.map((folder, index) => (
+                {searchTerm ? (
+                    <span className="text-bovali-dark">Results for &ldquo;{searchTerm}&rdquo; in {source?.name}</span>
+                ) : folderStack.map((folder, index) => (
                     <React.Fragment key={folder.id}>
                         <button 
                             onClick={() => handleBreadcrumbClick(index)}
@@ -142,17 +330,26 @@ const DriveCatalogueModal: React.FC<DriveCatalogueModalProps> = ({ isOpen, onClo
                         {index < folderStack.length - 1 && <span className="mx-2">/</span>}
                     </React.Fragment>
                 ))}
+                {isRefreshing && <span className="ml-auto text-xs font-normal animate-pulse">Refreshing…</span>}
             </nav>
-            <div className="flex-1 overflow-y-auto">
+            <div ref={scrollRef} className="flex-1 overflow-y-auto">
                 {isLoading && (
                     <div className="flex justify-center items-center h-64">
                         <p className="text-lg text-bovali-grey animate-pulse">Loading Catalogue...</p>
                     </div>
                 )}
-                {error && <div className="text-center bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative" role="alert"><strong className="font-bold">Error: </strong><span className="block sm:inline">{error}</span></div>}
+                {error === SIGN_IN_REQUIRED_MESSAGE && source && (
+                    <div className="flex flex-col items-center gap-3 py-8 text-center text-bovali-dark">
+                        <p>Sign in with Google to browse "{source.name}".</p>
+                        <GoogleSignInStatus sourceId={source.id} onSignedIn={() => setSource({ ...source })} />
+                    </div>
+                )}
+                {error && error !== SIGN_IN_REQUIRED_MESSAGE && <div className="text-center bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative" role="alert"><strong className="font-bold">Error: </strong><span className="block sm:inline">{error}</span></div>}
                 
                 {!isLoading && !error && folders.length === 0 && files.length === 0 && (
-                    <p className="text-center text-bovali-grey h-64 flex justify-center items-center">This folder is empty.</p>
+                    <p className="text-center text-bovali-grey h-64 flex justify-center items-center">
+                        {searchTerm ? 'No images match this search.' : (filters.mimeTypes || filters.modifiedAfter) ? 'No images in this folder match the filters.' : 'This folder is empty.'}
+                    </p>
                 )}
 
                 {!isLoading && !error && (
@@ -180,10 +377,14 @@ const DriveCatalogueModal: React.FC<DriveCatalogueModalProps> = ({ isOpen, onClo
                                 onClick={() => handleFileClick(file)}
                                 onKeyDown={(e) => e.key === 'Enter' && handleFileClick(file)}
                                 role="button"
-                                aria-label={`Select ${file.name}`}
+                                aria-label={`Select ${file.name}${file.product?.sku ? ` (SKU ${file.product.sku})` : ''}`}
+                                title={[file.product?.collection, file.product?.finish, file.product?.nominalSize, file.product?.price].filter(Boolean).join(' · ') || undefined}
                                 tabIndex={0}
                             >
-                                <img src={file.thumbnailLink} alt={file.name} className="w-full h-full object-cover" />
+                                {backend && <CatalogueThumbnail file={file} backend={backend} />}
+                                {file.product?.sku && (
+                                    <span className="absolute bottom-1 left-1 bg-bovali-dark bg-opacity-80 text-white text-xs font-semibold px-2 py-0.5 rounded">{file.product.sku}</span>
+                                )}
                                 <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 transition-all flex items-center justify-center p-2">
                                     {selectedFileId === file.id ? (
                                         <div className="w-8 h-8 border-4 border-white border-t-transparent rounded-full animate-spin"></div>
@@ -195,6 +396,11 @@ const DriveCatalogueModal: React.FC<DriveCatalogueModalProps> = ({ isOpen, onClo
                         ))}
                     </div>
                 )}
+                {!isLoading && !error && nextPageToken && (
+                    <div ref={sentinelRef} className="py-6 text-center text-sm text-bovali-grey">
+                        {isLoadingMore ? <span className="animate-pulse">Loading more...</span> : <button onClick={loadMore} className="font-semibold text-bovali-green hover:underline">Load more</button>}
+                    </div>
+                )}
             </div>
         </main>
       </div>
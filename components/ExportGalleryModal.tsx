@@ -1,15 +1,30 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import { getStorageEstimate, NEAR_QUOTA_RATIO } from '../services/exportStore';
+import type { ExportEntry, StorageEstimate } from '../services/exportStore';
 
 interface ExportGalleryModalProps {
   isOpen: boolean;
   onClose: () => void;
   images: string[];
-  onDelete: (index: number) => void;
+  onDelete: (imageUrls: string[]) => void;
   onDownloadAll: () => void;
   isDownloading: boolean;
   onDownloadSingle: (imageUrl: string, baseFilename: string) => void;
+  onSaveToDrive: (imageUrls: string[]) => void;
+  // Opens the client PDF builder for the given images.
+  onCreatePdf: (imageUrls: string[]) => void;
+  // SKUs of the catalogue products used in each image, keyed by image URL.
+  imageSkus?: Record<string, string>;
+  // Stored size and date of each image, keyed by image URL.
+  entries?: Record<string, ExportEntry>;
 }
 
+const OLD_EXPORT_DAYS = 30;
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024 * 1024
+  ? `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+  : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
 const CloseIcon: React.FC = () => (
     <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
         <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
@@ -28,9 +43,44 @@ const DownloadIcon: React.FC = () => (
   </svg>
 );
 
-const ExportGalleryModal: React.FC<ExportGalleryModalProps> = ({ isOpen, onClose, images, onDelete, onDownloadAll, isDownloading, onDownloadSingle }) => {
+const DriveIcon: React.FC = () => (
+  <svg className="w-5 h-5" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth="2" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 16.5V9.75m0 0l3 3m-3-3l-3 3M6.75 19.5a4.5 4.5 0 01-1.41-8.775 5.25 5.25 0 0110.233-2.33 3 3 0 013.758 3.848A3.752 3.752 0 0118 19.5H6.75z" />
+  </svg>
+);
+
+const ExportGalleryModal: React.FC<ExportGalleryModalProps> = ({ isOpen, onClose, images, onDelete, onDownloadAll, isDownloading, onDownloadSingle, onSaveToDrive, onCreatePdf, imageSkus, entries }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getStorageEstimate()
+      .then(setEstimate)
+      .catch(err => console.error("Could not estimate storage usage", err));
+  }, [isOpen, images.length]);
+
+  useEffect(() => {
+    setSelected(prev => prev.filter(url => images.includes(url)));
+  }, [images]);
+
   if (!isOpen) return null;
 
+  const galleryBytes = images.reduce((sum, url) => sum + (entries?.[url]?.size ?? 0), 0);
+  const isNearQuota = !!estimate && estimate.usage / estimate.quota >= NEAR_QUOTA_RATIO;
+  const oldCutoff = Date.now() - OLD_EXPORT_DAYS * 24 * 60 * 60 * 1000;
+  const oldImages = images.filter(url => (entries?.[url]?.createdAt ?? Date.now()) < oldCutoff);
+
+  const toggleSelected = (url: string) => {
+    setSelected(prev => prev.includes(url) ? prev.filter(item => item !== url) : [...prev, url]);
+  };
+
+  const handleDeleteSelected = () => {
+    if (!window.confirm(`Delete ${selected.length} image${selected.length === 1 ? '' : 's'} from the Export Gallery?`)) return;
+    onDelete(selected);
+    setSelected([]);
+  };
+
   return (
     <div 
         className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4"
@@ -45,6 +95,20 @@ const ExportGalleryModal: React.FC<ExportGalleryModalProps> = ({ isOpen, onClose
         <header className="flex justify-between items-center p-4 border-b border-gray-200 sticky top-0 bg-white rounded-t-lg z-10">
           <h2 className="text-2xl font-serif text-bovali-dark">Export Gallery ({images.length})</h2>
           <div className="flex items-center gap-4">
+            <button
+                onClick={() => onCreatePdf(selected.length > 0 ? images.filter(url => selected.includes(url)) : images)}
+                disabled={images.length === 0}
+                className="bg-white text-bovali-green border-2 border-bovali-green font-semibold py-1.5 px-6 rounded-full hover:bg-bovali-green/10 transition-colors disabled:border-gray-400 disabled:text-gray-400 disabled:cursor-not-allowed"
+            >
+                {selected.length > 0 ? `Client PDF (${selected.length})` : 'Client PDF'}
+            </button>
+            <button
+                onClick={() => onSaveToDrive(images)}
+                disabled={images.length === 0}
+                className="bg-bovali-dark text-white font-semibold py-2 px-6 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+                Save All to Drive
+            </button>
             <button
                 onClick={onDownloadAll}
                 disabled={isDownloading || images.length === 0}
@@ -61,6 +125,29 @@ const ExportGalleryModal: React.FC<ExportGalleryModalProps> = ({ isOpen, onClose
             </button>
           </div>
         </header>
+        {images.length > 0 && (
+          <div className="flex flex-wrap items-center gap-4 px-6 pt-4 text-sm">
+            <span className="text-bovali-grey mr-auto">
+              {formatSize(galleryBytes)} in the gallery
+              {estimate && ` · ${formatSize(estimate.usage)} of ${formatSize(estimate.quota)} device storage used`}
+            </span>
+            <button onClick={() => setSelected(images)} className="font-semibold text-bovali-green hover:underline">Select all</button>
+            {oldImages.length > 0 && (
+              <button onClick={() => setSelected(oldImages)} className="font-semibold text-bovali-green hover:underline">
+                Select older than {OLD_EXPORT_DAYS} days ({oldImages.length})
+              </button>
+            )}
+            {selected.length > 0 && (<>
+              <button onClick={() => setSelected([])} className="font-semibold text-bovali-grey hover:underline">Clear</button>
+              <button onClick={handleDeleteSelected} className="font-semibold text-red-700 hover:underline">Delete selected ({selected.length})</button>
+            </>)}
+          </div>
+        )}
+        {isNearQuota && (
+          <p className="mx-6 mt-3 bg-yellow-100 text-yellow-800 text-sm rounded-md p-3">
+            Device storage is nearly full. New exports may fail to save; download or delete older images to free space.
+          </p>
+        )}
         <main className="p-6 overflow-y-auto">
           {images.length === 0 ? (
             <p className="text-center text-bovali-grey py-20">Your exported images will appear here.</p>
@@ -68,10 +155,13 @@ const ExportGalleryModal: React.FC<ExportGalleryModalProps> = ({ isOpen, onClose
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
               {images.map((imgSrc, index) => (
                 <div 
-                  key={index} 
-                  className="aspect-square bg-gray-100 rounded-md overflow-hidden group relative"
+                  key={imgSrc} 
+                  className={`aspect-square bg-gray-100 rounded-md overflow-hidden group relative ${selected.includes(imgSrc) ? 'ring-4 ring-bovali-green' : ''}`}
                 >
                   <img src={imgSrc} alt={`Exported item ${index + 1}`} className="w-full h-full object-cover" />
+                  {imageSkus?.[imgSrc] && (
+                    <span className="absolute bottom-1 left-1 bg-bovali-dark bg-opacity-80 text-white text-xs font-semibold px-2 py-0.5 rounded">{imageSkus[imgSrc]}</span>
+                  )}
                    <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 transition-all flex items-center justify-center gap-4">
                         <button
                           onClick={() => onDownloadSingle(imgSrc, `export_${index + 1}`)}
@@ -80,14 +170,28 @@ const ExportGalleryModal: React.FC<ExportGalleryModalProps> = ({ isOpen, onClose
                         >
                           <DownloadIcon />
                         </button>
+                        <button
+                          onClick={() => onSaveToDrive([imgSrc])}
+                          className="bg-bovali-dark text-white rounded-full p-3 leading-none hover:bg-opacity-90 opacity-0 group-hover:opacity-100 transition-opacity transform hover:scale-110"
+                          aria-label={`Save image ${index + 1} to Drive`}
+                        >
+                          <DriveIcon />
+                        </button>
                         <button 
-                            onClick={() => onDelete(index)}
+                            onClick={() => onDelete([imgSrc])}
                             className="bg-red-600 text-white rounded-full p-3 leading-none hover:bg-red-700 opacity-0 group-hover:opacity-100 transition-opacity transform hover:scale-110"
                             aria-label={`Delete image ${index + 1}`}
                         >
                             <DeleteIcon />
                         </button>
                     </div>
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(imgSrc)}
+                    onChange={() => toggleSelected(imgSrc)}
+                    className="absolute top-2 left-2 w-4 h-4 accent-bovali-green"
+                    aria-label={`Select image ${index + 1}`}
+                  />
                 </div>
               ))}
             </div>
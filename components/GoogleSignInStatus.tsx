@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getSessionTimeLeft,
+  isGoogleSignInConfigured,
+  setSessionToken,
+  signInSource,
+  signOutSource,
+  subscribeToSignIn,
+} from '../services/driveSignIn';
+
+interface GoogleSignInStatusProps {
+  sourceId: string;
+  onSignedIn?: () => void;
+}
+
+const inputClassName = "flex-grow p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark font-normal";
+
+// Re-renders when the source signs in or out, and each minute so the time left stays current.
+export const useSignInTimeLeft = (sourceId: string | undefined): number => {
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const refresh = () => setTick(tick => tick + 1);
+    const unsubscribe = subscribeToSignIn(refresh);
+    const timer = window.setInterval(refresh, 60 * 1000);
+    return () => {
+      unsubscribe();
+      window.clearInterval(timer);
+    };
+  }, []);
+  return sourceId ? getSessionTimeLeft(sourceId) : 0;
+};
+
+const GoogleSignInStatus: React.FC<GoogleSignInStatusProps> = ({ sourceId, onSignedIn }) => {
+  const timeLeft = useSignInTimeLeft(sourceId);
+  const [pastedToken, setPastedToken] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSignIn = async () => {
+    setError(null);
+    setIsSigningIn(true);
+    try {
+      await signInSource(sourceId);
+      onSignedIn?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Google sign-in failed.");
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const handleUseToken = () => {
+    if (!pastedToken.trim()) return;
+    setSessionToken(sourceId, pastedToken.trim());
+    setPastedToken('');
+    onSignedIn?.();
+  };
+
+  if (timeLeft > 0) {
+    return (
+      <div className="flex items-center gap-3 text-sm">
+        <span className="text-bovali-green font-semibold">Signed in · about {Math.max(1, Math.round(timeLeft / 60000))} min left</span>
+        <button onClick={() => signOutSource(sourceId)} className="font-semibold text-bovali-grey hover:text-bovali-dark hover:underline">Sign out</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      {isGoogleSignInConfigured() ? (
+        <button onClick={handleSignIn} disabled={isSigningIn} className="bg-bovali-dark text-white font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400">
+          {isSigningIn ? 'Signing in...' : 'Sign in with Google'}
+        </button>
+      ) : (
+        <div className="flex items-center gap-2">
+          <input
+            type="password"
+            value={pastedToken}
+            onChange={(e) => setPastedToken(e.target.value)}
+            placeholder="Paste an OAuth access token"
+            className={inputClassName}
+            autoComplete="off"
+            aria-label="OAuth access token"
+          />
+          <button onClick={handleUseToken} disabled={!pastedToken.trim()} className="bg-bovali-dark text-white font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400">
+            Use token
+          </button>
+        </div>
+      )}
+      <p className="text-xs text-bovali-grey">Not signed in. Sign-ins are kept for this session only and last about an hour.</p>
+      {error && <p className="text-xs text-red-700">{error}</p>}
+    </div>
+  );
+};
+
+export default GoogleSignInStatus;
@@ -1,64 +1,296 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import {
+  applyHistoryLimits,
+  deleteAssets,
+  getAssetFile,
+  getAssetThumbnailUrl,
+  getHistoryLimits,
+  getHistoryUsage,
+  listAssets,
+  updateAssetTags,
+  ASSET_TYPES,
+  AssetSummary,
+  AssetType,
+  HistoryLimits,
+} from '../services/assetHistory';
 
 interface HistoryModalProps {
   isOpen: boolean;
   onClose: () => void;
   title: string;
-  images: string[];
-  onImageSelect: (dataUrl: string) => void;
+  // The type filter the modal opens with.
+  initialType: AssetType | null;
+  // Whether several images can be used at once (materials).
+  allowMultiple: boolean;
+  onSelect: (files: File[]) => void;
+  // Called after images are deleted or evicted, so counts elsewhere can refresh.
+  onChange?: () => void;
 }
 
+const inputClassName = "p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark text-sm";
+
 const CloseIcon: React.FC = () => (
     <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
         <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
     </svg>
 );
 
+const formatSize = (bytes: number) => bytes >= 1024 * 1024
+  ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const formatDate = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, title, initialType, allowMultiple, onSelect, onChange }) => {
+  const [assets, setAssets] = useState<AssetSummary[]>([]);
+  const [typeFilter, setTypeFilter] = useState<AssetType | null>(initialType);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [limits, setLimits] = useState<HistoryLimits>(getHistoryLimits);
+  const [usage, setUsage] = useState<{ items: number; bytes: number } | null>(null);
+  const [showLimits, setShowLimits] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTypeFilter(initialType);
+      setSearch('');
+      setSelected([]);
+      setError(null);
+      setLimits(getHistoryLimits());
+    }
+  }, [isOpen, initialType]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    listAssets({ type: typeFilter, search })
+      .then(result => { if (!cancelled) setAssets(result); })
+      .catch(err => {
+        console.error("Could not load history", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "The history could not be loaded.");
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    getHistoryUsage().then(result => { if (!cancelled) setUsage(result); }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [isOpen, typeFilter, search, reloadKey]);
+
+  const focused = selected.length === 1 ? assets.find(asset => asset.id === selected[0]) : undefined;
+
+  useEffect(() => {
+    setTagDraft(focused ? focused.tags.join(', ') : '');
+  }, [focused?.id]);
+
+  const refresh = () => {
+    setReloadKey(key => key + 1);
+    onChange?.();
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const useAssets = async (ids: string[]) => {
+    setError(null);
+    try {
+      const files = await Promise.all(ids.map(getAssetFile));
+      onSelect(files);
+    } catch (err) {
+      console.error("Could not load image from history", err);
+      setError(err instanceof Error ? err.message : "The image could not be loaded from the history.");
+      refresh();
+    }
+  };
+
+  const handleTileClick = (id: string) => {
+    if (selected.length > 0) {
+      toggleSelected(id);
+    } else {
+      useAssets([id]);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete ${selected.length} image${selected.length === 1 ? '' : 's'} from the history?`)) return;
+    try {
+      await deleteAssets(selected);
+      setSelected([]);
+      refresh();
+    } catch (err) {
+      console.error("Could not delete history images", err);
+      setError("The images could not be deleted.");
+    }
+  };
+
+  const handleSaveTags = async () => {
+    if (!focused) return;
+    const tags = tagDraft.split(',');
+    try {
+      await updateAssetTags(focused.id, tags);
+      setReloadKey(key => key + 1);
+    } catch (err) {
+      console.error("Could not save tags", err);
+      setError("The tags could not be saved.");
+    }
+  };
+
+  const handleApplyLimits = async () => {
+    const next = {
+      maxItems: Math.max(1, Math.round(limits.maxItems) || 1),
+      maxMegabytes: Math.max(1, Math.round(limits.maxMegabytes) || 1),
+    };
+    setLimits(next);
+    try {
+      await applyHistoryLimits(next);
+      refresh();
+    } catch (err) {
+      console.error("Could not apply history limits", err);
+      setError("The limits could not be applied.");
+    }
+  };
 
-const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, title, images, onImageSelect }) => {
   if (!isOpen) return null;
 
   return (
-    <div 
+    <div
         className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4"
         onClick={onClose}
         aria-modal="true"
         role="dialog"
     >
-      <div 
+      <div
         className="bg-white rounded-lg shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col"
         onClick={e => e.stopPropagation()}
       >
         <header className="flex justify-between items-center p-4 border-b border-gray-200 sticky top-0 bg-white rounded-t-lg">
           <h2 className="text-2xl font-serif text-bovali-dark">{title}</h2>
-          <button 
-            onClick={onClose} 
+          <button
+            onClick={onClose}
             className="text-bovali-grey hover:text-bovali-dark transition-colors"
             aria-label="Close history modal"
           >
             <CloseIcon />
           </button>
         </header>
-        <main className="p-6 overflow-y-auto">
-          {images.length === 0 ? (
-            <p className="text-center text-bovali-grey">No images in history yet.</p>
+        <div className="flex flex-wrap items-center gap-3 px-6 pt-4">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or tag"
+            className={`${inputClassName} flex-grow min-w-[12rem]`}
+            aria-label="Search history"
+          />
+          <select
+            value={typeFilter ?? ''}
+            onChange={(e) => { setTypeFilter((e.target.value || null) as AssetType | null); setSelected([]); }}
+            className={inputClassName}
+            aria-label="Filter by type"
+          >
+            <option value="">All types</option>
+            {ASSET_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+          </select>
+          <button onClick={() => setShowLimits(prev => !prev)} className="text-sm font-semibold text-bovali-green hover:underline">
+            Storage
+          </button>
+        </div>
+        {showLimits && (
+          <div className="mx-6 mt-3 bg-bovali-beige rounded-lg p-4 flex flex-wrap items-end gap-4 text-sm text-bovali-dark">
+            <p className="w-full text-bovali-grey">
+              {usage ? `${usage.items} images · ${formatSize(usage.bytes)} stored on this device. ` : ''}
+              The least recently used images are removed once either limit is reached.
+            </p>
+            <label className="flex flex-col gap-1 font-semibold">
+              Max images
+              <input type="number" min={1} value={limits.maxItems} onChange={(e) => setLimits(prev => ({ ...prev, maxItems: Number(e.target.value) }))} className={`${inputClassName} w-28 font-normal`} />
+            </label>
+            <label className="flex flex-col gap-1 font-semibold">
+              Max size (MB)
+              <input type="number" min={1} value={limits.maxMegabytes} onChange={(e) => setLimits(prev => ({ ...prev, maxMegabytes: Number(e.target.value) }))} className={`${inputClassName} w-28 font-normal`} />
+            </label>
+            <button onClick={handleApplyLimits} className="bg-bovali-green text-white font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-colors">
+              Apply
+            </button>
+          </div>
+        )}
+        {error && <p className="px-6 pt-3 text-sm text-red-700">{error}</p>}
+        <main className="p-6 overflow-y-auto flex-grow">
+          {assets.length === 0 ? (
+            <p className="text-center text-bovali-grey">
+              {isLoading ? 'Loading history...' : search || typeFilter ? 'No images match.' : 'No images in history yet.'}
+            </p>
           ) : (
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-              {images.map((imgSrc, index) => (
-                <div 
-                  key={index} 
-                  className="aspect-square bg-gray-100 rounded-md overflow-hidden cursor-pointer group relative transition-transform transform hover:scale-105"
-                  onClick={() => onImageSelect(imgSrc)}
-                >
-                  <img src={imgSrc} alt={`History item ${index + 1}`} className="w-full h-full object-cover" />
-                   <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-40 transition-all flex items-center justify-center">
-                        <p className="text-white font-bold opacity-0 group-hover:opacity-100 transition-opacity">Select</p>
+              {assets.map(asset => {
+                const isSelected = selected.includes(asset.id);
+                return (
+                  <div key={asset.id} className="flex flex-col gap-1">
+                    <div
+                      className={`aspect-square bg-gray-100 rounded-md overflow-hidden cursor-pointer group relative transition-transform transform hover:scale-105 ${isSelected ? 'ring-4 ring-bovali-green' : ''}`}
+                      onClick={() => handleTileClick(asset.id)}
+                      title={`Added ${formatDate(asset.createdAt)}\nLast used ${formatDate(asset.lastUsedAt)}`}
+                    >
+                      <img src={getAssetThumbnailUrl(asset)} alt={asset.name} className="w-full h-full object-cover" />
+                      <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-40 transition-all flex items-center justify-center">
+                        <p className="text-white font-bold opacity-0 group-hover:opacity-100 transition-opacity">{selected.length > 0 ? (isSelected ? 'Deselect' : 'Add') : 'Select'}</p>
+                      </div>
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={() => toggleSelected(asset.id)}
+                        className="absolute top-2 left-2 w-4 h-4 accent-bovali-green"
+                        aria-label={`Select ${asset.name}`}
+                      />
                     </div>
-                </div>
-              ))}
+                    <p className="text-xs text-bovali-dark truncate" title={asset.name}>{asset.name}</p>
+                    {asset.tags.length > 0 && <p className="text-xs text-bovali-grey truncate">{asset.tags.join(', ')}</p>}
+                  </div>
+                );
+              })}
             </div>
           )}
         </main>
+        {selected.length > 0 && (
+          <footer className="p-4 border-t border-gray-200 space-y-3">
+            {focused && (
+              <div className="flex flex-wrap items-center gap-3 text-sm text-bovali-dark">
+                <span className="text-bovali-grey">
+                  {formatSize(focused.size)} · added {formatDate(focused.createdAt)} · last used {formatDate(focused.lastUsedAt)}
+                </span>
+                <input
+                  value={tagDraft}
+                  onChange={(e) => setTagDraft(e.target.value)}
+                  onBlur={handleSaveTags}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleSaveTags(); }}
+                  placeholder="Tags, separated by commas"
+                  className={`${inputClassName} flex-grow min-w-[12rem]`}
+                  aria-label="Tags"
+                />
+              </div>
+            )}
+            <div className="flex flex-wrap items-center justify-end gap-3">
+              <span className="text-sm text-bovali-grey mr-auto">{selected.length} selected</span>
+              <button onClick={() => setSelected([])} className="text-sm font-semibold text-bovali-grey hover:underline">
+                Clear
+              </button>
+              <button onClick={handleDelete} className="text-sm font-semibold text-red-700 hover:underline">
+                Delete
+              </button>
+              <button
+                onClick={() => useAssets(allowMultiple ? selected : selected.slice(0, 1))}
+                disabled={!allowMultiple && selected.length > 1}
+                className="bg-bovali-green text-white text-sm font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400"
+              >
+                {allowMultiple && selected.length > 1 ? `Use ${selected.length} images` : 'Use image'}
+              </button>
+            </div>
+          </footer>
+        )}
       </div>
     </div>
   );
@@ -1,4 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { preprocessImage, describePreprocessResult, ACCEPTED_IMAGE_TYPES } from '../services/imagePreprocessor';
+import { readProvenance } from '../services/provenance';
+import type { ProvenanceRecord } from '../services/provenance';
 
 interface ImageUploaderProps {
   title: string;
@@ -6,6 +9,14 @@ interface ImageUploaderProps {
   previewUrl: string | null;
   onImageRemove?: () => void;
   onHistoryClick?: () => void;
+  onMaskClick?: () => void;
+  hasMask?: boolean;
+  onCatalogueClick?: () => void;
+  // Short line shown under the uploader, e.g. the SKU of a catalogue pick.
+  caption?: string;
+  // Called when the picked file is a studio output carrying its provenance. Checked before
+  // preprocessing, which strips metadata.
+  onProvenanceFound?: (record: ProvenanceRecord) => void;
 }
 
 const UploadIcon: React.FC = () => (
@@ -21,14 +32,43 @@ const RemoveIcon: React.FC = () => (
 );
 
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ title, onImageSelect, previewUrl, onImageRemove, onHistoryClick }) => {
+const ImageUploader: React.FC<ImageUploaderProps> = ({ title, onImageSelect, previewUrl, onImageRemove, onHistoryClick, onMaskClick, hasMask, onCatalogueClick, caption, onProvenanceFound }) => {
   const inputId = `file-upload-${title.replace(/\s+/g, '-').toLowerCase()}`;
   const [isDragging, setIsDragging] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [report, setReport] = useState<string | null>(null);
+  const [prepareError, setPrepareError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!previewUrl) setReport(null);
+  }, [previewUrl]);
+
+  const selectFile = async (file: File) => {
+    setIsPreparing(true);
+    setPrepareError(null);
+    if (onProvenanceFound) {
+      readProvenance(file)
+        .then(record => record && onProvenanceFound(record))
+        .catch(err => console.warn("Could not read image provenance", err));
+    }
+    try {
+      const result = await preprocessImage(file);
+      setReport(describePreprocessResult(result));
+      onImageSelect(result.file);
+    } catch (err) {
+      console.error("Image preprocessing failed:", err);
+      setReport(null);
+      setPrepareError(err instanceof Error ? err.message : "This image could not be prepared for upload.");
+    } finally {
+      setIsPreparing(false);
+    }
+  };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files[0]) {
       const file = event.target.files[0];
-      onImageSelect(file);
+      event.target.value = '';
+      selectFile(file);
     }
   };
   
@@ -62,7 +102,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ title, onImageSelect, pre
       e.stopPropagation();
       setIsDragging(false);
       if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-          onImageSelect(e.dataTransfer.files[0]);
+          selectFile(e.dataTransfer.files[0]);
           e.dataTransfer.clearData();
       }
   };
@@ -84,16 +124,18 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ title, onImageSelect, pre
           onDragOver={handleDrag}
           onDrop={handleDrop}
         >
-          {previewUrl ? (
+          {isPreparing ? (
+            <p className="text-sm text-bovali-grey animate-pulse">Preparing image...</p>
+          ) : previewUrl ? (
             <img src={previewUrl} alt={`${title} preview`} className="object-contain w-full h-full rounded-lg" />
           ) : (
             <div className="flex flex-col items-center justify-center text-center p-4">
               <UploadIcon/>
               <p className="mb-2 text-sm text-bovali-grey"><span className="font-semibold text-bovali-dark">Click to upload</span> or drag and drop</p>
-              <p className="text-xs text-gray-400 mt-2">PNG, JPG, or WEBP</p>
+              <p className="text-xs text-gray-400 mt-2">PNG, JPG, WEBP, HEIC, TIFF or AVIF</p>
             </div>
           )}
-          <input id={inputId} type="file" className="hidden" onChange={handleFileChange} accept="image/png, image/jpeg, image/webp" />
+          <input id={inputId} type="file" className="hidden" onChange={handleFileChange} accept={ACCEPTED_IMAGE_TYPES} disabled={isPreparing} />
         </label>
         {previewUrl && onImageRemove && (
           <button
@@ -113,7 +155,28 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ title, onImageSelect, pre
             <span className="text-xl font-bold leading-none -mt-0.5">+</span>
           </button>
         )}
+        {onCatalogueClick && (
+          <button
+            onClick={(e) => { e.preventDefault(); e.stopPropagation(); onCatalogueClick(); }}
+            className="absolute top-3 left-3 z-10 bg-white text-bovali-green border border-bovali-green text-xs font-semibold rounded-full py-1.5 px-3 shadow-md hover:bg-bovali-green/10 transition-colors"
+            aria-label="Choose from catalogue"
+          >
+            Catalogue
+          </button>
+        )}
+        {previewUrl && onMaskClick && (
+          <button
+            onClick={(e) => { e.preventDefault(); e.stopPropagation(); onMaskClick(); }}
+            className={`absolute bottom-3 right-3 z-10 text-xs font-semibold rounded-full py-1.5 px-3 shadow-md transition-colors ${hasMask ? 'bg-bovali-green text-white hover:bg-opacity-90' : 'bg-white text-bovali-green border border-bovali-green hover:bg-bovali-green/10'}`}
+            aria-label={hasMask ? 'Edit surface mask' : 'Paint surface mask'}
+          >
+            {hasMask ? 'Mask applied · Edit' : 'Paint Mask'}
+          </button>
+        )}
       </div>
+      {caption && <p className="text-xs font-semibold text-bovali-dark mt-2 text-center">{caption}</p>}
+      {prepareError && <p className="text-xs text-red-700 mt-2 text-center">{prepareError}</p>}
+      {!prepareError && report && <p className="text-xs text-bovali-grey mt-2 text-center">{report}</p>}
     </div>
   );
 };
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useRef } from 'react';
+import ImageUploader from './ImageUploader';
+import { composeLayout, COMPOSER_LAYOUTS, ComposerLayout } from '../services/layoutComposer';
+import { TileUnit } from '../types';
+
+interface LayoutComposerModalProps {
+  isOpen: boolean;
+  initialTileUrl: string | null;
+  tileWidth: string;
+  tileHeight: string;
+  tileUnit: TileUnit;
+  // Receives the composed sheet and its real-world size in `tileUnit`.
+  // Receives the sheet with the tile size it was laid from and the sheet's own size.
+  onUsePattern: (sheetUrl: string, size: { tileWidth: number; tileHeight: number; sheetWidth: number; sheetHeight: number }) => void;
+  onDownload: (imageUrl: string, filename: string) => void;
+  onClose: () => void;
+}
+
+const PLANK_LENGTH_OPTIONS = [
+  { value: 1, label: 'Full' },
+  { value: 0.75, label: '3/4' },
+  { value: 0.5, label: '1/2' },
+  { value: 1 / 3, label: '1/3' },
+];
+
+const DEFAULT_TILE = { cm: { width: '60', height: '15' }, inches: { width: '24', height: '6' } };
+const DEFAULT_GROUT = { cm: '0.3', inches: '0.125' };
+const SHEET_TILES = 6;
+
+const inputClassName = "w-20 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark";
+
+const CloseIcon: React.FC = () => (
+    <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+    </svg>
+);
+
+const LayoutComposerModal: React.FC<LayoutComposerModalProps> = ({ isOpen, initialTileUrl, tileWidth, tileHeight, tileUnit, onUsePattern, onDownload, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tileUrl, setTileUrl] = useState<string | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [layout, setLayout] = useState<ComposerLayout>('herringbone');
+  const [width, setWidth] = useState('');
+  const [height, setHeight] = useState('');
+  const [sheetWidth, setSheetWidth] = useState('');
+  const [sheetHeight, setSheetHeight] = useState('');
+  const [groutWidth, setGroutWidth] = useState(DEFAULT_GROUT[tileUnit]);
+  const [groutColor, setGroutColor] = useState('#d9d4cc');
+  const [plankLengths, setPlankLengths] = useState<number[]>([1, 0.75, 0.5]);
+  const [seed, setSeed] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const initialWidth = tileWidth || DEFAULT_TILE[tileUnit].width;
+    const initialHeight = tileHeight || DEFAULT_TILE[tileUnit].height;
+    setTileUrl(initialTileUrl);
+    setWidth(initialWidth);
+    setHeight(initialHeight);
+    const longest = Math.max(parseFloat(initialWidth), parseFloat(initialHeight)) || 1;
+    setSheetWidth(String(+(longest * SHEET_TILES / 2).toFixed(2)));
+    setSheetHeight(String(+(longest * SHEET_TILES / 2).toFixed(2)));
+    setGroutWidth(DEFAULT_GROUT[tileUnit]);
+    setError(null);
+  }, [isOpen]);
+
+  useEffect(() => {
+    setImage(null);
+    if (!tileUrl) return;
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => !cancelled && setImage(img);
+    img.src = tileUrl;
+    return () => { cancelled = true; };
+  }, [tileUrl]);
+
+  const dimensions = {
+    tileWidth: parseFloat(width),
+    tileHeight: parseFloat(height),
+    sheetWidth: parseFloat(sheetWidth),
+    sheetHeight: parseFloat(sheetHeight),
+  };
+  const isReady = !!image && Object.values(dimensions).every(v => v > 0);
+
+  useEffect(() => {
+    if (!isOpen || !isReady || !canvasRef.current || !image) return;
+    try {
+      composeLayout(canvasRef.current, {
+        image,
+        layout,
+        ...dimensions,
+        groutWidth: parseFloat(groutWidth) || 0,
+        groutColor,
+        plankLengths,
+        seed,
+      });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not compose the layout.");
+    }
+  }, [isOpen, isReady, image, layout, width, height, sheetWidth, sheetHeight, groutWidth, groutColor, plankLengths, seed]);
+
+  // Only URLs created here are ours to revoke; the initial tile belongs to the Generator.
+  const releaseTileUrl = () => {
+    if (tileUrl && tileUrl !== initialTileUrl && tileUrl.startsWith('blob:')) {
+      URL.revokeObjectURL(tileUrl);
+    }
+  };
+
+  const togglePlankLength = (value: number) => {
+    setPlankLengths(prev => prev.includes(value) ? prev.filter(v => v !== value) : [...prev, value]);
+  };
+
+  const handleUse = () => {
+    if (!canvasRef.current) return;
+    onUsePattern(canvasRef.current.toDataURL('image/png'), dimensions);
+  };
+
+  const handleExport = () => {
+    if (!canvasRef.current) return;
+    onDownload(canvasRef.current.toDataURL('image/png'), `layout_${layout}_${sheetWidth}x${sheetHeight}${tileUnit === 'cm' ? 'cm' : 'in'}`);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4"
+        onClick={onClose}
+        aria-modal="true"
+        role="dialog"
+    >
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b border-gray-200 sticky top-0 bg-white rounded-t-lg">
+          <h2 className="text-2xl font-serif text-bovali-dark">Compose Layout from Tile</h2>
+          <button
+            onClick={onClose}
+            className="text-bovali-grey hover:text-bovali-dark transition-colors"
+            aria-label="Close layout composer"
+          >
+            <CloseIcon />
+          </button>
+        </header>
+        <div className="flex flex-col lg:flex-row flex-1 overflow-y-auto">
+          <aside className="lg:w-80 p-6 border-b lg:border-b-0 lg:border-r border-gray-200 space-y-5">
+            <ImageUploader
+              title="Tile"
+              onImageSelect={(file) => { releaseTileUrl(); setTileUrl(URL.createObjectURL(file)); }}
+              previewUrl={tileUrl}
+              onImageRemove={() => { releaseTileUrl(); setTileUrl(null); }}
+            />
+            <label className="flex items-center justify-between gap-3 text-sm font-semibold text-bovali-dark">
+              Layout
+              <select value={layout} onChange={(e) => setLayout(e.target.value as ComposerLayout)} className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white">
+                {COMPOSER_LAYOUTS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </label>
+            <div className="flex items-center justify-between gap-2 text-sm font-semibold text-bovali-dark">
+              Tile ({tileUnit})
+              <span className="flex items-center gap-1">
+                <input type="number" value={width} onChange={(e) => setWidth(e.target.value)} className={inputClassName} aria-label="Tile width" />
+                <span>&times;</span>
+                <input type="number" value={height} onChange={(e) => setHeight(e.target.value)} className={inputClassName} aria-label="Tile height" />
+              </span>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-sm font-semibold text-bovali-dark">
+              Sheet ({tileUnit})
+              <span className="flex items-center gap-1">
+                <input type="number" value={sheetWidth} onChange={(e) => setSheetWidth(e.target.value)} className={inputClassName} aria-label="Sheet width" />
+                <span>&times;</span>
+                <input type="number" value={sheetHeight} onChange={(e) => setSheetHeight(e.target.value)} className={inputClassName} aria-label="Sheet height" />
+              </span>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-sm font-semibold text-bovali-dark">
+              Grout ({tileUnit})
+              <span className="flex items-center gap-1">
+                <input type="number" min="0" step={tileUnit === 'cm' ? 0.1 : 0.0625} value={groutWidth} onChange={(e) => setGroutWidth(e.target.value)} className={inputClassName} aria-label="Grout width" />
+                <input type="color" value={groutColor} onChange={(e) => setGroutColor(e.target.value)} className="w-10 h-10 p-0 border border-gray-300 rounded-md cursor-pointer" aria-label="Grout colour" />
+              </span>
+            </div>
+            {layout === 'randomPlank' && (
+              <div className="space-y-2">
+                <p className="text-sm font-semibold text-bovali-dark">Plank length mix</p>
+                <div className="flex flex-wrap gap-3">
+                  {PLANK_LENGTH_OPTIONS.map(option => (
+                    <label key={option.label} className="flex items-center gap-1 text-sm text-bovali-dark">
+                      <input type="checkbox" checked={plankLengths.includes(option.value)} onChange={() => togglePlankLength(option.value)} className="accent-bovali-green" />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+                <button onClick={() => setSeed(prev => prev + 1)} className="text-sm font-semibold text-bovali-green hover:underline">Shuffle planks</button>
+              </div>
+            )}
+          </aside>
+          <main className="flex-1 p-6 flex flex-col items-center justify-center gap-4 bg-gray-50">
+            {isReady ? (
+              <canvas ref={canvasRef} className="max-w-full max-h-[60vh] object-contain rounded-md border border-gray-200 bg-white" />
+            ) : (
+              <p className="text-bovali-grey text-center">Upload a tile image and enter its dimensions to compose a pattern sheet.</p>
+            )}
+            {error && <p className="text-sm text-red-700">{error}</p>}
+            <div className="flex flex-wrap justify-center gap-4">
+              <button onClick={handleExport} disabled={!isReady} className="bg-bovali-dark text-white font-semibold py-2 px-6 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+                Export PNG
+              </button>
+              <button onClick={handleUse} disabled={!isReady} className="bg-bovali-green text-white font-semibold py-2 px-6 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+                Use as Pattern
+              </button>
+            </div>
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LayoutComposerModal;
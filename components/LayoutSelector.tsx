@@ -0,0 +1,73 @@
+import React from 'react';
+import { LAYING_PATTERNS, DEFAULT_LAYOUT, LayingPattern, LayoutOptions, groutUnitFor, withGroutUnit } from '../services/layingPatterns';
+import { TileUnit } from '../types';
+
+interface LayoutSelectorProps {
+  layout: LayoutOptions | null;
+  tileUnit: TileUnit;
+  onChange: (layout: LayoutOptions | null) => void;
+}
+
+const inputClassName = "p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark";
+
+const LayoutSelector: React.FC<LayoutSelectorProps> = ({ layout, tileUnit, onChange }) => {
+  const groutUnit = groutUnitFor(tileUnit);
+
+  const handlePatternChange = (value: string) => {
+    if (!value) {
+      onChange(null);
+      return;
+    }
+    const base = layout ?? withGroutUnit(DEFAULT_LAYOUT, groutUnit);
+    onChange({ ...base, pattern: value as LayingPattern });
+  };
+
+  return (
+    <div className="flex flex-col items-center">
+      <h3 className="font-semibold text-bovali-dark mb-2">Laying Pattern</h3>
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <select value={layout?.pattern ?? ''} onChange={(e) => handlePatternChange(e.target.value)} className={inputClassName} aria-label="Laying pattern">
+          <option value="">As in Pattern Image</option>
+          {LAYING_PATTERNS.map(pattern => (
+            <option key={pattern.value} value={pattern.value}>{pattern.label}</option>
+          ))}
+        </select>
+        {layout && (
+          <>
+            <input
+              type="number"
+              value={layout.rotation}
+              onChange={(e) => onChange({ ...layout, rotation: parseFloat(e.target.value) || 0 })}
+              min="-180"
+              max="180"
+              step="5"
+              className={`${inputClassName} w-20`}
+              aria-label="Layout rotation in degrees"
+            />
+            <span className="text-sm text-bovali-grey">°</span>
+            <input
+              type="number"
+              value={layout.groutWidth}
+              onChange={(e) => onChange({ ...layout, groutWidth: Math.max(0, parseFloat(e.target.value) || 0), groutUnit })}
+              min="0"
+              step={groutUnit === 'mm' ? 1 : 0.0625}
+              className={`${inputClassName} w-20`}
+              aria-label={`Grout width in ${groutUnit}`}
+            />
+            <span className="text-sm text-bovali-grey">{groutUnit}</span>
+            <input
+              type="color"
+              value={layout.groutColor}
+              onChange={(e) => onChange({ ...layout, groutColor: e.target.value })}
+              className="w-10 h-10 p-0 border border-gray-300 rounded-md cursor-pointer"
+              aria-label="Grout colour"
+            />
+          </>
+        )}
+      </div>
+      <p className="text-xs text-bovali-grey mt-1">{layout ? 'Treats the Pattern Image as a single tile.' : 'Uses the layout shown in the Pattern Image.'}</p>
+    </div>
+  );
+};
+
+export default LayoutSelector;
@@ -0,0 +1,283 @@
+import React, { useState, useRef, useEffect } from 'react';
+
+interface MaskEditorProps {
+  isOpen: boolean;
+  imageUrl: string | null;
+  initialMask: File | null;
+  onSave: (mask: File | null) => void;
+  onClose: () => void;
+}
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Painted strokes are kept in the brand green so they read clearly over the render;
+// they are converted to a white-on-black mask when saved.
+const PAINT_COLOR = 'rgb(93, 93, 59)';
+const MAX_MASK_EDGE = 2048;
+const LASSO_CLOSE_DISTANCE = 12;
+
+const CloseIcon: React.FC = () => (
+    <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+    </svg>
+);
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, imageUrl, initialMask, onSave, onClose }) => {
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const guideCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [lassoPoints, setLassoPoints] = useState<Point[]>([]);
+  const isDrawingRef = useRef(false);
+  const lastPointRef = useRef<Point | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !imageUrl) {
+      setSize(null);
+      setLassoPoints([]);
+      return;
+    }
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, MAX_MASK_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+      setSize({ width: Math.round(image.naturalWidth * scale), height: Math.round(image.naturalHeight * scale) });
+    };
+    image.src = imageUrl;
+  }, [isOpen, imageUrl]);
+
+  useEffect(() => {
+    // Load a previously saved mask once the canvas has its final size.
+    const canvas = maskCanvasRef.current;
+    if (!size || !canvas || !initialMask) return;
+    let cancelled = false;
+    createImageBitmap(initialMask).then(bitmap => {
+      if (cancelled) return;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(bitmap, 0, 0, size.width, size.height);
+      bitmap.close();
+      // Turn white-on-black back into coloured paint with matching alpha.
+      const data = ctx.getImageData(0, 0, size.width, size.height);
+      for (let i = 0; i < data.data.length; i += 4) {
+        data.data[i + 3] = data.data[i];
+        data.data[i] = 93;
+        data.data[i + 1] = 93;
+        data.data[i + 2] = 59;
+      }
+      ctx.putImageData(data, 0, 0);
+    });
+    return () => { cancelled = true; };
+  }, [size, initialMask]);
+
+  useEffect(() => {
+    // Draw the in-progress lasso polygon on the guide layer.
+    const canvas = guideCanvasRef.current;
+    if (!canvas || !size) return;
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, size.width, size.height);
+    if (lassoPoints.length === 0) return;
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = Math.max(2, size.width / 400);
+    ctx.setLineDash([8, 6]);
+    ctx.beginPath();
+    lassoPoints.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.stroke();
+    ctx.fillStyle = '#ffffff';
+    lassoPoints.forEach(p => {
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, ctx.lineWidth * 2, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }, [lassoPoints, size]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const strokeTo = (point: Point) => {
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const from = lastPointRef.current ?? point;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = PAINT_COLOR;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+    lastPointRef.current = point;
+  };
+
+  const closeLasso = (points: Point[]) => {
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    if (ctx && points.length >= 3) {
+      ctx.fillStyle = PAINT_COLOR;
+      ctx.beginPath();
+      points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+      ctx.fill();
+    }
+    setLassoPoints([]);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      const first = lassoPoints[0];
+      const closeEnough = first && Math.hypot(first.x - point.x, first.y - point.y) < LASSO_CLOSE_DISTANCE * (e.currentTarget.width / e.currentTarget.getBoundingClientRect().width);
+      if (closeEnough) {
+        closeLasso(lassoPoints);
+      } else {
+        setLassoPoints(prev => [...prev, point]);
+      }
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawingRef.current = true;
+    lastPointRef.current = null;
+    strokeTo(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    strokeTo(toCanvasPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    isDrawingRef.current = false;
+    lastPointRef.current = null;
+  };
+
+  const handleClear = () => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setLassoPoints([]);
+  };
+
+  const handleSave = async () => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas || !size) return;
+    const ctx = canvas.getContext('2d')!;
+    const painted = ctx.getImageData(0, 0, size.width, size.height);
+    const hasPaint = painted.data.some((value, i) => i % 4 === 3 && value > 0);
+    if (!hasPaint) {
+      onSave(null);
+      return;
+    }
+
+    const output = document.createElement('canvas');
+    output.width = size.width;
+    output.height = size.height;
+    const outCtx = output.getContext('2d')!;
+    const mask = outCtx.createImageData(size.width, size.height);
+    for (let i = 0; i < painted.data.length; i += 4) {
+      const alpha = painted.data[i + 3];
+      mask.data[i] = alpha;
+      mask.data[i + 1] = alpha;
+      mask.data[i + 2] = alpha;
+      mask.data[i + 3] = 255;
+    }
+    outCtx.putImageData(mask, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => output.toBlob(resolve, 'image/png'));
+    if (!blob) return;
+    onSave(new File([blob], `surface_mask_${Date.now()}.png`, { type: 'image/png' }));
+  };
+
+  if (!isOpen || !imageUrl) return null;
+
+  const ToolButton: React.FC<{ value: MaskTool; label: string }> = ({ value, label }) => (
+    <button
+      onClick={() => { setTool(value); setLassoPoints([]); }}
+      className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors ${tool === value ? 'bg-bovali-green text-white shadow' : 'bg-white text-bovali-dark hover:bg-gray-100'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4"
+        onClick={onClose}
+        aria-modal="true"
+        role="dialog"
+    >
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-5xl max-h-[92vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b border-gray-200 sticky top-0 bg-white rounded-t-lg">
+          <h2 className="text-2xl font-serif text-bovali-dark">Paint Surface Mask</h2>
+          <button
+            onClick={onClose}
+            className="text-bovali-grey hover:text-bovali-dark transition-colors"
+            aria-label="Close mask editor"
+          >
+            <CloseIcon />
+          </button>
+        </header>
+        <div className="flex flex-wrap items-center gap-4 px-6 pt-4">
+          <div className="flex gap-2 bg-gray-200/50 p-1 rounded-full">
+            <ToolButton value="brush" label="Brush" />
+            <ToolButton value="eraser" label="Eraser" />
+            <ToolButton value="lasso" label="Polygon Lasso" />
+          </div>
+          {tool !== 'lasso' ? (
+            <label className="flex items-center gap-2 text-sm text-bovali-dark">
+              Size
+              <input type="range" min={4} max={200} value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value, 10))} aria-label="Brush size" />
+            </label>
+          ) : (
+            <p className="text-sm text-bovali-grey">Click to add points; click the first point to fill the area.</p>
+          )}
+          <button onClick={handleClear} className="text-sm font-semibold text-red-700 hover:underline ml-auto">Clear</button>
+        </div>
+        <main className="p-6 overflow-auto flex justify-center">
+          {size && (
+            <div className="relative inline-block max-w-full">
+              <img src={imageUrl} alt="Render shot" className="block max-w-full max-h-[60vh] select-none" draggable={false} />
+              <canvas
+                ref={maskCanvasRef}
+                width={size.width}
+                height={size.height}
+                className="absolute inset-0 w-full h-full opacity-60 touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+              />
+              <canvas
+                ref={guideCanvasRef}
+                width={size.width}
+                height={size.height}
+                className="absolute inset-0 w-full h-full pointer-events-none"
+              />
+            </div>
+          )}
+        </main>
+        <footer className="flex justify-end gap-4 p-4 border-t border-gray-200">
+          <button onClick={onClose} className="bg-white text-bovali-dark border border-gray-300 font-semibold py-2 px-6 rounded-full hover:bg-gray-100 transition-colors">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="bg-bovali-green text-white font-semibold py-2 px-6 rounded-full hover:bg-opacity-90 transition-colors">
+            Save Mask
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { forgetRecentProject, listRecentProjects, PROJECT_EXTENSION, RecentProject } from '../services/projectFile';
+
+interface ProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectName: string;
+  onRename: (name: string) => void;
+  // Whether Save writes straight back to a file, rather than asking where to save.
+  hasSaveLocation: boolean;
+  status: string | null;
+  error: string | null;
+  onSave: () => void;
+  onSaveAs: () => void;
+  // Called with the picked file when the browser has no file picker API.
+  onOpenFile: (file: File) => void;
+  onOpenPicker: () => Promise<boolean>;
+  onOpenRecent: (id: string) => void;
+}
+
+const inputClassName = "w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark";
+
+const CloseIcon: React.FC = () => (
+    <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+    </svg>
+);
+
+const ProjectModal: React.FC<ProjectModalProps> = ({
+  isOpen, onClose, projectName, onRename, hasSaveLocation, status, error, onSave, onSaveAs, onOpenFile, onOpenPicker, onOpenRecent,
+}) => {
+  const [recent, setRecent] = useState<RecentProject[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadRecent = () => {
+    listRecentProjects()
+      .then(setRecent)
+      .catch(err => console.error("Could not load recent projects", err));
+  };
+
+  // Reload after each save or open finishes, as both update the list.
+  useEffect(() => {
+    if (isOpen && !status) loadRecent();
+  }, [isOpen, status]);
+
+  const handleOpen = async () => {
+    if (!(await onOpenPicker())) fileInputRef.current?.click();
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onOpenFile(file);
+  };
+
+  const handleForget = async (id: string) => {
+    try {
+      await forgetRecentProject(id);
+    } catch (err) {
+      console.error("Could not remove recent project", err);
+    }
+    loadRecent();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4"
+        onClick={onClose}
+        aria-modal="true"
+        role="dialog"
+    >
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b border-gray-200">
+          <h2 className="text-2xl font-serif text-bovali-dark">Project</h2>
+          <button
+            onClick={onClose}
+            className="text-bovali-grey hover:text-bovali-dark transition-colors"
+            aria-label="Close project"
+          >
+            <CloseIcon />
+          </button>
+        </header>
+        <div className="p-6 space-y-6 text-bovali-dark overflow-y-auto">
+          <label className="flex flex-col gap-1 text-sm font-semibold">
+            Project name
+            <input value={projectName} onChange={(e) => onRename(e.target.value)} className={`${inputClassName} font-normal`} />
+          </label>
+          <p className="text-sm text-bovali-grey">
+            A {PROJECT_EXTENSION} file holds the inputs, options and results of all three studios, and the assistant conversation.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <button onClick={onSave} disabled={!!status} className="bg-bovali-green text-white text-sm font-semibold py-2 px-5 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400">
+              Save
+            </button>
+            <button onClick={onSaveAs} disabled={!!status} className="bg-bovali-dark text-white text-sm font-semibold py-2 px-5 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400">
+              Save As...
+            </button>
+            <button onClick={handleOpen} disabled={!!status} className="text-sm font-semibold text-bovali-green hover:underline disabled:text-gray-400">
+              Open...
+            </button>
+            {status && <span className="text-sm text-bovali-grey animate-pulse">{status}</span>}
+          </div>
+          {!hasSaveLocation && !status && (
+            <p className="text-xs text-bovali-grey">Save downloads the project file until it has been saved to or opened from a location on disk.</p>
+          )}
+          {error && <p className="text-sm text-red-700">{error}</p>}
+          <input ref={fileInputRef} type="file" accept={`${PROJECT_EXTENSION},application/zip`} className="hidden" onChange={handleFileInput} />
+
+          <div className="space-y-2">
+            <h3 className="font-semibold">Recent projects</h3>
+            {recent.length === 0 ? (
+              <p className="text-sm text-bovali-grey">Projects you save or open appear here.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {recent.map(project => (
+                  <li key={project.id} className="flex items-center gap-3 p-3">
+                    <button onClick={() => onOpenRecent(project.id)} disabled={!!status} className="flex-grow text-left hover:text-bovali-green disabled:text-gray-400">
+                      <span className="block font-semibold">{project.name}</span>
+                      <span className="block text-xs text-bovali-grey">
+                        {new Date(project.savedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })} · {(project.size / (1024 * 1024)).toFixed(1)} MB
+                      </span>
+                    </button>
+                    <button onClick={() => handleForget(project.id)} className="text-xs font-semibold text-bovali-grey hover:text-red-700" aria-label={`Remove ${project.name} from recent projects`}>
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectModal;
@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  listPromptTemplates,
+  getPromptTemplateHistory,
+  savePromptTemplate,
+  resetPromptTemplate,
+  fillTemplate,
+  exportPromptTemplates,
+  importPromptTemplates,
+  getMissingRequiredVariables,
+  SAMPLE_VARIABLES,
+  PromptTemplate,
+  PromptTemplateId,
+} from '../services/promptTemplates';
+
+interface PromptTemplatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CloseIcon: React.FC = () => (
+    <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+    </svg>
+);
+
+const PromptTemplatesModal: React.FC<PromptTemplatesModalProps> = ({ isOpen, onClose }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('patternAndMaterial');
+  const [draft, setDraft] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = templates.find(t => t.id === selectedId);
+  const missingRequired = selected ? getMissingRequiredVariables(selected.id, draft) : [];
+
+  const refresh = (id: PromptTemplateId = selectedId) => {
+    const all = listPromptTemplates();
+    setTemplates(all);
+    setDraft(all.find(t => t.id === id)?.body ?? '');
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    } else {
+      setStatus(null);
+      setError(null);
+      setShowPreview(false);
+    }
+  }, [isOpen]);
+
+  const handleSelect = (id: PromptTemplateId) => {
+    setSelectedId(id);
+    setDraft(templates.find(t => t.id === id)?.body ?? '');
+    setStatus(null);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    setError(null);
+    try {
+      const saved = savePromptTemplate(selectedId, draft);
+      refresh();
+      setStatus(`Saved as version ${saved.version}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the template.");
+    }
+  };
+
+  const handleReset = () => {
+    setError(null);
+    try {
+      const reset = resetPromptTemplate(selectedId);
+      refresh();
+      setStatus(`Restored the default wording as version ${reset.version}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not restore the default template.");
+    }
+  };
+
+  const handleRestoreVersion = (version: number) => {
+    const entry = getPromptTemplateHistory(selectedId).find(v => v.version === version);
+    if (entry) {
+      setDraft(entry.body);
+      setStatus(`Loaded version ${version} into the editor. Save to make it current.`);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPromptTemplates()], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'bovali_prompt_templates.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const updated = importPromptTemplates(await file.text());
+      refresh();
+      setStatus(updated > 0 ? `Imported ${updated} template${updated > 1 ? 's' : ''}.` : 'All imported templates already match the current versions.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not import the templates.");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const history = selected ? getPromptTemplateHistory(selected.id) : [];
+  const isDirty = selected ? draft !== selected.body : false;
+
+  return (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4"
+        onClick={onClose}
+        aria-modal="true"
+        role="dialog"
+    >
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b border-gray-200 sticky top-0 bg-white rounded-t-lg">
+          <h2 className="text-2xl font-serif text-bovali-dark">Prompt Templates</h2>
+          <div className="flex items-center gap-4">
+            <button onClick={() => importInputRef.current?.click()} className="text-sm font-semibold text-bovali-green hover:underline">Import JSON</button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            <button onClick={handleExport} className="text-sm font-semibold text-bovali-green hover:underline">Export JSON</button>
+            <button
+              onClick={onClose}
+              className="text-bovali-grey hover:text-bovali-dark transition-colors"
+              aria-label="Close prompt templates"
+            >
+              <CloseIcon />
+            </button>
+          </div>
+        </header>
+        <div className="flex flex-1 overflow-hidden">
+          <nav className="w-60 border-r border-gray-200 overflow-y-auto p-2">
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => handleSelect(template.id)}
+                className={`w-full text-left px-3 py-2 rounded-md mb-1 transition-colors ${template.id === selectedId ? 'bg-bovali-green text-white' : 'text-bovali-dark hover:bg-gray-100'}`}
+              >
+                <span className="block font-semibold text-sm">{template.name}</span>
+                <span className={`block text-xs ${template.id === selectedId ? 'text-bovali-beige/80' : 'text-bovali-grey'}`}>
+                  v{template.version}{template.isDefault ? ' · default' : ' · customised'}
+                </span>
+              </button>
+            ))}
+          </nav>
+          {selected && (
+            <main className="flex-1 p-6 overflow-y-auto space-y-4">
+              <div>
+                <p className="text-sm text-bovali-grey">{selected.description}</p>
+                {selected.variables.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {selected.variables.map(variable => (
+                      <code key={variable} className="text-xs bg-bovali-beige text-bovali-dark px-2 py-1 rounded">{`{{${variable}}}`}</code>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-4">
+                <button onClick={() => setShowPreview(false)} className={`text-sm font-semibold ${!showPreview ? 'text-bovali-dark underline' : 'text-bovali-grey hover:text-bovali-dark'}`}>Edit</button>
+                <button onClick={() => setShowPreview(true)} className={`text-sm font-semibold ${showPreview ? 'text-bovali-dark underline' : 'text-bovali-grey hover:text-bovali-dark'}`}>Preview with sample values</button>
+                <label className="ml-auto text-sm text-bovali-dark flex items-center gap-2">
+                  Version
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && handleRestoreVersion(parseInt(e.target.value, 10))}
+                    className="p-1 border border-gray-300 rounded-md bg-white text-bovali-dark"
+                    aria-label="Load a previous version"
+                  >
+                    <option value="">Load…</option>
+                    {[...history].reverse().map(entry => (
+                      <option key={entry.version} value={entry.version}>
+                        v{entry.version}{entry.savedAt ? ` · ${new Date(entry.savedAt).toLocaleString()}` : ' · built-in'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {showPreview ? (
+                <pre className="w-full min-h-[20rem] p-3 border border-gray-200 rounded-md bg-gray-50 text-sm text-bovali-dark whitespace-pre-wrap font-mono">{fillTemplate(draft, SAMPLE_VARIABLES)}</pre>
+              ) : (
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  className="w-full min-h-[20rem] p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none text-sm font-mono"
+                  aria-label={`${selected.name} template`}
+                />
+              )}
+              {missingRequired.length > 0 && (
+                <p className="bg-yellow-100 text-yellow-800 text-sm rounded-md p-3">
+                  This template doesn't use {missingRequired.map(name => `{{${name}}}`).join(' or ')}. The instruction will be added at the end of the prompt instead.
+                </p>
+              )}
+              {status && <p className="text-sm text-bovali-green">{status}</p>}
+              {error && <p className="text-sm text-red-700">{error}</p>}
+              <div className="flex justify-end gap-4">
+                <button onClick={handleReset} className="bg-white text-red-700 border border-red-300 font-semibold py-2 px-6 rounded-full hover:bg-red-50 transition-colors">
+                  Reset to Default
+                </button>
+                <button onClick={handleSave} disabled={!isDirty} className="bg-bovali-green text-white font-semibold py-2 px-6 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+                  Save New Version
+                </button>
+              </div>
+            </main>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesModal;
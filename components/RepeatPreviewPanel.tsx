@@ -0,0 +1,103 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { renderRepeatPreview, getAreaUnitLabel, getGroutUnitLabel, RepeatPreviewStats } from '../services/repeatPreview';
+import { TileUnit } from '../types';
+
+interface RepeatPreviewPanelProps {
+  imageUrl: string;
+  tileWidth: string;
+  tileHeight: string;
+  unit: TileUnit;
+  onDownload: (imageUrl: string, filename: string) => void;
+}
+
+const DEFAULT_AREA = { cm: 3, inches: 10 };
+const DEFAULT_GROUT = { cm: 3, inches: 0.125 };
+
+const inputClassName = "w-20 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark";
+
+const RepeatPreviewPanel: React.FC<RepeatPreviewPanelProps> = ({ imageUrl, tileWidth, tileHeight, unit, onDownload }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [areaWidth, setAreaWidth] = useState(String(DEFAULT_AREA[unit]));
+  const [areaHeight, setAreaHeight] = useState(String(DEFAULT_AREA[unit]));
+  const [groutWidth, setGroutWidth] = useState(String(DEFAULT_GROUT[unit]));
+  const [groutColor, setGroutColor] = useState('#d9d4cc');
+  const [stats, setStats] = useState<RepeatPreviewStats | null>(null);
+
+  useEffect(() => {
+    setAreaWidth(String(DEFAULT_AREA[unit]));
+    setAreaHeight(String(DEFAULT_AREA[unit]));
+    setGroutWidth(String(DEFAULT_GROUT[unit]));
+  }, [unit]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => !cancelled && setImage(img);
+    img.src = imageUrl;
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  const tile = { width: parseFloat(tileWidth), height: parseFloat(tileHeight) };
+  const area = { width: parseFloat(areaWidth), height: parseFloat(areaHeight) };
+  const grout = Math.max(0, parseFloat(groutWidth) || 0);
+  const isReady = tile.width > 0 && tile.height > 0 && area.width > 0 && area.height > 0;
+
+  useEffect(() => {
+    if (!image || !isReady || !canvasRef.current) return;
+    setStats(renderRepeatPreview(canvasRef.current, {
+      image,
+      unit,
+      tileWidth: tile.width,
+      tileHeight: tile.height,
+      areaWidth: area.width,
+      areaHeight: area.height,
+      groutWidth: grout,
+      groutColor,
+    }));
+  }, [image, isReady, unit, tile.width, tile.height, area.width, area.height, grout, groutColor]);
+
+  const handleExport = () => {
+    if (!canvasRef.current) return;
+    onDownload(canvasRef.current.toDataURL('image/png'), `repeat_preview_${areaWidth}x${areaHeight}${getAreaUnitLabel(unit)}`);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200/80">
+      <div className="flex flex-wrap items-end justify-center gap-6 mb-6">
+        <div className="flex flex-col items-center">
+          <h4 className="font-semibold text-bovali-dark mb-2">Area ({getAreaUnitLabel(unit)})</h4>
+          <div className="flex items-center gap-2">
+            <input type="number" min="0" step="0.5" value={areaWidth} onChange={(e) => setAreaWidth(e.target.value)} className={inputClassName} aria-label="Preview area width" />
+            <span>&times;</span>
+            <input type="number" min="0" step="0.5" value={areaHeight} onChange={(e) => setAreaHeight(e.target.value)} className={inputClassName} aria-label="Preview area height" />
+          </div>
+        </div>
+        <div className="flex flex-col items-center">
+          <h4 className="font-semibold text-bovali-dark mb-2">Grout ({getGroutUnitLabel(unit)})</h4>
+          <div className="flex items-center gap-2">
+            <input type="number" min="0" step={unit === 'cm' ? 1 : 0.0625} value={groutWidth} onChange={(e) => setGroutWidth(e.target.value)} className={inputClassName} aria-label="Grout width" />
+            <input type="color" value={groutColor} onChange={(e) => setGroutColor(e.target.value)} className="w-10 h-10 p-0 border border-gray-300 rounded-md cursor-pointer" aria-label="Grout colour" />
+          </div>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={!isReady || !image}
+          className="bg-bovali-dark text-white font-semibold py-2 px-6 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          Export PNG
+        </button>
+      </div>
+      {isReady ? (
+        <>
+          <canvas ref={canvasRef} className="w-full h-auto max-h-[70vh] object-contain mx-auto rounded-md border border-gray-200" />
+          {stats && <p className="text-xs text-bovali-grey mt-2 text-center">{stats.columns} &times; {stats.rows} tiles of {tileWidth} &times; {tileHeight} {unit} shown, including cut tiles at the edges.{stats.isCropped && ' The area holds too many tiles to draw, so only part of it is shown.'}</p>}
+        </>
+      ) : (
+        <p className="text-sm text-bovali-grey text-center py-8">Enter the tile dimensions to preview the repeat at real-world scale.</p>
+      )}
+    </div>
+  );
+};
+
+export default RepeatPreviewPanel;
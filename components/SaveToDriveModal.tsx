@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  createFolder,
+  listFolders,
+  listNamesInFolder,
+  uploadFile,
+  DriveFolder,
+  UploadConflictPolicy,
+  UploadedFile,
+} from '../services/googleDriveService';
+import { getCatalogueSettings, getSourceAuth, CatalogueSource } from '../services/catalogueSources';
+import { isAbortError } from '../services/generationProvider';
+import { getSessionToken } from '../services/driveSignIn';
+import GoogleSignInStatus, { useSignInTimeLeft } from './GoogleSignInStatus';
+
+export interface DriveUploadItem {
+  url: string;
+  // Suggested file name, including the extension.
+  name: string;
+}
+
+interface SaveToDriveModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: DriveUploadItem[];
+}
+
+type ItemStatus =
+  | { state: 'pending' }
+  | { state: 'uploading'; progress: number }
+  | { state: 'done'; result: UploadedFile }
+  | { state: 'error'; message: string };
+
+const CONFLICT_OPTIONS: { value: UploadConflictPolicy; label: string }[] = [
+  { value: 'rename', label: 'Keep both (add a number)' },
+  { value: 'replace', label: 'Replace the existing file' },
+  { value: 'skip', label: 'Skip it' },
+];
+
+const OUTCOME_LABELS: Record<UploadedFile['outcome'], string> = {
+  created: 'Saved',
+  renamed: 'Saved with a new name',
+  replaced: 'Replaced',
+  skipped: 'Skipped (already exists)',
+};
+
+const inputClassName = "p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark";
+
+const CloseIcon: React.FC = () => (
+    <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+    </svg>
+);
+
+const SaveToDriveModal: React.FC<SaveToDriveModalProps> = ({ isOpen, onClose, items }) => {
+  const [sources, setSources] = useState<CatalogueSource[]>([]);
+  const [source, setSource] = useState<CatalogueSource | null>(null);
+  const [folderStack, setFolderStack] = useState<DriveFolder[]>([]);
+  const [folders, setFolders] = useState<DriveFolder[]>([]);
+  const [isLoadingFolders, setIsLoadingFolders] = useState(false);
+  const [newFolderName, setNewFolderName] = useState('');
+  const [names, setNames] = useState<string[]>([]);
+  const [conflict, setConflict] = useState<UploadConflictPolicy>('rename');
+  const [statuses, setStatuses] = useState<ItemStatus[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+
+  // Not memoised: the signed-in token is looked up afresh on each render.
+  const auth = source ? getSourceAuth(source) : {};
+  const isSignedIn = useSignInTimeLeft(source?.id) > 0;
+  const canWrite = !!source && source.authType === 'oauth' && isSignedIn;
+  const currentFolder = folderStack[folderStack.length - 1];
+
+  useEffect(() => {
+    if (isOpen) {
+      const driveSources = getCatalogueSettings().sources.filter(s => s.kind !== 'local');
+      setSources(driveSources);
+      const oauthSources = driveSources.filter(s => s.authType === 'oauth');
+      setSource(oauthSources.find(s => getSessionToken(s.id)) ?? oauthSources[0] ?? driveSources[0] ?? null);
+      setNames(items.map(item => item.name));
+      setStatuses(items.map(() => ({ state: 'pending' })));
+      setError(null);
+    } else {
+      uploadAbortRef.current?.abort();
+      setFolderStack([]);
+      setFolders([]);
+      setIsSaving(false);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    setFolderStack(source?.rootFolderId ? [{ id: source.rootFolderId, name: source.name }] : []);
+  }, [source]);
+
+  useEffect(() => {
+    if (!isOpen || !currentFolder || !canWrite) {
+      setFolders([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoadingFolders(true);
+    listFolders(auth, currentFolder.id)
+      .then(result => !cancelled && setFolders(result))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : "Could not list folders."))
+      .finally(() => !cancelled && setIsLoadingFolders(false));
+    return () => { cancelled = true; };
+  }, [isOpen, currentFolder?.id, canWrite]);
+
+  const handleCreateFolder = async () => {
+    if (!currentFolder || !newFolderName.trim()) return;
+    setError(null);
+    try {
+      const folder = await createFolder(auth, currentFolder.id, newFolderName.trim());
+      setNewFolderName('');
+      setFolderStack(prev => [...prev, folder]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not create the folder.");
+    }
+  };
+
+  const updateStatus = (index: number, status: ItemStatus) => {
+    setStatuses(prev => prev.map((s, i) => i === index ? status : s));
+  };
+
+  const handleSave = async () => {
+    if (!currentFolder) return;
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+    setIsSaving(true);
+    setError(null);
+    setStatuses(items.map(() => ({ state: 'pending' })));
+    try {
+      const existing = await listNamesInFolder(auth, currentFolder.id);
+      for (const [index, item] of items.entries()) {
+        if (controller.signal.aborted) break;
+        updateStatus(index, { state: 'uploading', progress: 0 });
+        try {
+          const blob = await (await fetch(item.url)).blob();
+          const result = await uploadFile(auth, currentFolder.id, names[index].trim() || item.name, blob, {
+            existing,
+            conflict,
+            signal: controller.signal,
+            onProgress: (loaded, total) => updateStatus(index, { state: 'uploading', progress: loaded / total }),
+          });
+          updateStatus(index, { state: 'done', result });
+        } catch (err) {
+          if (isAbortError(err)) {
+            updateStatus(index, { state: 'error', message: 'Cancelled.' });
+            break;
+          }
+          updateStatus(index, { state: 'error', message: err instanceof Error ? err.message : "Upload failed." });
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save to Drive.");
+    } finally {
+      if (uploadAbortRef.current === controller) {
+        uploadAbortRef.current = null;
+        setIsSaving(false);
+      }
+    }
+  };
+
+  const doneCount = statuses.filter(s => s.state === 'done').length;
+  const failedCount = statuses.filter(s => s.state === 'error').length;
+  const overallProgress = items.length > 0
+    ? statuses.reduce((sum, s) => sum + (s.state === 'done' || s.state === 'error' ? 1 : s.state === 'uploading' ? s.progress : 0), 0) / items.length
+    : 0;
+  const isFinished = !isSaving && doneCount + failedCount === items.length && items.length > 0;
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4"
+        onClick={onClose}
+        aria-modal="true"
+        role="dialog"
+    >
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b border-gray-200">
+          <h2 className="text-2xl font-serif text-bovali-dark">Save {items.length === 1 ? 'Image' : `${items.length} Images`} to Drive</h2>
+          <button
+            onClick={onClose}
+            className="text-bovali-grey hover:text-bovali-dark transition-colors"
+            aria-label="Close save to Drive"
+          >
+            <CloseIcon />
+          </button>
+        </header>
+        <div className="p-6 space-y-5 text-bovali-dark overflow-y-auto">
+          {sources.length === 0 ? (
+            <p className="text-sm text-bovali-grey">Add a Google Drive source with an OAuth access token under Catalogue Sources to save exports to Drive.</p>
+          ) : (
+            <>
+              <label className="flex items-center justify-between gap-4 text-sm font-semibold">
+                Drive
+                <select value={source?.id ?? ''} onChange={(e) => setSource(sources.find(s => s.id === e.target.value) ?? null)} disabled={isSaving} className={inputClassName}>
+                  {sources.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              </label>
+              {source?.authType === 'oauth' && !isSignedIn ? (
+                <GoogleSignInStatus sourceId={source.id} />
+              ) : !canWrite ? (
+                <p className="text-sm text-red-700">"{source?.name}" is read-only. Saving needs a Google sign-in; set this source's access to Google sign-in under Catalogue Sources.</p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <nav className="text-sm font-semibold text-bovali-grey flex items-center flex-wrap">
+                    {folderStack.map((folder, index) => (
+                      <React.Fragment key={folder.id}>
+                        <button onClick={() => setFolderStack(prev => prev.slice(0, index + 1))} disabled={isSaving || index === folderStack.length - 1} className="hover:text-bovali-dark disabled:text-bovali-dark disabled:cursor-default">
+                          {folder.name}
+                        </button>
+                        {index < folderStack.length - 1 && <span className="mx-2">/</span>}
+                      </React.Fragment>
+                    ))}
+                  </nav>
+                  <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+                    {isLoadingFolders ? (
+                      <span className="text-sm text-bovali-grey animate-pulse">Loading folders...</span>
+                    ) : folders.length === 0 ? (
+                      <span className="text-sm text-bovali-grey">No subfolders. Images will be saved here.</span>
+                    ) : folders.map(folder => (
+                      <button key={folder.id} onClick={() => setFolderStack(prev => [...prev, folder])} disabled={isSaving} className="text-sm bg-gray-100 hover:bg-gray-200 rounded-md px-3 py-1.5">
+                        {folder.name}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <input value={newFolderName} onChange={(e) => setNewFolderName(e.target.value)} placeholder="New folder name" className={`${inputClassName} flex-1 text-sm`} disabled={isSaving} />
+                    <button onClick={handleCreateFolder} disabled={isSaving || !newFolderName.trim()} className="text-sm font-semibold text-bovali-green hover:underline disabled:text-gray-400 disabled:no-underline">Create folder</button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="space-y-2">
+            <h3 className="font-semibold">Files</h3>
+            {items.map((item, index) => {
+              const status = statuses[index];
+              return (
+                <div key={item.url} className="flex items-center gap-3">
+                  <img src={item.url} alt="" className="w-12 h-12 object-cover rounded-md bg-gray-100" />
+                  <div className="flex-1 min-w-0">
+                    <input value={names[index] ?? ''} onChange={(e) => setNames(prev => prev.map((n, i) => i === index ? e.target.value : n))} disabled={isSaving} className={`${inputClassName} w-full text-sm`} aria-label={`File name ${index + 1}`} />
+                    {status?.state === 'uploading' && (
+                      <div className="h-1.5 bg-gray-200 rounded-full mt-1 overflow-hidden"><div className="h-full bg-bovali-green transition-all" style={{ width: `${Math.round(status.progress * 100)}%` }} /></div>
+                    )}
+                    {status?.state === 'done' && (
+                      <p className="text-xs text-bovali-green mt-1">
+                        {OUTCOME_LABELS[status.result.outcome]}{status.result.outcome !== 'skipped' && status.result.name !== names[index] ? ` as ${status.result.name}` : ''}
+                        {status.result.webViewLink && <> · <a href={status.result.webViewLink} target="_blank" rel="noreferrer" className="underline">Open</a></>}
+                      </p>
+                    )}
+                    {status?.state === 'error' && <p className="text-xs text-red-700 mt-1">{status.message}</p>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <label className="flex items-center justify-between gap-4 text-sm font-semibold">
+            If a file with the same name exists
+            <select value={conflict} onChange={(e) => setConflict(e.target.value as UploadConflictPolicy)} disabled={isSaving} className={inputClassName}>
+              {CONFLICT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+
+          {error && <p className="text-sm text-red-700">{error}</p>}
+          {(isSaving || isFinished) && (
+            <div>
+              <div className="h-2 bg-gray-200 rounded-full overflow-hidden"><div className="h-full bg-bovali-green transition-all" style={{ width: `${Math.round(overallProgress * 100)}%` }} /></div>
+              <p className="text-xs text-bovali-grey mt-1">
+                {doneCount} of {items.length} saved{failedCount > 0 ? ` · ${failedCount} failed` : ''}
+                {isFinished && currentFolder && <> · <a href={`https://drive.google.com/drive/folders/${currentFolder.id}`} target="_blank" rel="noreferrer" className="text-bovali-green underline">Open folder in Drive</a></>}
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            {isSaving ? (
+              <button onClick={() => uploadAbortRef.current?.abort()} className="bg-bovali-grey text-white font-semibold py-2 px-6 rounded-full hover:bg-opacity-90 transition-colors">
+                Cancel
+              </button>
+            ) : (
+              <button onClick={handleSave} disabled={!canWrite || !currentFolder || items.length === 0} className="bg-bovali-green text-white font-semibold py-2 px-6 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+                {isFinished ? 'Save again' : `Save to ${currentFolder?.name ?? 'Drive'}`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveToDriveModal;
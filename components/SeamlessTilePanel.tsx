@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { analyseTiling, createOffsetPreview, makeSeamless, SeamFixMethod, TilingAnalysis } from '../services/seamlessTile';
+
+interface SeamlessTilePanelProps {
+  imageUrl: string;
+  onApplyFix: (fixedUrl: string) => void;
+}
+
+type PreviewMode = 'tiled' | 'offset';
+
+const getScoreLabel = (score: number) => {
+  if (score >= 85) return { text: 'Seamless', className: 'text-bovali-green' };
+  if (score >= 60) return { text: 'Faint seams', className: 'text-yellow-700' };
+  return { text: 'Visible seams', className: 'text-red-700' };
+};
+
+const SeamlessTilePanel: React.FC<SeamlessTilePanelProps> = ({ imageUrl, onApplyFix }) => {
+  const [analysis, setAnalysis] = useState<TilingAnalysis | null>(null);
+  const [offsetUrl, setOffsetUrl] = useState<string | null>(null);
+  const [previewMode, setPreviewMode] = useState<PreviewMode>('tiled');
+  const [method, setMethod] = useState<SeamFixMethod>('blend');
+  const [blendWidth, setBlendWidth] = useState(0.15);
+  const [fixedUrl, setFixedUrl] = useState<string | null>(null);
+  const [fixedAnalysis, setFixedAnalysis] = useState<TilingAnalysis | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAnalysis(null);
+    setOffsetUrl(null);
+    setFixedUrl(null);
+    setFixedAnalysis(null);
+    setError(null);
+    Promise.all([analyseTiling(imageUrl), createOffsetPreview(imageUrl)])
+      .then(([result, offset]) => {
+        if (cancelled) return;
+        setAnalysis(result);
+        setOffsetUrl(offset);
+      })
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : "Could not analyse the texture."));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  const handleFix = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const fixed = await makeSeamless(imageUrl, { method, blendWidth });
+      setFixedUrl(fixed);
+      setFixedAnalysis(await analyseTiling(fixed));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not make the texture seamless.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const previewSource = fixedUrl ?? imageUrl;
+  const shownAnalysis = fixedUrl ? fixedAnalysis : analysis;
+  const label = shownAnalysis ? getScoreLabel(shownAnalysis.score) : null;
+
+  return (
+    <div className="mt-8 border-t border-gray-200 pt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-xl font-serif text-bovali-dark">Tiling Check</h4>
+        {shownAnalysis && label && (
+          <p className="text-sm">
+            <span className={`font-semibold ${label.className}`}>{label.text}</span>
+            <span className="text-bovali-grey"> · seam score {shownAnalysis.score}/100{fixedUrl && analysis ? ` (was ${analysis.score})` : ''}</span>
+          </p>
+        )}
+      </div>
+      <div className="flex gap-4 mb-3 text-sm">
+        <button onClick={() => setPreviewMode('tiled')} className={`font-semibold ${previewMode === 'tiled' ? 'text-bovali-dark underline' : 'text-bovali-grey hover:text-bovali-dark'}`}>Tiled 3×3</button>
+        <button onClick={() => setPreviewMode('offset')} className={`font-semibold ${previewMode === 'offset' ? 'text-bovali-dark underline' : 'text-bovali-grey hover:text-bovali-dark'}`}>Offset wrap</button>
+      </div>
+      {previewMode === 'tiled' ? (
+        <div
+          className="w-full h-64 rounded-lg border border-gray-200"
+          style={{ backgroundImage: `url(${previewSource})`, backgroundSize: '33.333% 33.333%', backgroundRepeat: 'repeat' }}
+          role="img"
+          aria-label="Texture repeated three times in each direction"
+        />
+      ) : (
+        <div className="w-full h-64 rounded-lg border border-gray-200 bg-gray-50 flex items-center justify-center">
+          {fixedUrl ? (
+            // The fixed texture was built around the offset, so its own wrap is the thing to inspect.
+            <img src={fixedUrl} alt="Fixed texture" className="object-contain w-full h-full rounded-lg" />
+          ) : offsetUrl ? (
+            <img src={offsetUrl} alt="Texture offset by half so the wrap seams cross the centre" className="object-contain w-full h-full rounded-lg" />
+          ) : (
+            <p className="text-sm text-bovali-grey animate-pulse">Preparing preview...</p>
+          )}
+        </div>
+      )}
+      {previewMode === 'offset' && !fixedUrl && <p className="text-xs text-bovali-grey mt-2">The wrap seams now run through the centre of the image as a cross.</p>}
+
+      <div className="flex flex-wrap items-center gap-4 mt-4">
+        <select
+          value={method}
+          onChange={(e) => { setMethod(e.target.value as SeamFixMethod); setFixedUrl(null); setFixedAnalysis(null); }}
+          className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark text-sm"
+          aria-label="Seam fix method"
+        >
+          <option value="blend">Offset + blend</option>
+          <option value="mirror">Mirror</option>
+        </select>
+        {method === 'blend' && (
+          <label className="flex items-center gap-2 text-sm text-bovali-dark">
+            Blend
+            <input type="range" min={0.05} max={0.4} step={0.01} value={blendWidth} onChange={(e) => setBlendWidth(parseFloat(e.target.value))} className="accent-bovali-green" />
+            <span className="w-10 text-right">{Math.round(blendWidth * 100)}%</span>
+          </label>
+        )}
+        <button
+          onClick={handleFix}
+          disabled={isWorking}
+          className="bg-white text-bovali-green border-2 border-bovali-green font-semibold py-2 px-5 rounded-full hover:bg-bovali-green/10 transition-colors disabled:opacity-50"
+        >
+          {isWorking ? 'Fixing...' : 'Make Seamless'}
+        </button>
+        {fixedUrl && (
+          <>
+            <button onClick={() => onApplyFix(fixedUrl)} className="bg-bovali-green text-white font-semibold py-2 px-5 rounded-full hover:bg-opacity-90 transition-colors">
+              Use Fixed Texture
+            </button>
+            <button onClick={() => { setFixedUrl(null); setFixedAnalysis(null); }} className="text-sm font-semibold text-bovali-grey hover:text-bovali-dark">
+              Discard
+            </button>
+          </>
+        )}
+      </div>
+      {method === 'mirror' && <p className="text-xs text-bovali-grey mt-2">Mirroring always tiles cleanly but makes the texture symmetrical.</p>}
+      {error && <p className="text-sm text-red-700 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default SeamlessTilePanel;
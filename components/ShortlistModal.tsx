@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { sortShortlist, SHORTLIST_COMPARE_LIMIT } from '../services/shortlist';
+import type { ShortlistItem, ShortlistUpdate } from '../services/shortlist';
+
+interface ShortlistModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: ShortlistItem[];
+  onUpdate: (id: string, update: ShortlistUpdate) => void;
+  onRemove: (ids: string[]) => void;
+  // Adds the images to the export gallery.
+  onPromote: (imageUrls: string[]) => void;
+  exportedImages: string[];
+}
+
+const selectClassName = "p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark text-sm";
+
+const SOURCE_LABELS: Record<ShortlistItem['source'], string> = {
+  generator: 'Generator',
+  extractor: 'Extractor',
+  pattern: 'Pattern Studio',
+};
+
+const CloseIcon: React.FC = () => (
+    <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+    </svg>
+);
+
+const PinIcon: React.FC<{ filled: boolean }> = ({ filled }) => (
+  <svg className="w-5 h-5" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill={filled ? 'currentColor' : 'none'} viewBox="0 0 24 24" strokeWidth="2" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 3.75l3.75 3.75-4.5 4.5 1.5 4.5-1.5 1.5-4.5-4.5-5.25 5.25M12.75 9l-4.5-1.5-1.5 1.5 4.5 4.5" />
+  </svg>
+);
+
+const StarRating: React.FC<{ value: number; onChange: (rating: number) => void }> = ({ value, onChange }) => (
+  <div className="flex" role="radiogroup" aria-label="Rating">
+    {[1, 2, 3, 4, 5].map(star => (
+      <button
+        key={star}
+        // Clicking the current rating clears it.
+        onClick={() => onChange(star === value ? 0 : star)}
+        className={`text-lg leading-none px-0.5 ${star <= value ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-400'}`}
+        role="radio"
+        aria-checked={star === value}
+        aria-label={`${star} star${star === 1 ? '' : 's'}`}
+      >
+        ★
+      </button>
+    ))}
+  </div>
+);
+
+const ShortlistModal: React.FC<ShortlistModalProps> = ({ isOpen, onClose, items, onUpdate, onRemove, onPromote, exportedImages }) => {
+  const [skuFilter, setSkuFilter] = useState('');
+  const [patternFilter, setPatternFilter] = useState('');
+  const [minRating, setMinRating] = useState(0);
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setSelected(prev => prev.filter(id => items.some(item => item.id === id)));
+  }, [items]);
+
+  useEffect(() => {
+    if (!isOpen) setIsComparing(false);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const skus = [...new Set(items.flatMap(item => item.skus))].sort();
+  const patterns = [...new Set(items.map(item => item.layingPattern).filter((p): p is string => !!p))].sort();
+  const visible = sortShortlist(items).filter(item =>
+    (!skuFilter || item.skus.includes(skuFilter)) &&
+    (!patternFilter || item.layingPattern === patternFilter) &&
+    item.rating >= minRating &&
+    (!pinnedOnly || item.pinned));
+  const selectedItems = sortShortlist(items).filter(item => selected.includes(item.id));
+  const canCompare = selectedItems.length >= 2 && selectedItems.length <= SHORTLIST_COMPARE_LIMIT;
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const saveNote = (item: ShortlistItem) => {
+    const note = notes[item.id];
+    if (note !== undefined && note !== item.note) onUpdate(item.id, { note });
+  };
+
+  const handlePromote = () => {
+    onPromote(selectedItems.map(item => item.imageUrl).filter(url => !exportedImages.includes(url)));
+    setSelected([]);
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm(`Remove ${selected.length} item${selected.length === 1 ? '' : 's'} from the shortlist?`)) return;
+    onRemove(selected);
+    setSelected([]);
+  };
+
+  const renderMeta = (item: ShortlistItem) => (
+    <p className="text-xs text-bovali-grey truncate">
+      {[SOURCE_LABELS[item.source], item.label, item.skus.length > 0 && `SKU: ${item.skus.join(', ')}`, item.layingPattern].filter(Boolean).join(' · ')}
+    </p>
+  );
+
+  return (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4"
+        onClick={onClose}
+        aria-modal="true"
+        role="dialog"
+    >
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b border-gray-200 sticky top-0 bg-white rounded-t-lg z-10">
+          <h2 className="text-2xl font-serif text-bovali-dark">
+            {isComparing ? `Comparing ${selectedItems.length} designs` : `Shortlist (${items.length})`}
+          </h2>
+          <div className="flex items-center gap-4">
+            {isComparing && (
+              <button onClick={() => setIsComparing(false)} className="text-sm font-semibold text-bovali-green hover:underline">
+                Back to board
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-bovali-grey hover:text-bovali-dark transition-colors"
+              aria-label="Close shortlist"
+            >
+              <CloseIcon />
+            </button>
+          </div>
+        </header>
+
+        {isComparing ? (
+          <main className={`p-6 overflow-y-auto grid gap-4 ${selectedItems.length > 2 ? 'grid-cols-2' : 'grid-cols-1 md:grid-cols-2'}`}>
+            {selectedItems.map(item => (
+              <div key={item.id} className="flex flex-col gap-2">
+                <img src={item.imageUrl} alt={item.label} className="w-full max-h-[60vh] object-contain bg-gray-100 rounded-md" />
+                <div className="flex items-center justify-between gap-2">
+                  {renderMeta(item)}
+                  <StarRating value={item.rating} onChange={(rating) => onUpdate(item.id, { rating })} />
+                </div>
+                {item.note && <p className="text-sm text-bovali-dark">{item.note}</p>}
+              </div>
+            ))}
+          </main>
+        ) : (<>
+          {items.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 px-6 pt-4 text-sm text-bovali-dark">
+              {skus.length > 0 && (
+                <select value={skuFilter} onChange={(e) => setSkuFilter(e.target.value)} className={selectClassName} aria-label="Filter by product">
+                  <option value="">All products</option>
+                  {skus.map(sku => <option key={sku} value={sku}>{sku}</option>)}
+                </select>
+              )}
+              {patterns.length > 0 && (
+                <select value={patternFilter} onChange={(e) => setPatternFilter(e.target.value)} className={selectClassName} aria-label="Filter by laying pattern">
+                  <option value="">All patterns</option>
+                  {patterns.map(pattern => <option key={pattern} value={pattern}>{pattern}</option>)}
+                </select>
+              )}
+              <select value={minRating} onChange={(e) => setMinRating(Number(e.target.value))} className={selectClassName} aria-label="Minimum rating">
+                <option value={0}>Any rating</option>
+                {[1, 2, 3, 4, 5].map(rating => <option key={rating} value={rating}>{'★'.repeat(rating)}{rating < 5 ? ' & up' : ''}</option>)}
+              </select>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={pinnedOnly} onChange={(e) => setPinnedOnly(e.target.checked)} className="accent-bovali-green" />
+                Pinned only
+              </label>
+            </div>
+          )}
+          <main className="p-6 overflow-y-auto flex-grow">
+            {items.length === 0 ? (
+              <p className="text-center text-bovali-grey py-20">Shortlist designs from the studios to collect the best ones here across runs.</p>
+            ) : visible.length === 0 ? (
+              <p className="text-center text-bovali-grey py-20">No shortlisted designs match these filters.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {visible.map(item => (
+                  <div key={item.id} className={`border rounded-lg p-3 flex flex-col gap-2 ${selected.includes(item.id) ? 'border-bovali-green ring-2 ring-bovali-green' : 'border-gray-200'}`}>
+                    <div className="relative aspect-square bg-gray-100 rounded-md overflow-hidden">
+                      <img src={item.imageUrl} alt={item.label} className="w-full h-full object-cover" />
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(item.id)}
+                        onChange={() => toggleSelected(item.id)}
+                        className="absolute top-2 left-2 w-4 h-4 accent-bovali-green"
+                        aria-label={`Select ${item.label}`}
+                      />
+                      <button
+                        onClick={() => onUpdate(item.id, { pinned: !item.pinned })}
+                        className={`absolute top-1 right-1 p-1.5 rounded-full bg-white/90 ${item.pinned ? 'text-bovali-green' : 'text-bovali-grey hover:text-bovali-dark'}`}
+                        aria-label={item.pinned ? 'Unpin' : 'Pin'}
+                        aria-pressed={item.pinned}
+                      >
+                        <PinIcon filled={item.pinned} />
+                      </button>
+                      {exportedImages.includes(item.imageUrl) && (
+                        <span className="absolute bottom-1 left-1 bg-bovali-green text-white text-xs font-semibold px-2 py-0.5 rounded">Exported</span>
+                      )}
+                    </div>
+                    <StarRating value={item.rating} onChange={(rating) => onUpdate(item.id, { rating })} />
+                    {renderMeta(item)}
+                    <textarea
+                      value={notes[item.id] ?? item.note}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      onBlur={() => saveNote(item)}
+                      rows={2}
+                      placeholder="Add a note"
+                      className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none text-sm text-bovali-dark resize-none"
+                      aria-label={`Note for ${item.label}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </main>
+          {selected.length > 0 && (
+            <footer className="p-4 border-t border-gray-200 flex flex-wrap items-center justify-end gap-3">
+              <span className="text-sm text-bovali-grey mr-auto">{selected.length} selected</span>
+              <button onClick={() => setSelected([])} className="text-sm font-semibold text-bovali-grey hover:underline">Clear</button>
+              <button onClick={handleRemove} className="text-sm font-semibold text-red-700 hover:underline">Remove</button>
+              <button
+                onClick={() => setIsComparing(true)}
+                disabled={!canCompare}
+                title={canCompare ? undefined : `Select 2 to ${SHORTLIST_COMPARE_LIMIT} designs to compare`}
+                className="bg-bovali-dark text-white text-sm font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-colors disabled:bg-gray-400"
+              >
+                Compare
+              </button>
+              <button onClick={handlePromote} className="bg-bovali-green text-white text-sm font-semibold py-2 px-4 rounded-full hover:bg-opacity-90 transition-colors">
+                Add to Export Gallery
+              </button>
+            </footer>
+          )}
+        </>)}
+      </div>
+    </div>
+  );
+};
+
+export default ShortlistModal;
@@ -0,0 +1,132 @@
+import React from 'react';
+import ImageUploader from './ImageUploader';
+import { SURFACE_TYPES, SurfaceType } from '../services/surfaceTypes';
+import { ImageState } from '../types';
+
+export interface SurfaceAssignmentState {
+  id: number;
+  surfaceType: SurfaceType;
+  pattern: ImageState;
+  materials: ImageState[];
+  tileWidth: string;
+  tileHeight: string;
+}
+
+interface SurfaceAssignmentEditorProps {
+  assignments: SurfaceAssignmentState[];
+  tileUnit: string;
+  onChange: (id: number, update: Partial<SurfaceAssignmentState>) => void;
+  onAdd: () => void;
+  onRemove: (id: number) => void;
+}
+
+const RemoveIcon: React.FC = () => (
+  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+);
+
+const toImageState = (file: File): ImageState => ({ file, previewUrl: URL.createObjectURL(file) });
+
+const revoke = (image: ImageState) => {
+  if (image.previewUrl && image.previewUrl.startsWith('blob:')) {
+    URL.revokeObjectURL(image.previewUrl);
+  }
+};
+
+const SurfaceAssignmentEditor: React.FC<SurfaceAssignmentEditorProps> = ({ assignments, tileUnit, onChange, onAdd, onRemove }) => {
+  const usedSurfaces = assignments.map(a => a.surfaceType);
+
+  return (
+    <div className="space-y-8">
+      {assignments.map((assignment, index) => (
+        <div key={assignment.id} className="bg-white p-6 rounded-lg shadow-md border border-gray-200/80">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-3">
+              <h3 className="text-2xl font-serif text-bovali-dark">Surface {index + 1}</h3>
+              <select
+                value={assignment.surfaceType}
+                onChange={(e) => onChange(assignment.id, { surfaceType: e.target.value as SurfaceType })}
+                className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark"
+                aria-label={`Surface ${index + 1} type`}
+              >
+                {SURFACE_TYPES.map(surface => (
+                  <option key={surface.value} value={surface.value} disabled={surface.value !== assignment.surfaceType && usedSurfaces.includes(surface.value)}>
+                    {surface.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {assignments.length > 1 && (
+              <button
+                onClick={() => {
+                  revoke(assignment.pattern);
+                  assignment.materials.forEach(revoke);
+                  onRemove(assignment.id);
+                }}
+                className="text-sm font-semibold text-red-700 hover:underline"
+              >
+                Remove surface
+              </button>
+            )}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-8">
+            <div>
+              <ImageUploader
+                title={`Surface ${index + 1} Pattern`}
+                onImageSelect={(file) => { revoke(assignment.pattern); onChange(assignment.id, { pattern: toImageState(file) }); }}
+                previewUrl={assignment.pattern.previewUrl}
+                onImageRemove={() => { revoke(assignment.pattern); onChange(assignment.id, { pattern: { file: null, previewUrl: null } }); }}
+              />
+              {assignment.pattern.file && (
+                <div className="flex items-center justify-center gap-2 mt-4">
+                  <span className="text-sm font-semibold text-bovali-dark">Tile</span>
+                  <input type="number" value={assignment.tileWidth} onChange={(e) => onChange(assignment.id, { tileWidth: e.target.value })} placeholder="W" className="w-20 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark" aria-label={`Surface ${index + 1} tile width`} />
+                  <span>&times;</span>
+                  <input type="number" value={assignment.tileHeight} onChange={(e) => onChange(assignment.id, { tileHeight: e.target.value })} placeholder="H" className="w-20 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark" aria-label={`Surface ${index + 1} tile height`} />
+                  <span className="text-sm text-bovali-grey">{tileUnit}</span>
+                </div>
+              )}
+            </div>
+            <div>
+              {assignment.materials.length > 0 && (
+                <div className="grid grid-cols-3 gap-4 mb-4">
+                  {assignment.materials.map((mat, matIndex) => (
+                    <div key={matIndex} className="relative aspect-square rounded-md overflow-hidden group bg-gray-100">
+                      <img src={mat.previewUrl!} alt={`Surface ${index + 1} material ${matIndex + 1}`} className="w-full h-full object-cover" />
+                      <button
+                        onClick={() => {
+                          revoke(mat);
+                          onChange(assignment.id, { materials: assignment.materials.filter((_, i) => i !== matIndex) });
+                        }}
+                        className="absolute top-1 right-1 bg-black/50 text-white rounded-full p-1 leading-none hover:bg-black/75 opacity-0 group-hover:opacity-100 transition-opacity"
+                        aria-label={`Remove surface ${index + 1} material ${matIndex + 1}`}
+                      >
+                        <RemoveIcon />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <ImageUploader
+                title={`Surface ${index + 1} Material`}
+                onImageSelect={(file) => onChange(assignment.id, { materials: [...assignment.materials, toImageState(file)] })}
+                previewUrl={null}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-bovali-grey mt-4 text-center">Provide a pattern, one or more materials, or both for this surface.</p>
+        </div>
+      ))}
+
+      {assignments.length < SURFACE_TYPES.length && (
+        <div className="text-center">
+          <button onClick={onAdd} className="bg-white text-bovali-green border-2 border-bovali-green font-semibold py-3 px-6 rounded-full hover:bg-bovali-green/10 transition-colors">
+            + Add Surface
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SurfaceAssignmentEditor;
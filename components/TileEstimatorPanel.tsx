@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import {
+  estimateTiles,
+  estimatesToCsv,
+  formatCost,
+  getAreaUnit,
+  getSuggestedWaste,
+  EstimateZone,
+  PriceBasis,
+  TileEstimate,
+} from '../services/tileEstimator';
+import { getLayingPatternDefinition, LayingPattern } from '../services/layingPatterns';
+import { TileUnit } from '../types';
+
+interface TileEstimatorPanelProps {
+  tileWidth: string;
+  tileHeight: string;
+  tileUnit: TileUnit;
+  layout: LayingPattern | null;
+  onEstimateChange: (estimate: TileEstimate | null) => void;
+}
+
+const inputClassName = "p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white text-bovali-dark";
+
+let nextZoneId = 1;
+const createZone = (index: number): EstimateZone => ({ id: nextZoneId++, name: `Zone ${index + 1}`, width: 0, length: 0 });
+
+const TileEstimatorPanel: React.FC<TileEstimatorPanelProps> = ({ tileWidth, tileHeight, tileUnit, layout, onEstimateChange }) => {
+  const [zones, setZones] = useState<EstimateZone[]>(() => [createZone(0)]);
+  const [wastePercent, setWastePercent] = useState(getSuggestedWaste(layout));
+  const [tilesPerBox, setTilesPerBox] = useState(10);
+  const [unitPrice, setUnitPrice] = useState(0);
+  const [priceBasis, setPriceBasis] = useState<PriceBasis>('area');
+  const [currency, setCurrency] = useState('€');
+
+  useEffect(() => {
+    setWastePercent(getSuggestedWaste(layout));
+  }, [layout]);
+
+  let estimate: TileEstimate | null = null;
+  let message: string | null = null;
+  try {
+    estimate = estimateTiles({
+      zones,
+      tileWidth: parseFloat(tileWidth),
+      tileHeight: parseFloat(tileHeight),
+      unit: tileUnit,
+      layout,
+      wastePercent,
+      tilesPerBox,
+      unitPrice,
+      priceBasis,
+      currency,
+    });
+  } catch (err) {
+    message = err instanceof Error ? err.message : "Could not estimate quantities.";
+  }
+
+  const estimateKey = estimate ? JSON.stringify(estimate) : null;
+  useEffect(() => {
+    onEstimateChange(estimate);
+  }, [estimateKey]);
+
+  const areaUnit = getAreaUnit(tileUnit);
+  const lengthUnit = tileUnit === 'cm' ? 'm' : 'ft';
+
+  const updateZone = (id: number, update: Partial<EstimateZone>) => {
+    setZones(prev => prev.map(zone => zone.id === id ? { ...zone, ...update } : zone));
+  };
+
+  const handleExportCsv = () => {
+    if (!estimate) return;
+    const blob = new Blob([estimatesToCsv([{ image: '', estimate }])], { type: 'text/csv' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'bovali_estimate.csv';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200/80 space-y-6">
+      <div className="space-y-3">
+        <h4 className="font-semibold text-bovali-dark">Zones ({lengthUnit})</h4>
+        {zones.map(zone => (
+          <div key={zone.id} className="flex flex-wrap items-center gap-2">
+            <input value={zone.name} onChange={(e) => updateZone(zone.id, { name: e.target.value })} className={`${inputClassName} w-36`} aria-label="Zone name" />
+            <input type="number" min="0" step="0.1" value={zone.width || ''} onChange={(e) => updateZone(zone.id, { width: parseFloat(e.target.value) || 0 })} placeholder="Width" className={`${inputClassName} w-24`} aria-label={`${zone.name} width`} />
+            <span>&times;</span>
+            <input type="number" min="0" step="0.1" value={zone.length || ''} onChange={(e) => updateZone(zone.id, { length: parseFloat(e.target.value) || 0 })} placeholder="Length" className={`${inputClassName} w-24`} aria-label={`${zone.name} length`} />
+            <span className="text-sm text-bovali-grey w-20">{zone.width > 0 && zone.length > 0 ? `${(zone.width * zone.length).toFixed(2)} ${areaUnit}` : ''}</span>
+            {zones.length > 1 && (
+              <button onClick={() => setZones(prev => prev.filter(z => z.id !== zone.id))} className="text-sm font-semibold text-red-700 hover:underline">Remove</button>
+            )}
+          </div>
+        ))}
+        <button onClick={() => setZones(prev => [...prev, createZone(prev.length)])} className="text-sm font-semibold text-bovali-green hover:underline">+ Add zone</button>
+      </div>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <label className="flex flex-col gap-1 text-sm font-semibold text-bovali-dark">
+          Waste %
+          <input type="number" min="0" max="50" value={wastePercent} onChange={(e) => setWastePercent(parseFloat(e.target.value) || 0)} className={inputClassName} />
+          <span className="text-xs font-normal text-bovali-grey">Suggested for {layout ? getLayingPatternDefinition(layout).label : 'this layout'}: {getSuggestedWaste(layout)}%</span>
+        </label>
+        <label className="flex flex-col gap-1 text-sm font-semibold text-bovali-dark">
+          Tiles per box
+          <input type="number" min="1" value={tilesPerBox} onChange={(e) => setTilesPerBox(parseInt(e.target.value, 10) || 1)} className={inputClassName} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm font-semibold text-bovali-dark">
+          Unit price
+          <span className="flex gap-2">
+            <input value={currency} onChange={(e) => setCurrency(e.target.value)} className={`${inputClassName} w-14`} aria-label="Currency symbol" />
+            <input type="number" min="0" step="0.01" value={unitPrice || ''} onChange={(e) => setUnitPrice(parseFloat(e.target.value) || 0)} className={`${inputClassName} w-full`} aria-label="Unit price" />
+          </span>
+        </label>
+        <label className="flex flex-col gap-1 text-sm font-semibold text-bovali-dark">
+          Priced per
+          <select value={priceBasis} onChange={(e) => setPriceBasis(e.target.value as PriceBasis)} className={inputClassName}>
+            <option value="area">{areaUnit}</option>
+            <option value="tile">Tile</option>
+            <option value="box">Box</option>
+          </select>
+        </label>
+      </div>
+
+      {estimate ? (
+        <div className="bg-bovali-beige rounded-lg p-4">
+          <dl className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4 text-center">
+            <div><dt className="text-xs text-bovali-grey">Area</dt><dd className="text-lg font-semibold text-bovali-dark">{estimate.area.toFixed(2)} {areaUnit}</dd></div>
+            <div><dt className="text-xs text-bovali-grey">Tiles laid</dt><dd className="text-lg font-semibold text-bovali-dark">{estimate.tilesLaid}</dd></div>
+            <div><dt className="text-xs text-bovali-grey">Cut tiles</dt><dd className="text-lg font-semibold text-bovali-dark">{estimate.cutTiles}</dd></div>
+            <div><dt className="text-xs text-bovali-grey">Tiles needed</dt><dd className="text-lg font-semibold text-bovali-dark">{estimate.tilesNeeded}</dd></div>
+            <div><dt className="text-xs text-bovali-grey">Boxes</dt><dd className="text-lg font-semibold text-bovali-dark">{estimate.boxes} <span className="text-xs font-normal">({estimate.tilesOrdered} tiles)</span></dd></div>
+            <div><dt className="text-xs text-bovali-grey">Total cost</dt><dd className="text-lg font-semibold text-bovali-green">{formatCost(estimate.totalCost, currency)}</dd></div>
+          </dl>
+          <div className="flex flex-wrap items-center justify-between gap-4 mt-4">
+            <p className="text-xs text-bovali-grey">Cut counts are an estimate. Attach this estimate to a result below to include it in the export ZIP.</p>
+            <button onClick={handleExportCsv} className="text-sm font-semibold text-bovali-green hover:underline">Export CSV</button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-bovali-grey text-center">{message}</p>
+      )}
+    </div>
+  );
+};
+
+export default TileEstimatorPanel;
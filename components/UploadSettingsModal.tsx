@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getPreprocessSettings,
+  savePreprocessSettings,
+  DEFAULT_PREPROCESS_SETTINGS,
+  MAX_EDGE_OPTIONS,
+  PreprocessFormat,
+  PreprocessSettings,
+} from '../services/imagePreprocessor';
+
+interface UploadSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CloseIcon: React.FC = () => (
+    <svg className="w-6 h-6" aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <path stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/>
+    </svg>
+);
+
+const UploadSettingsModal: React.FC<UploadSettingsModalProps> = ({ isOpen, onClose }) => {
+  const [settings, setSettings] = useState<PreprocessSettings>(DEFAULT_PREPROCESS_SETTINGS);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSettings(getPreprocessSettings());
+    }
+  }, [isOpen]);
+
+  const update = (partial: Partial<PreprocessSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...partial };
+      savePreprocessSettings(next);
+      return next;
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4"
+        onClick={onClose}
+        aria-modal="true"
+        role="dialog"
+    >
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-lg flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-center p-4 border-b border-gray-200">
+          <h2 className="text-2xl font-serif text-bovali-dark">Upload Settings</h2>
+          <button
+            onClick={onClose}
+            className="text-bovali-grey hover:text-bovali-dark transition-colors"
+            aria-label="Close upload settings"
+          >
+            <CloseIcon />
+          </button>
+        </header>
+        <div className="p-6 space-y-5 text-bovali-dark">
+          <p className="text-sm text-bovali-grey">
+            Uploaded images are rotated upright, stripped of camera metadata, downsized and re-encoded before they are sent for generation. HEIC and TIFF files are always converted.
+          </p>
+          <label className="flex items-center gap-3">
+            <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} className="w-4 h-4 accent-bovali-green" />
+            <span className="font-semibold">Optimise uploads</span>
+          </label>
+          <fieldset disabled={!settings.enabled} className="space-y-5 disabled:opacity-50">
+            <label className="flex items-center justify-between gap-4">
+              <span className="text-sm font-semibold">Maximum edge</span>
+              <select
+                value={settings.maxEdge}
+                onChange={(e) => update({ maxEdge: parseInt(e.target.value, 10) })}
+                className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white"
+              >
+                {MAX_EDGE_OPTIONS.map(edge => <option key={edge} value={edge}>{edge}px</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-4">
+              <span className="text-sm font-semibold">Format</span>
+              <select
+                value={settings.format}
+                onChange={(e) => update({ format: e.target.value as PreprocessFormat })}
+                className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-bovali-green focus:outline-none bg-white"
+              >
+                <option value="image/webp">WEBP</option>
+                <option value="image/jpeg">JPG</option>
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-4">
+              <span className="text-sm font-semibold">Quality</span>
+              <span className="flex items-center gap-3">
+                <input
+                  type="range"
+                  min={0.5}
+                  max={1}
+                  step={0.05}
+                  value={settings.quality}
+                  onChange={(e) => update({ quality: parseFloat(e.target.value) })}
+                  className="accent-bovali-green"
+                />
+                <span className="text-sm w-10 text-right">{Math.round(settings.quality * 100)}%</span>
+              </span>
+            </label>
+          </fieldset>
+          <div className="flex justify-end">
+            <button onClick={() => update(DEFAULT_PREPROCESS_SETTINGS)} className="text-sm font-semibold text-bovali-green hover:underline">
+              Restore defaults
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UploadSettingsModal;
@@ -1,4 +1,5 @@
-const CACHE_NAME = 'bovali-studio-cache-v1';
+// Bump the version whenever urlsToCache changes, so existing installs fetch the new list.
+const CACHE_NAME = 'bovali-studio-cache-v2';
 const urlsToCache = [
   '/',
   '/index.html',
@@ -8,6 +9,9 @@ const urlsToCache = [
   'https://cdn.tailwindcss.com',
   'https://fonts.googleapis.com/css2?family=Lato:wght@300;400;700&family=Playfair+Display:wght@400;500;700&display=swap',
   'https://cdnjs.cloudflare.com/ajax/libs/jszip/3.10.1/jszip.min.js',
+  'https://cdn.jsdelivr.net/npm/heic2any@0.0.4/dist/heic2any.min.js',
+  'https://cdn.jsdelivr.net/npm/utif@3.1.0/UTIF.min.js',
+  'https://cdnjs.cloudflare.com/ajax/libs/jspdf/2.5.1/jspdf.umd.min.js',
   'https://aistudiocdn.com/react@^19.1.1',
   'https://aistudiocdn.com/react-dom@^19.1.1/',
   'https://aistudiocdn.com/@google/genai@^1.20.0'
@@ -0,0 +1,236 @@
+// services/assetHistory.ts
+// Persistent history of the images used as inputs, kept in IndexedDB. Images are stored once
+// per content hash with a thumbnail, and the least recently used are evicted past the limits.
+
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { hashBlob } from './provenance';
+
+export type AssetType = 'renderShot' | 'pattern' | 'material';
+
+export const ASSET_TYPES: { value: AssetType; label: string }[] = [
+  { value: 'renderShot', label: 'Render shots' },
+  { value: 'pattern', label: 'Patterns' },
+  { value: 'material', label: 'Materials' },
+];
+
+export interface AssetRecord {
+  // SHA-256 of the image bytes, so the same image is only stored once. Provenance records
+  // use the same hash, which lets a re-imported output find its inputs here.
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  blob: Blob;
+  thumbnail: Blob;
+  // Every role the image has been used in.
+  types: AssetType[];
+  tags: string[];
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+// Everything but the full image, for listing.
+export type AssetSummary = Omit<AssetRecord, 'blob'>;
+
+export interface HistoryLimits {
+  maxItems: number;
+  maxMegabytes: number;
+}
+
+export const DEFAULT_HISTORY_LIMITS: HistoryLimits = { maxItems: 300, maxMegabytes: 500 };
+
+const DB_NAME = 'bovaliAssetHistory';
+const DB_VERSION = 1;
+const ASSET_STORE = 'assets';
+const SUMMARY_STORE = 'summaries';
+const THUMBNAIL_EDGE = 256;
+const LIMITS_KEY = 'bovaliHistoryLimits';
+
+// Full images and summaries live in separate stores so listing never loads the large blobs.
+const getDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+  db.createObjectStore(ASSET_STORE);
+  const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+  summaries.createIndex('lastUsedAt', 'lastUsedAt');
+});
+
+export const getHistoryLimits = (): HistoryLimits => {
+  try {
+    const raw = localStorage.getItem(LIMITS_KEY);
+    return raw ? { ...DEFAULT_HISTORY_LIMITS, ...JSON.parse(raw) } : DEFAULT_HISTORY_LIMITS;
+  } catch (error) {
+    console.error("Could not load history limits from local storage", error);
+    return DEFAULT_HISTORY_LIMITS;
+  }
+};
+
+export const saveHistoryLimits = (limits: HistoryLimits) => {
+  localStorage.setItem(LIMITS_KEY, JSON.stringify(limits));
+};
+
+const makeThumbnail = async (blob: Blob): Promise<Blob> => {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_EDGE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise<Blob>((resolve) => canvas.toBlob(result => resolve(result ?? blob), 'image/jpeg', 0.8));
+  } catch {
+    return blob;
+  }
+};
+
+const getSummaries = async (): Promise<AssetSummary[]> => {
+  const db = await getDb();
+  return requestToPromise(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll());
+};
+
+// Evicts the least recently used images until both limits are met. `keepId` (the image just
+// added) is counted first and never evicted, even when others share its timestamp.
+const enforceLimits = async (limits = getHistoryLimits(), keepId?: string) => {
+  const summaries = (await getSummaries())
+    .sort((a, b) => Number(b.id === keepId) - Number(a.id === keepId) || b.lastUsedAt - a.lastUsedAt);
+  const maxBytes = limits.maxMegabytes * 1024 * 1024;
+  let totalBytes = 0;
+  const evict = summaries.filter((summary, index) => {
+    totalBytes += summary.size;
+    return summary.id !== keepId && (index >= limits.maxItems || totalBytes > maxBytes);
+  });
+  if (evict.length > 0) {
+    await deleteAssets(evict.map(summary => summary.id));
+  }
+};
+
+// Adds an image to the history, or marks it as used again if the same bytes are already stored.
+export const addAsset = async (blob: Blob, type: AssetType, name?: string): Promise<AssetSummary> => {
+  const id = await hashBlob(blob);
+  const db = await getDb();
+  const existing = await requestToPromise<AssetSummary | undefined>(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).get(id));
+  const now = Date.now();
+  let summary: AssetSummary;
+  if (existing) {
+    summary = { ...existing, types: [...new Set([...existing.types, type])], lastUsedAt: now };
+    const transaction = db.transaction(SUMMARY_STORE, 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).put(summary);
+    await transactionDone(transaction);
+  } else {
+    const { maxMegabytes } = getHistoryLimits();
+    if (blob.size > maxMegabytes * 1024 * 1024) {
+      throw new Error(`This image (${(blob.size / 1024 / 1024).toFixed(1)} MB) is larger than the ${maxMegabytes} MB history limit, so it was not added.`);
+    }
+    summary = {
+      id,
+      name: name || `${type}_${new Date(now).toISOString().slice(0, 10)}`,
+      mimeType: blob.type || 'image/png',
+      size: blob.size,
+      thumbnail: await makeThumbnail(blob),
+      types: [type],
+      tags: [],
+      createdAt: now,
+      lastUsedAt: now,
+    };
+    const transaction = db.transaction([ASSET_STORE, SUMMARY_STORE], 'readwrite');
+    transaction.objectStore(ASSET_STORE).put(blob, id);
+    transaction.objectStore(SUMMARY_STORE).put(summary);
+    await transactionDone(transaction);
+    await enforceLimits(undefined, id);
+  }
+  return summary;
+};
+
+export const addAssetFromUrl = async (url: string, type: AssetType, name?: string): Promise<AssetSummary> =>
+  addAsset(await (await fetch(url)).blob(), type, name);
+
+export interface AssetQuery {
+  type?: AssetType | null;
+  // Matched against the name and tags.
+  search?: string;
+}
+
+// Most recently used first.
+export const listAssets = async (query: AssetQuery = {}): Promise<AssetSummary[]> => {
+  const needle = query.search?.trim().toLowerCase() ?? '';
+  return (await getSummaries())
+    .filter(summary => !query.type || summary.types.includes(query.type))
+    .filter(summary => !needle || summary.name.toLowerCase().includes(needle) || summary.tags.some(tag => tag.toLowerCase().includes(needle)))
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+export const countAssetsByType = async (): Promise<Record<AssetType, number>> => {
+  const counts: Record<AssetType, number> = { renderShot: 0, pattern: 0, material: 0 };
+  (await getSummaries()).forEach(summary => summary.types.forEach(type => { counts[type]++; }));
+  return counts;
+};
+
+// Loads the full image for display only, without marking it as used.
+export const getAssetBlob = async (id: string): Promise<Blob | undefined> => {
+  const db = await getDb();
+  return requestToPromise<Blob | undefined>(db.transaction(ASSET_STORE).objectStore(ASSET_STORE).get(id));
+};
+
+// Loads the full image and marks it as used.
+export const getAssetFile = async (id: string): Promise<File> => {
+  const db = await getDb();
+  const transaction = db.transaction([ASSET_STORE, SUMMARY_STORE], 'readwrite');
+  const [blob, summary] = await Promise.all([
+    requestToPromise<Blob | undefined>(transaction.objectStore(ASSET_STORE).get(id)),
+    requestToPromise<AssetSummary | undefined>(transaction.objectStore(SUMMARY_STORE).get(id)),
+  ]);
+  if (!blob || !summary) {
+    throw new Error("This image is no longer in the history.");
+  }
+  transaction.objectStore(SUMMARY_STORE).put({ ...summary, lastUsedAt: Date.now() });
+  await transactionDone(transaction);
+  const extension = summary.mimeType.split('/')[1]?.replace('jpeg', 'jpg') ?? 'png';
+  return new File([blob], `${summary.name}.${extension}`, { type: summary.mimeType });
+};
+
+export const updateAssetTags = async (id: string, tags: string[]): Promise<void> => {
+  const db = await getDb();
+  const transaction = db.transaction(SUMMARY_STORE, 'readwrite');
+  const store = transaction.objectStore(SUMMARY_STORE);
+  const summary = await requestToPromise<AssetSummary | undefined>(store.get(id));
+  if (summary) {
+    store.put({ ...summary, tags: [...new Set(tags.map(tag => tag.trim()).filter(Boolean))] });
+  }
+  await transactionDone(transaction);
+};
+
+// Object URLs for thumbnails, made once per asset and released when it is deleted.
+const thumbnailUrls = new Map<string, string>();
+
+export const getAssetThumbnailUrl = (summary: AssetSummary): string => {
+  let url = thumbnailUrls.get(summary.id);
+  if (!url) {
+    url = URL.createObjectURL(summary.thumbnail);
+    thumbnailUrls.set(summary.id, url);
+  }
+  return url;
+};
+
+export const deleteAssets = async (ids: string[]): Promise<void> => {
+  ids.forEach(id => {
+    const url = thumbnailUrls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    thumbnailUrls.delete(id);
+  });
+  const db = await getDb();
+  const transaction = db.transaction([ASSET_STORE, SUMMARY_STORE], 'readwrite');
+  ids.forEach(id => {
+    transaction.objectStore(ASSET_STORE).delete(id);
+    transaction.objectStore(SUMMARY_STORE).delete(id);
+  });
+  await transactionDone(transaction);
+};
+
+export const applyHistoryLimits = async (limits: HistoryLimits): Promise<void> => {
+  saveHistoryLimits(limits);
+  await enforceLimits(limits);
+};
+
+export const getHistoryUsage = async (): Promise<{ items: number; bytes: number }> => {
+  const summaries = await getSummaries();
+  return { items: summaries.length, bytes: summaries.reduce((sum, summary) => sum + summary.size, 0) };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { isRetryableError, runBatch, runVariation } from './batchRunner';
+
+describe('isRetryableError', () => {
+  it('retries rate limits, timeouts and server errors', () => {
+    expect(isRetryableError(Object.assign(new Error('Too many requests'), { status: 429 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Bad gateway'), { status: 502 }))).toBe(true);
+    expect(isRetryableError(new Error('RESOURCE_EXHAUSTED: quota exceeded'))).toBe(true);
+    expect(isRetryableError(new Error('Request timed out'))).toBe(true);
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+  });
+
+  it('does not retry requests that would fail again', () => {
+    expect(isRetryableError(Object.assign(new Error('Bad request'), { status: 400 }))).toBe(false);
+    expect(isRetryableError(new Error('The prompt was blocked by safety filters.'))).toBe(false);
+  });
+});
+
+describe('runVariation', () => {
+  it('retries a transient failure and returns the image', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('Service unavailable'), { status: 503 }))
+      .mockResolvedValueOnce({ imageUrl: 'data:image/png;base64,AA==' });
+    await expect(runVariation(task, { baseDelayMs: 1 })).resolves.toEqual({ status: 'success', imageUrl: 'data:image/png;base64,AA==' });
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops after maxRetries', async () => {
+    const task = vi.fn().mockRejectedValue(new Error('quota exceeded'));
+    await expect(runVariation(task, { maxRetries: 2, baseDelayMs: 1 })).resolves.toEqual({ status: 'error', reason: 'quota exceeded' });
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other errors', async () => {
+    const task = vi.fn().mockRejectedValue(new Error('Invalid image'));
+    await expect(runVariation(task, { baseDelayMs: 1 })).resolves.toEqual({ status: 'error', reason: 'Invalid image' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a response without an image', async () => {
+    await expect(runVariation(async () => ({ imageUrl: null }))).resolves.toMatchObject({ status: 'no-image' });
+  });
+
+  it('lets an abort reach the caller instead of retrying', async () => {
+    const controller = new AbortController();
+    const task = vi.fn(async () => {
+      controller.abort();
+      throw new DOMException('Aborted', 'AbortError');
+    });
+    await expect(runVariation(task, { signal: controller.signal, baseDelayMs: 1 })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('runBatch', () => {
+  it('keeps results in order and never runs more than the concurrency cap', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await runBatch(5, async index => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5 - index));
+      running--;
+      return { imageUrl: `image-${index}` };
+    }, { concurrency: 2 });
+    expect(peak).toBe(2);
+    expect(results.map(r => r.status === 'success' && r.imageUrl)).toEqual(['image-0', 'image-1', 'image-2', 'image-3', 'image-4']);
+  });
+});
@@ -0,0 +1,95 @@
+// services/batchRunner.ts
+// Runs a fixed number of generation tasks with a concurrency cap, retrying transient
+// and quota failures with exponential backoff, and reports an outcome per variation.
+import { isAbortError } from './generationProvider';
+import { sleep } from './sleep';
+
+export type VariationResult =
+  | { status: 'success'; imageUrl: string }
+  | { status: 'no-image'; reason: string }
+  | { status: 'error'; reason: string };
+
+export interface BatchOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  // Called as each variation starts and settles, so callers can stream results.
+  onStart?: (index: number) => void;
+  onResult?: (index: number, result: VariationResult) => void;
+}
+
+const DEFAULT_OPTIONS = {
+  concurrency: 2,
+  maxRetries: 2,
+  baseDelayMs: 1500,
+};
+
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+const RETRYABLE_MESSAGE_PATTERN = /RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|quota|rate limit|overloaded|timed? ?out|Failed to fetch|NetworkError/i;
+
+export const isRetryableError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number' && RETRYABLE_STATUS_CODES.includes(status)) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return RETRYABLE_MESSAGE_PATTERN.test(message);
+};
+
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  return "An unknown error occurred.";
+};
+
+export const runVariation = async (
+  task: () => Promise<{ imageUrl: string | null }>,
+  options: BatchOptions = {}
+): Promise<VariationResult> => {
+  const { maxRetries, baseDelayMs, signal } = { ...DEFAULT_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { imageUrl } = await task();
+      if (imageUrl) {
+        return { status: 'success', imageUrl };
+      }
+      return { status: 'no-image', reason: "The AI responded without an image for this variation." };
+    } catch (error) {
+      // A cancelled batch is not a failed variation: let the abort reach the caller.
+      if (signal?.aborted || isAbortError(error)) {
+        throw error;
+      }
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        return { status: 'error', reason: describeError(error) };
+      }
+      // Exponential backoff with a little jitter so parallel slots don't retry in lockstep.
+      const backoff = baseDelayMs * 2 ** attempt;
+      await sleep(backoff + Math.random() * baseDelayMs * 0.25, signal);
+    }
+  }
+};
+
+export const runBatch = async (
+  count: number,
+  task: (index: number) => Promise<{ imageUrl: string | null }>,
+  options: BatchOptions = {}
+): Promise<VariationResult[]> => {
+  const { concurrency, signal, onStart, onResult } = { ...DEFAULT_OPTIONS, ...options };
+  const results: VariationResult[] = new Array(count);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < count) {
+      signal?.throwIfAborted();
+      const index = next++;
+      onStart?.(index);
+      results[index] = await runVariation(() => task(index), options);
+      onResult?.(index, results[index]);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, count));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+};
@@ -0,0 +1,149 @@
+// services/catalogueSources.ts
+// Named catalogue roots (one per regional team, say): Google Drive folders with their own
+// access, or catalogues imported onto this device. Also records which one opens by default
+// for each kind of input. Stored in localStorage, except OAuth tokens, which live in memory
+// (see driveSignIn.ts).
+
+import { getDriveFileAsFile, getDriveThumbnailBlob, listFilesPage, loadFolderListing, searchFilesPage } from './googleDriveService';
+import type { DriveAuth, DriveFile, DriveFileFilters, DriveFilePage, DriveFolderListing } from './googleDriveService';
+import {
+  getLocalFileAsFile,
+  listLocalFilesPage,
+  loadLocalFolderListing,
+  searchLocalFilesPage,
+} from './localCatalogue';
+import { getSessionToken } from './driveSignIn';
+
+// 'shared' uses the app's configured API key; the others carry their own credential.
+export type CatalogueAuthType = 'shared' | 'apiKey' | 'oauth';
+
+export interface CatalogueSource {
+  id: string;
+  name: string;
+  // Missing on sources saved before local catalogues existed, which are all Drive.
+  kind?: 'drive' | 'local';
+  rootFolderId: string;
+  authType: CatalogueAuthType;
+  apiKey?: string;
+}
+
+// The kinds of input a catalogue pick can fill.
+export type CatalogueRole = 'renderShot' | 'pattern' | 'material';
+
+export const CATALOGUE_ROLES: { value: CatalogueRole; label: string }[] = [
+  { value: 'renderShot', label: 'Render shots' },
+  { value: 'pattern', label: 'Patterns' },
+  { value: 'material', label: 'Materials' },
+];
+
+export interface CatalogueSettings {
+  sources: CatalogueSource[];
+  // Source id to open for each role; falls back to the first source.
+  defaults: Partial<Record<CatalogueRole, string>>;
+}
+
+export const DEFAULT_CATALOGUE_SOURCE: CatalogueSource = {
+  id: 'bovali',
+  name: 'Bovali Catalogue',
+  rootFolderId: '1xMiHtJHZj5TB1q-68Bu0-AxwbW6AfElI',
+  authType: 'shared',
+};
+
+export const DEFAULT_CATALOGUE_SETTINGS: CatalogueSettings = {
+  sources: [DEFAULT_CATALOGUE_SOURCE],
+  defaults: {},
+};
+
+const STORAGE_KEY = 'bovaliCatalogueSources';
+
+export const getCatalogueSettings = (): CatalogueSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_CATALOGUE_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<CatalogueSettings>;
+    return {
+      sources: Array.isArray(parsed.sources) ? parsed.sources.map(withoutToken) : DEFAULT_CATALOGUE_SETTINGS.sources,
+      defaults: parsed.defaults ?? {},
+    };
+  } catch (error) {
+    console.error("Could not load catalogue sources from local storage", error);
+    return DEFAULT_CATALOGUE_SETTINGS;
+  }
+};
+
+// Earlier versions saved pasted OAuth tokens with the source; they are dropped on load and save.
+const withoutToken = (source: CatalogueSource & { accessToken?: string }): CatalogueSource => {
+  const { accessToken: _accessToken, ...rest } = source;
+  return rest;
+};
+
+export const saveCatalogueSettings = (settings: CatalogueSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...settings, sources: settings.sources.map(withoutToken) }));
+};
+
+export const createCatalogueSource = (): CatalogueSource => ({
+  id: `source_${Date.now().toString(36)}`,
+  name: 'New catalogue',
+  rootFolderId: '',
+  authType: 'shared',
+});
+
+export const getDefaultSource = (settings: CatalogueSettings, role: CatalogueRole): CatalogueSource | undefined =>
+  settings.sources.find(source => source.id === settings.defaults[role]) ?? settings.sources[0];
+
+export const getSourceAuth = (source: CatalogueSource): DriveAuth => {
+  switch (source.authType) {
+    case 'apiKey': return { apiKey: source.apiKey };
+    case 'oauth': return { accessToken: getSessionToken(source.id), requiresSignIn: true };
+    default: return {};
+  }
+};
+
+// Accepts a bare folder id or a Drive folder link.
+export const parseFolderId = (input: string): string => {
+  const trimmed = input.trim();
+  const match = trimmed.match(/\/folders\/([\w-]+)/) ?? trimmed.match(/[?&]id=([\w-]+)/);
+  return match ? match[1] : trimmed;
+};
+
+export const validateCatalogueSource = (source: CatalogueSource): string | null => {
+  if (!source.name.trim()) return "Give the source a name.";
+  if (source.kind === 'local') return null;
+  if (!source.rootFolderId.trim()) return "Enter the root folder ID or link.";
+  if (source.authType === 'apiKey' && !source.apiKey?.trim()) return "Enter the API key for this source.";
+  return null;
+};
+
+// The browsing calls DriveCatalogueModal needs, whichever backend holds the catalogue.
+export interface CatalogueBackend {
+  loadFolderListing: (
+    folderId: string,
+    filters: DriveFileFilters,
+    onListing: (listing: DriveFolderListing, isStale: boolean) => void
+  ) => Promise<void>;
+  listFilesPage: (folderId: string, options: { filters?: DriveFileFilters; pageToken?: string; signal?: AbortSignal }) => Promise<DriveFilePage>;
+  searchFilesPage: (rootFolderId: string, term: string, options: { filters?: DriveFileFilters; pageToken?: string; signal?: AbortSignal }) => Promise<DriveFilePage>;
+  getFileAsFile: (file: DriveFile) => Promise<File>;
+  // Only for backends whose thumbnail links need credentials; the others are used as-is.
+  getThumbnailBlob?: (file: DriveFile) => Promise<Blob>;
+}
+
+export const getCatalogueBackend = (source: CatalogueSource): CatalogueBackend => {
+  if (source.kind === 'local') {
+    return {
+      loadFolderListing: loadLocalFolderListing,
+      listFilesPage: listLocalFilesPage,
+      searchFilesPage: searchLocalFilesPage,
+      getFileAsFile: getLocalFileAsFile,
+    };
+  }
+  // Read per call, since a signed-in token expires while the catalogue is open.
+  const auth = () => getSourceAuth(source);
+  return {
+    loadFolderListing: (folderId, filters, onListing) => loadFolderListing(auth(), folderId, filters, onListing),
+    listFilesPage: (folderId, options) => listFilesPage(auth(), folderId, options),
+    searchFilesPage: (rootFolderId, term, options) => searchFilesPage(auth(), rootFolderId, term, options),
+    getFileAsFile: (file) => getDriveFileAsFile(auth(), file),
+    getThumbnailBlob: source.authType === 'oauth' ? (file) => getDriveThumbnailBlob(auth(), file) : undefined,
+  };
+};
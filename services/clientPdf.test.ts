@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { describeTileSize, pageSlots } from './clientPdf';
+import type { PdfDesign } from './clientPdf';
+import type { ProvenanceRecord, ProvenanceSettings } from './provenance';
+
+const record = (studio: ProvenanceRecord['studio'], settings: ProvenanceSettings, parent?: ProvenanceRecord): ProvenanceRecord => ({
+  format: 'bovali-provenance',
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  studio,
+  provider: 'gemini',
+  model: 'test-model',
+  settings,
+  inputs: [],
+  ...(parent && { parent }),
+});
+
+const design = (overrides: Partial<PdfDesign> = {}): PdfDesign => ({ imageUrl: '', products: [], note: '', ...overrides });
+
+describe('pageSlots', () => {
+  it('fills the page with one slot for the 1-up layout', () => {
+    const [slot, ...rest] = pageSlots('single');
+    expect(rest).toHaveLength(0);
+    expect(slot.x + slot.w).toBeCloseTo(297 - slot.x);
+  });
+
+  it('lays out 2-up side by side and the contact sheet four by two', () => {
+    const double = pageSlots('double');
+    expect(double).toHaveLength(2);
+    expect(double[0].y).toBe(double[1].y);
+    expect(double[1].x).toBeGreaterThan(double[0].x + double[0].w);
+
+    const sheet = pageSlots('contactSheet');
+    expect(sheet).toHaveLength(8);
+    expect(new Set(sheet.map(s => s.y)).size).toBe(2);
+    expect(sheet[4].x).toBe(sheet[0].x);
+  });
+
+  it('keeps every slot on the page', () => {
+    for (const slot of pageSlots('contactSheet')) {
+      expect(slot.x + slot.w).toBeLessThanOrEqual(297);
+      expect(slot.y + slot.h).toBeLessThanOrEqual(210);
+    }
+  });
+});
+
+describe('describeTileSize', () => {
+  it('lists the tile size of each surface', () => {
+    const provenance = record('generator', {
+      tileUnit: 'cm',
+      surfaces: [
+        { surfaceType: 'Floor', tileWidth: '60', tileHeight: '120' },
+        { surfaceType: 'Wall', tileWidth: '', tileHeight: '' },
+        { surfaceType: 'Splashback', tileWidth: '7.5', tileHeight: '30' },
+      ],
+    });
+    expect(describeTileSize(design({ provenance }))).toBe('Floor: 60 × 120 cm, Splashback: 7.5 × 30 cm');
+  });
+
+  it('uses the single tile size, or the extractor source size', () => {
+    expect(describeTileSize(design({ provenance: record('generator', { tileWidth: '12', tileHeight: '24', tileUnit: 'inches' }) })))
+      .toBe('12 × 24 inches');
+    expect(describeTileSize(design({ provenance: record('extractor', { sourceWidth: '30', sourceHeight: '30', sourceUnit: 'cm' }) })))
+      .toBe('30 × 30 cm');
+  });
+
+  it('describes a chat edit by the design it was made from', () => {
+    const parent = record('generator', { tileWidth: '60', tileHeight: '60', tileUnit: 'cm' });
+    expect(describeTileSize(design({ provenance: record('chat', { instruction: 'Warmer light' }, parent) }))).toBe('60 × 60 cm');
+  });
+
+  it('falls back to the nominal sizes of the products', () => {
+    const products = [{ nominalSize: '60x60 cm' }, { nominalSize: '60x60 cm' }, { nominalSize: '30x60 cm' }, { sku: 'BV-1' }];
+    expect(describeTileSize(design({ products }))).toBe('60x60 cm, 30x60 cm');
+    expect(describeTileSize(design())).toBeUndefined();
+  });
+});
@@ -0,0 +1,367 @@
+// services/clientPdf.ts
+// Builds the branded PDF that account managers send to clients: a cover page, then the
+// proposed designs with their before image, products, tile size and notes. Runs entirely in
+// the browser with jsPDF.
+
+import { getAssetFile } from './assetHistory';
+import { formatLayout } from './layingPatterns';
+import type { LayoutOptions } from './layingPatterns';
+import type { ProductMetadata } from './productMetadata';
+import type { ProvenanceRecord } from './provenance';
+import { JSPDF_URL, loadScript } from './scriptLoader';
+
+declare var jspdf: any;
+
+export type PdfLayout = 'single' | 'double' | 'contactSheet';
+
+export const PDF_LAYOUTS: { value: PdfLayout; label: string; description: string }[] = [
+  { value: 'single', label: '1-up', description: 'One design per page' },
+  { value: 'double', label: '2-up', description: 'Two designs per page' },
+  { value: 'contactSheet', label: 'Contact sheet', description: 'Eight designs per page, without before images' },
+];
+
+export interface PdfDesign {
+  imageUrl: string;
+  products: ProductMetadata[];
+  provenance?: ProvenanceRecord;
+  layout?: LayoutOptions | null;
+  note: string;
+}
+
+export interface PdfSettings {
+  preparedBy: string;
+  layout: PdfLayout;
+  includeBefore: boolean;
+}
+
+export interface PdfOptions extends PdfSettings {
+  title: string;
+  client: string;
+}
+
+const PDF_SETTINGS_KEY = 'bovaliPdfSettings';
+
+const DEFAULT_PDF_SETTINGS: PdfSettings = { preparedBy: '', layout: 'single', includeBefore: true };
+
+export const getPdfSettings = (): PdfSettings => {
+  try {
+    const saved = localStorage.getItem(PDF_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_PDF_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PDF_SETTINGS;
+  } catch (error) {
+    console.error("Could not load PDF settings from local storage", error);
+    return DEFAULT_PDF_SETTINGS;
+  }
+};
+
+export const savePdfSettings = (settings: PdfSettings) => {
+  localStorage.setItem(PDF_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// A4 landscape, in millimetres.
+const PAGE_WIDTH = 297;
+const PAGE_HEIGHT = 210;
+const MARGIN = 15;
+const HEADER_HEIGHT = 16;
+const FOOTER_HEIGHT = 10;
+const GAP = 6;
+
+const GREEN: [number, number, number] = [93, 93, 59];
+const BEIGE: [number, number, number] = [245, 243, 239];
+const DARK: [number, number, number] = [51, 51, 51];
+const GREY: [number, number, number] = [136, 136, 136];
+
+const LOGO_URL = new URL('../components/bovalilogo.png', import.meta.url).href;
+
+interface PdfImage {
+  dataUrl: string;
+  format: 'JPEG' | 'PNG';
+  width: number;
+  height: number;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Re-encodes the image at no more than maxSize pixels a side so a long document stays a
+// sensible size. The logo keeps its transparency as a PNG; photos become JPEGs.
+const loadPdfImage = async (url: string, maxSize: number, format: PdfImage['format'] = 'JPEG'): Promise<PdfImage> => {
+  const img = new Image();
+  img.src = url;
+  await img.decode();
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get a canvas to prepare the image.");
+  if (format === 'JPEG') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return {
+    dataUrl: format === 'JPEG' ? canvas.toDataURL('image/jpeg', 0.85) : canvas.toDataURL('image/png'),
+    format,
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
+
+// Edits are described by the record of the image they were made from.
+const designRecord = (record: ProvenanceRecord | undefined): ProvenanceRecord | undefined =>
+  record?.studio === 'chat' && record.parent ? designRecord(record.parent) : record;
+
+const BEFORE_ROLES: Record<ProvenanceRecord['studio'], string> = {
+  generator: 'renderShot',
+  extractor: 'source',
+  pattern: 'outline',
+  chat: 'source',
+};
+
+// The input the design was made from, found in the asset history by its hash.
+const loadBeforeImage = async (design: PdfDesign, maxSize: number): Promise<PdfImage | null> => {
+  const record = designRecord(design.provenance);
+  const input = record?.inputs.find(i => i.role === BEFORE_ROLES[record.studio] && i.surface === undefined);
+  if (!input) return null;
+  let url: string | null = null;
+  try {
+    url = URL.createObjectURL(await getAssetFile(input.sha256));
+    return await loadPdfImage(url, maxSize);
+  } catch {
+    return null;
+  } finally {
+    if (url) URL.revokeObjectURL(url);
+  }
+};
+
+const formatProduct = (product: ProductMetadata) =>
+  [product.sku, product.collection, product.finish, product.nominalSize].filter(Boolean).join(' · ');
+
+export const describeTileSize = (design: PdfDesign): string | undefined => {
+  const settings = designRecord(design.provenance)?.settings;
+  const unit = settings?.tileUnit ?? '';
+  const surfaces = settings?.surfaces?.filter(s => s.tileWidth && s.tileHeight) ?? [];
+  if (surfaces.length > 0) {
+    return surfaces.map(s => `${s.surfaceType}: ${s.tileWidth} × ${s.tileHeight} ${unit}`.trim()).join(', ');
+  }
+  if (settings?.tileWidth && settings.tileHeight) return `${settings.tileWidth} × ${settings.tileHeight} ${unit}`.trim();
+  if (settings?.sourceWidth && settings.sourceHeight) {
+    return `${settings.sourceWidth} × ${settings.sourceHeight} ${settings.sourceUnit ?? ''}`.trim();
+  }
+  const nominal = [...new Set(design.products.map(p => p.nominalSize).filter(Boolean))];
+  return nominal.length > 0 ? nominal.join(', ') : undefined;
+};
+
+const detailLines = (design: PdfDesign): { label: string; value: string }[] => {
+  const layout = design.layout ?? designRecord(design.provenance)?.layout;
+  const tileSize = describeTileSize(design);
+  return [
+    ...design.products.map(product => ({ label: 'Product', value: formatProduct(product) })).filter(line => line.value),
+    ...(tileSize ? [{ label: 'Tile size', value: tileSize }] : []),
+    ...(layout ? [{ label: 'Layout', value: formatLayout(layout) }] : []),
+  ];
+};
+
+// Draws the image as large as fits in the box, centred.
+const drawContained = (doc: any, image: PdfImage, box: Box) => {
+  const scale = Math.min(box.w / image.width, box.h / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  doc.addImage(image.dataUrl, image.format, box.x + (box.w - w) / 2, box.y + (box.h - h) / 2, w, h);
+};
+
+const drawLabel = (doc: any, text: string, x: number, y: number) => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(7);
+  doc.setTextColor(...GREY);
+  doc.text(text.toUpperCase(), x, y);
+};
+
+// Keeps at most `max` lines, marking the cut on the last one kept.
+const fitLines = (lines: string[], max: number): string[] => {
+  if (lines.length <= max) return lines;
+  if (max <= 0) return [];
+  return [...lines.slice(0, max - 1), `${lines[max - 1].replace(/\s*\S*$/, '')}...`];
+};
+
+// The image keeps at least this share of a slot, however much text a design has.
+const MIN_IMAGE_SHARE = 0.6;
+
+// One design in the given box: its title, the images, then products, tile size and notes.
+const drawDesign = (doc: any, design: PdfDesign, title: string, after: PdfImage, before: PdfImage | null, box: Box, compact: boolean) => {
+  const fontSize = compact ? 7 : 9;
+  const lineHeight = fontSize * 0.45;
+  const titleHeight = compact ? 5 : 8;
+  const available = box.h - titleHeight;
+  const maxTextLines = Math.max(0, Math.floor((available * (1 - MIN_IMAGE_SHARE) - 4) / lineHeight));
+  doc.setFontSize(fontSize);
+  doc.setFont('helvetica', 'normal');
+  const details = fitLines(detailLines(design).flatMap(({ label, value }) =>
+    doc.splitTextToSize(`${label}: ${value}`, box.w) as string[]), Math.min(compact ? 3 : 8, maxTextLines));
+  doc.setFont('helvetica', 'italic');
+  const noteLines = design.note.trim()
+    ? fitLines(doc.splitTextToSize(design.note.trim(), box.w) as string[], Math.min(compact ? 2 : 6, maxTextLines - details.length))
+    : [];
+  const textHeight = (details.length + noteLines.length) * lineHeight + (noteLines.length > 0 ? 2 : 0) + 2;
+  const imageBox: Box = { x: box.x, y: box.y + titleHeight, w: box.w, h: Math.max(available - textHeight, available * MIN_IMAGE_SHARE) };
+
+  doc.setFont('times', 'bold');
+  doc.setFontSize(compact ? 10 : 14);
+  doc.setTextColor(...DARK);
+  doc.text(title, box.x, box.y + titleHeight - 2.5);
+
+  if (before) {
+    const half = (imageBox.w - GAP) / 2;
+    const labelSpace = 4;
+    drawLabel(doc, 'Before', imageBox.x, imageBox.y + 2.5);
+    drawLabel(doc, 'After', imageBox.x + half + GAP, imageBox.y + 2.5);
+    drawContained(doc, before, { x: imageBox.x, y: imageBox.y + labelSpace, w: half, h: imageBox.h - labelSpace });
+    drawContained(doc, after, { x: imageBox.x + half + GAP, y: imageBox.y + labelSpace, w: half, h: imageBox.h - labelSpace });
+  } else {
+    drawContained(doc, after, imageBox);
+  }
+
+  let y = imageBox.y + imageBox.h + 2 + lineHeight;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(fontSize);
+  doc.setTextColor(...DARK);
+  details.forEach(line => {
+    doc.text(line, box.x, y);
+    y += lineHeight;
+  });
+  if (noteLines.length > 0) {
+    y += 2;
+    doc.setFont('helvetica', 'italic');
+    doc.setTextColor(...GREY);
+    noteLines.forEach(line => {
+      doc.text(line, box.x, y);
+      y += lineHeight;
+    });
+  }
+};
+
+const drawCover = (doc: any, logo: PdfImage, options: PdfOptions, designCount: number) => {
+  doc.setFillColor(...BEIGE);
+  doc.rect(0, 0, PAGE_WIDTH, PAGE_HEIGHT, 'F');
+  doc.setFillColor(...GREEN);
+  doc.rect(0, PAGE_HEIGHT - 12, PAGE_WIDTH, 12, 'F');
+
+  const logoWidth = 90;
+  const logoHeight = logoWidth * logo.height / logo.width;
+  doc.addImage(logo.dataUrl, logo.format, (PAGE_WIDTH - logoWidth) / 2, 38, logoWidth, logoHeight);
+
+  let y = 38 + logoHeight + 24;
+  doc.setFont('times', 'normal');
+  doc.setFontSize(30);
+  doc.setTextColor(...DARK);
+  doc.text(options.title || 'Design Proposal', PAGE_WIDTH / 2, y, { align: 'center', maxWidth: PAGE_WIDTH - 2 * MARGIN });
+  y += 6;
+  doc.setDrawColor(...GREEN);
+  doc.setLineWidth(0.5);
+  doc.line(PAGE_WIDTH / 2 - 30, y, PAGE_WIDTH / 2 + 30, y);
+
+  y += 12;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(13);
+  if (options.client) {
+    doc.text(`Prepared for ${options.client}`, PAGE_WIDTH / 2, y, { align: 'center' });
+    y += 8;
+  }
+  doc.setFontSize(10);
+  doc.setTextColor(...GREY);
+  const date = new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+  doc.text([date, `${designCount} design${designCount === 1 ? '' : 's'}`].join(' · '), PAGE_WIDTH / 2, y, { align: 'center' });
+  if (options.preparedBy) {
+    doc.text(`Prepared by ${options.preparedBy}`, PAGE_WIDTH / 2, y + 6, { align: 'center' });
+  }
+};
+
+// The logo and title at the top of every design page, and page numbers once all pages exist.
+const drawPageHeader = (doc: any, logo: PdfImage, options: PdfOptions) => {
+  const logoHeight = 8;
+  doc.addImage(logo.dataUrl, logo.format, MARGIN, MARGIN - 6, logoHeight * logo.width / logo.height, logoHeight);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...GREY);
+  doc.text(options.title || 'Design Proposal', PAGE_WIDTH - MARGIN, MARGIN - 0.5, { align: 'right' });
+  doc.setDrawColor(...BEIGE);
+  doc.setLineWidth(0.4);
+  doc.line(MARGIN, MARGIN + 3, PAGE_WIDTH - MARGIN, MARGIN + 3);
+};
+
+const drawPageFooters = (doc: any, options: PdfOptions) => {
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...GREY);
+    if (options.client) doc.text(options.client, MARGIN, PAGE_HEIGHT - MARGIN + 5);
+    doc.text(`${page - 1} / ${pageCount - 1}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN + 5, { align: 'right' });
+  }
+};
+
+// The boxes designs are drawn into on each page, left to right then top to bottom.
+export const pageSlots = (layout: PdfLayout): Box[] => {
+  const top = MARGIN + HEADER_HEIGHT - 6;
+  const w = PAGE_WIDTH - 2 * MARGIN;
+  const h = PAGE_HEIGHT - top - MARGIN - FOOTER_HEIGHT + 4;
+  if (layout === 'single') return [{ x: MARGIN, y: top, w, h }];
+  const columns = layout === 'double' ? 2 : 4;
+  const rows = layout === 'double' ? 1 : 2;
+  const slotW = (w - GAP * (columns - 1)) / columns;
+  const slotH = (h - GAP * (rows - 1)) / rows;
+  const slots: Box[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      slots.push({ x: MARGIN + column * (slotW + GAP), y: top + row * (slotH + GAP), w: slotW, h: slotH });
+    }
+  }
+  return slots;
+};
+
+export const buildClientPdf = async (
+  designs: PdfDesign[],
+  options: PdfOptions,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+  try {
+    await loadScript(JSPDF_URL);
+  } catch {
+    throw new Error("The PDF library could not be loaded. Check your connection and try again.");
+  }
+  const doc = new jspdf.jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const logo = await loadPdfImage(LOGO_URL, 1200, 'PNG');
+  drawCover(doc, logo, options, designs.length);
+
+  const slots = pageSlots(options.layout);
+  const compact = options.layout === 'contactSheet';
+  const maxSize = options.layout === 'single' ? 2400 : compact ? 900 : 1600;
+  const withBefore = options.includeBefore && !compact;
+  for (let index = 0; index < designs.length; index++) {
+    const slot = index % slots.length;
+    if (slot === 0) {
+      doc.addPage();
+      drawPageHeader(doc, logo, options);
+    }
+    const design = designs[index];
+    const [after, before] = await Promise.all([
+      loadPdfImage(design.imageUrl, maxSize),
+      withBefore ? loadBeforeImage(design, maxSize) : Promise.resolve(null),
+    ]);
+    drawDesign(doc, design, `Design ${index + 1}`, after, before, slots[slot], compact);
+    onProgress?.(index + 1, designs.length);
+  }
+  drawPageFooters(doc, options);
+  return doc.output('blob');
+};
+
+// e.g. "Bovali_Smith-Kitchen_2026-10-19.pdf".
+export const clientPdfFilename = (options: PdfOptions): string => {
+  const name = (options.client || options.title).trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
+  return ['Bovali', name, new Date().toISOString().slice(0, 10)].filter(Boolean).join('_') + '.pdf';
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { csvCell, toCsv } from './csv';
+
+describe('csvCell', () => {
+  it('leaves plain text and numbers unquoted', () => {
+    expect(csvCell('Herringbone')).toBe('Herringbone');
+    expect(csvCell(-12.5)).toBe('-12.5');
+  });
+
+  it('quotes text with commas, quotes or line breaks', () => {
+    expect(csvCell('Kitchen, floor')).toBe('"Kitchen, floor"');
+    expect(csvCell('12" tile')).toBe('"12"" tile"');
+    expect(csvCell('a\nb')).toBe('"a\nb"');
+  });
+
+  it('prefixes text a spreadsheet would run as a formula', () => {
+    expect(csvCell('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+    expect(csvCell('+1')).toBe(`"'+1"`);
+    expect(csvCell('-1')).toBe(`"'-1"`);
+    expect(csvCell('@SUM(A1)')).toBe(`"'@SUM(A1)"`);
+  });
+});
+
+describe('toCsv', () => {
+  it('joins cells with commas and rows with new lines', () => {
+    expect(toCsv([['SKU', 'Price'], ['BV-1001', 12]])).toBe('SKU,Price\nBV-1001,12');
+  });
+});
@@ -0,0 +1,14 @@
+// services/csv.ts
+// CSV cells for the estimate and product exports. Text that a spreadsheet would read as a
+// formula is prefixed with an apostrophe, so an exported file cannot run one when opened.
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export const csvCell = (value: string | number): string => {
+  if (typeof value === 'number') return String(value);
+  const isFormula = FORMULA_START.test(value);
+  const text = isFormula ? `'${value}` : value;
+  return isFormula || /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]): string => rows.map(row => row.map(csvCell).join(',')).join('\n');
@@ -0,0 +1,77 @@
+// services/driveCache.ts
+// In-memory stale-while-revalidate cache for catalogue listings: a cached value is shown
+// straight away and quietly refreshed in the background once it is older than `maxAge`.
+
+interface CacheEntry {
+  value: unknown;
+  fetchedAt: number;
+}
+
+const DEFAULT_MAX_AGE_MS = 60 * 1000;
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+const fetchOnce = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+  const request = fetcher()
+    .then(value => {
+      entries.set(key, { value, fetchedAt: Date.now() });
+      return value;
+    })
+    .finally(() => inFlight.delete(key));
+  inFlight.set(key, request);
+  return request;
+};
+
+// Calls `onValue` with the cached value (if any), then again with the fetched value if it
+// differs. Resolves once the value is fresh. A failed refresh of a cached value is logged
+// rather than thrown, so the stale listing stays usable offline.
+export const swrFetch = async <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  onValue: (value: T, isStale: boolean) => void,
+  maxAge = DEFAULT_MAX_AGE_MS
+): Promise<void> => {
+  const cached = entries.get(key);
+  const isStale = !cached || Date.now() - cached.fetchedAt > maxAge;
+  if (cached) onValue(cached.value as T, isStale);
+  if (!isStale) return;
+  try {
+    const fresh = await fetchOnce(key, fetcher);
+    if (!cached || JSON.stringify(fresh) !== JSON.stringify(cached.value)) {
+      onValue(fresh, false);
+    }
+  } catch (err) {
+    if (!cached) throw err;
+    console.warn(`Could not refresh cached listing "${key}":`, err);
+  }
+};
+
+// Returns the cached value while it is fresh, otherwise fetches (sharing any request in flight).
+export const cachedFetch = <T>(key: string, fetcher: () => Promise<T>, maxAge = DEFAULT_MAX_AGE_MS): Promise<T> => {
+  const cached = entries.get(key);
+  if (cached && Date.now() - cached.fetchedAt <= maxAge) {
+    return Promise.resolve(cached.value as T);
+  }
+  return fetchOnce(key, fetcher);
+};
+
+// Settles with the shared promise unless the caller's signal aborts first. Shared work is
+// never given a caller's signal, since one caller giving up must not fail the others.
+export const raceSignal = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new DOMException('The request was cancelled.', 'AbortError'));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('The request was cancelled.', 'AbortError'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+export const invalidateCache = (prefix = '') => {
+  for (const key of entries.keys()) {
+    if (key.startsWith(prefix)) entries.delete(key);
+  }
+};
@@ -0,0 +1,94 @@
+// services/driveSignIn.ts
+// Google sign-in for OAuth catalogue sources. Access tokens come from the Google Identity
+// Services token client and are kept in memory only: they are never written to storage, and
+// each lasts about an hour before the user is asked to sign in again.
+
+import { loadScript } from './scriptLoader';
+
+declare var google: any;
+
+const GIS_URL = 'https://accounts.google.com/gsi/client';
+const CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
+// Read and write access to the catalogue folders; files the app creates stay editable by it.
+const DRIVE_SCOPE = 'https://www.googleapis.com/auth/drive';
+// Tokens are treated as expired a little early, so a request never starts on one about to lapse.
+const EXPIRY_MARGIN_MS = 60 * 1000;
+// Pasted tokens carry no expiry; Google issues them for an hour.
+const PASTED_TOKEN_LIFETIME_S = 55 * 60;
+
+interface SessionToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+const tokens = new Map<string, SessionToken>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Calls `listener` whenever a source signs in or out; returns the unsubscribe function.
+export const subscribeToSignIn = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const isGoogleSignInConfigured = () => !!CLIENT_ID;
+
+export const getSessionToken = (sourceId: string): string | undefined => {
+  const session = tokens.get(sourceId);
+  if (!session) return undefined;
+  if (Date.now() >= session.expiresAt - EXPIRY_MARGIN_MS) {
+    tokens.delete(sourceId);
+    return undefined;
+  }
+  return session.accessToken;
+};
+
+// Milliseconds until the source's token lapses, or 0 when it is signed out.
+export const getSessionTimeLeft = (sourceId: string): number =>
+  getSessionToken(sourceId) ? tokens.get(sourceId)!.expiresAt - EXPIRY_MARGIN_MS - Date.now() : 0;
+
+export const setSessionToken = (sourceId: string, accessToken: string, expiresInSeconds = PASTED_TOKEN_LIFETIME_S) => {
+  tokens.set(sourceId, { accessToken, expiresAt: Date.now() + expiresInSeconds * 1000 });
+  notify();
+};
+
+export const signOutSource = (sourceId: string) => {
+  if (tokens.delete(sourceId)) notify();
+};
+
+// Drops a token Drive has rejected, whichever source it belonged to.
+export const forgetAccessToken = (accessToken: string) => {
+  let changed = false;
+  for (const [sourceId, session] of tokens) {
+    if (session.accessToken === accessToken) changed = tokens.delete(sourceId);
+  }
+  if (changed) notify();
+};
+
+// Opens Google's consent popup and keeps the token for the source. Must be called from a
+// click handler, or the browser blocks the popup.
+export const signInSource = async (sourceId: string): Promise<string> => {
+  if (!CLIENT_ID) {
+    throw new Error("Google sign-in is not configured. Set GOOGLE_CLIENT_ID, or paste an access token for this source.");
+  }
+  await loadScript(GIS_URL);
+  return new Promise<string>((resolve, reject) => {
+    const client = google.accounts.oauth2.initTokenClient({
+      client_id: CLIENT_ID,
+      scope: DRIVE_SCOPE,
+      callback: (response: { access_token?: string; expires_in?: number; error?: string; error_description?: string }) => {
+        if (!response.access_token) {
+          reject(new Error(response.error_description || response.error || "Google sign-in failed."));
+          return;
+        }
+        setSessionToken(sourceId, response.access_token, Number(response.expires_in) || PASTED_TOKEN_LIFETIME_S);
+        resolve(response.access_token);
+      },
+      error_callback: (error: { type?: string; message?: string }) => {
+        reject(new Error(error.type === 'popup_closed' ? "Google sign-in was closed before it finished." : error.message || "Google sign-in failed."));
+      },
+    });
+    client.requestAccessToken();
+  });
+};
@@ -0,0 +1,137 @@
+// services/exportStore.ts
+// The export gallery's images, kept as blobs in IndexedDB rather than as data URLs in
+// localStorage, which filled its ~5 MB quota after a handful of images.
+
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import type { ProjectOutputDetails } from './projectFile';
+
+// The products, estimate, layout, template and provenance recorded for the image are kept
+// with it, so the gallery's file names, CSVs and client PDF still have them after a reload.
+interface StoredExport extends ProjectOutputDetails {
+  id: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+export interface ExportEntry extends ProjectOutputDetails {
+  id: string;
+  // The URL the image is shown and keyed by: the original URL for images exported this
+  // session, an object URL for ones loaded from the store.
+  url: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+// Above this share of the browser's quota the gallery warns before exports start failing.
+export const NEAR_QUOTA_RATIO = 0.8;
+
+const DB_NAME = 'bovaliExports';
+const DB_VERSION = 1;
+const STORE = 'exports';
+const LEGACY_STORAGE_KEY = 'bovaliExportedImages';
+
+const getDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+  db.createObjectStore(STORE, { keyPath: 'id' });
+});
+
+const createId = () => `export_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const toEntry = ({ blob, ...record }: StoredExport, url: string): ExportEntry => ({
+  ...record,
+  url,
+  mimeType: blob.type || 'image/png',
+  size: blob.size,
+});
+
+const putRecords = async (records: StoredExport[]) => {
+  const db = await getDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  records.forEach(record => transaction.objectStore(STORE).put(record));
+  await transactionDone(transaction);
+};
+
+// Moves images saved by earlier versions out of localStorage. The key is only removed once
+// they are safely stored, so a failed migration is retried next time.
+const runLegacyMigration = async () => {
+  let urls: string[];
+  try {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return;
+    urls = JSON.parse(raw);
+  } catch (error) {
+    console.error("Could not load exported images from local storage", error);
+    return;
+  }
+  if (Array.isArray(urls) && urls.length > 0) {
+    const now = Date.now();
+    // The old list was newest first; keep that order through the timestamps.
+    const records = await Promise.all(urls.map(async (url, index) => ({
+      id: createId(),
+      blob: await (await fetch(url)).blob(),
+      createdAt: now - index,
+    })));
+    await putRecords(records);
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+let legacyMigration: Promise<void> | null = null;
+
+// Loads that overlap (StrictMode mounts effects twice) share one migration, so the legacy
+// images aren't stored twice under different ids.
+const migrateLegacyExports = () => {
+  legacyMigration ??= runLegacyMigration().catch(error => {
+    legacyMigration = null;
+    throw error;
+  });
+  return legacyMigration;
+};
+
+// Newest first.
+export const loadExports = async (): Promise<ExportEntry[]> => {
+  await migrateLegacyExports();
+  const db = await getDb();
+  const records = await requestToPromise<StoredExport[]>(db.transaction(STORE).objectStore(STORE).getAll());
+  return records
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(record => toEntry(record, URL.createObjectURL(record.blob)));
+};
+
+export const saveExport = async (url: string, details: ProjectOutputDetails = {}): Promise<ExportEntry> => {
+  const record: StoredExport = { ...details, id: createId(), blob: await (await fetch(url)).blob(), createdAt: Date.now() };
+  await putRecords([record]);
+  return toEntry(record, url);
+};
+
+// For details added after the image was exported, such as an estimate attached later.
+export const updateExportDetails = async (id: string, details: ProjectOutputDetails): Promise<void> => {
+  const db = await getDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  const record = await requestToPromise<StoredExport | undefined>(store.get(id));
+  if (record) store.put({ ...record, ...details });
+  await transactionDone(transaction);
+};
+
+export const deleteExports = async (ids: string[]): Promise<void> => {
+  const db = await getDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  ids.forEach(id => transaction.objectStore(STORE).delete(id));
+  await transactionDone(transaction);
+};
+
+// The browser's figures for everything this origin stores, or null where unsupported.
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota ? { usage, quota } : null;
+};
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
@@ -0,0 +1,89 @@
+// services/geminiProvider.ts
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { GenerateContentResponse } from "@google/genai";
+import type { GenerationProvider, ImageInput, GenerateImageOptions, RequestOptions } from './generationProvider';
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+const CHAT_MODEL = 'gemini-2.5-flash';
+
+const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+const readResponse = (response: GenerateContentResponse): { imageUrl: string | null; text: string | null } => {
+    let imageUrl: string | null = null;
+    let text: string | null = null;
+
+    if (response.candidates && response.candidates[0]?.content?.parts) {
+        for (const part of response.candidates[0].content.parts) {
+            if (part.inlineData && !imageUrl) {
+                imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+            } else if (part.text) {
+                text = part.text;
+            }
+        }
+    }
+    return { imageUrl, text };
+};
+
+export const createGeminiProvider = (): GenerationProvider => {
+    if (!process.env.API_KEY) {
+        throw new Error("API_KEY environment variable not set");
+    }
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    const generate = async (parts: object[], signal?: AbortSignal) => {
+        signal?.throwIfAborted();
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model: IMAGE_MODEL,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: signal,
+            },
+        });
+        // The SDK may still resolve if the abort lands after the response arrived.
+        signal?.throwIfAborted();
+        return readResponse(response);
+    };
+
+    return {
+        id: 'gemini',
+        label: 'Google Gemini',
+        imageModel: IMAGE_MODEL,
+
+        generateImage: async (prompt: string, images: ImageInput[], options?: GenerateImageOptions) => {
+            const imageParts = await Promise.all(
+                images.map(async (image) => ({
+                    inlineData: {
+                        data: await fileToBase64(image.file),
+                        mimeType: image.file.type,
+                    },
+                }))
+            );
+            return generate([...imageParts, { text: prompt }], options?.signal);
+        },
+
+        editImage: async (base64Image: string, mimeType: string, prompt: string, options?: RequestOptions) => {
+            return generate([
+                { inlineData: { data: base64Image, mimeType } },
+                { text: prompt },
+            ], options?.signal);
+        },
+
+        createChat: (systemInstruction: string) => {
+            return ai.chats.create({
+                model: CHAT_MODEL,
+                config: { systemInstruction },
+            });
+        },
+    };
+};
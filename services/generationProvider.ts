@@ -0,0 +1,99 @@
+// services/generationProvider.ts
+// The contract every image-generation backend implements, plus the registry the
+// studio services use to pick the active one.
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalProvider } from './localProvider';
+
+export interface ImageInput {
+    file: File;
+    // Lets providers treat auxiliary inputs, such as a surface mask, differently from content images.
+    role?: 'mask';
+}
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+}
+
+export interface GenerateImageOptions extends RequestOptions {
+    // Distinguishes otherwise identical requests, e.g. variations in a batch.
+    seed?: number;
+}
+
+export interface ChatSession {
+    sendMessage(params: { message: string }): Promise<{ text?: string }>;
+}
+
+export interface GenerationProvider {
+    id: string;
+    label: string;
+    imageModel: string;
+    generateImage(
+        prompt: string,
+        images: ImageInput[],
+        options?: GenerateImageOptions
+    ): Promise<{ imageUrl: string | null; text: string | null }>;
+    editImage(
+        base64Image: string,
+        mimeType: string,
+        prompt: string,
+        options?: RequestOptions
+    ): Promise<{ imageUrl: string | null; text: string | null }>;
+    createChat(systemInstruction: string): ChatSession;
+}
+
+export const isAbortError = (error: unknown): boolean => {
+    return (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+};
+
+type ProviderFactory = () => GenerationProvider;
+
+const factories = new Map<string, ProviderFactory>([
+    ['gemini', createGeminiProvider],
+    ['local', createLocalProvider],
+]);
+const instances = new Map<string, GenerationProvider>();
+let activeProviderId: string | null = null;
+
+export const registerProvider = (id: string, factory: ProviderFactory) => {
+    factories.set(id, factory);
+    instances.delete(id);
+};
+
+export const listProviderIds = (): string[] => [...factories.keys()];
+
+export const setActiveProvider = (id: string) => {
+    if (!factories.has(id)) {
+        throw new Error(`Unknown generation provider: "${id}"`);
+    }
+    activeProviderId = id;
+};
+
+export const getActiveProviderId = (): string => {
+    if (activeProviderId) return activeProviderId;
+    // Fall back to the offline stand-in when no key is configured so the studios stay usable.
+    const requested = process.env.IMAGE_PROVIDER;
+    if (requested && factories.has(requested)) return requested;
+    return process.env.API_KEY ? 'gemini' : 'local';
+};
+
+// Explains why generations are placeholders, or null when a real backend is active.
+export const getOfflineNotice = (): string | null => {
+    if (getActiveProviderId() !== 'local') return null;
+    return process.env.API_KEY
+        ? "Offline demo mode: the local provider is selected, so generations are placeholder previews."
+        : "Offline demo mode: no API key is configured, so generations are local placeholder previews.";
+};
+
+export const getProvider = (): GenerationProvider => {
+    const id = getActiveProviderId();
+    let provider = instances.get(id);
+    if (!provider) {
+        const factory = factories.get(id);
+        if (!factory) {
+            throw new Error(`Generation provider "${id}" is not registered.`);
+        }
+        provider = factory();
+        instances.set(id, provider);
+    }
+    return provider;
+};
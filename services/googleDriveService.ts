@@ -1,16 +1,79 @@
 // services/googleDriveService.ts
+import {
+  findSidecarProduct,
+  mergeProducts,
+  normaliseProduct,
+  parseProductDescription,
+  parseProductSidecar,
+  PRODUCT_SIDECAR_NAME,
+  ProductMetadata,
+} from './productMetadata';
+import { cachedFetch, invalidateCache, raceSignal, swrFetch } from './driveCache';
+import { forgetAccessToken } from './driveSignIn';
+
 const API_KEY = process.env.API_KEY;
 const API_BASE_URL = 'https://www.googleapis.com/drive/v3';
 
-if (!API_KEY) {
-  throw new Error("Google API Key is not configured in the environment.");
+// Credentials for one catalogue source. An OAuth token wins over an API key; with neither,
+// the app's configured key is used.
+export interface DriveAuth {
+  apiKey?: string;
+  accessToken?: string;
+  // Set for OAuth sources, so a missing or expired token asks for sign-in rather than
+  // falling back to the app's key.
+  requiresSignIn?: boolean;
+}
+
+export const SIGN_IN_REQUIRED_MESSAGE = "Your Google sign-in for this catalogue has expired or is missing. Sign in again under Catalogue Sources.";
+
+// A 401 means the token has lapsed or been revoked; it is dropped so the UI asks for sign-in.
+function checkSignedIn(auth: DriveAuth, status: number) {
+  if (status === 401 && auth.accessToken) {
+    forgetAccessToken(auth.accessToken);
+    throw new Error(SIGN_IN_REQUIRED_MESSAGE);
+  }
+}
+
+// Checked per request rather than at import, so the app still loads without a key.
+async function driveFetch(auth: DriveAuth, path: string, params: Record<string, string>, signal?: AbortSignal): Promise<Response> {
+  const search = new URLSearchParams(params);
+  const headers: Record<string, string> = {};
+  if (auth.accessToken) {
+    headers.Authorization = `Bearer ${auth.accessToken}`;
+  } else if (auth.requiresSignIn) {
+    throw new Error(SIGN_IN_REQUIRED_MESSAGE);
+  } else {
+    const apiKey = auth.apiKey || API_KEY;
+    if (!apiKey) {
+      throw new Error("No Google API key or OAuth token is configured for this catalogue source.");
+    }
+    search.set('key', apiKey);
+  }
+  const response = await fetch(`${API_BASE_URL}${path}?${search}`, { headers, signal });
+  checkSignedIn(auth, response.status);
+  return response;
 }
 
+// Cache keys are scoped per credential, since different credentials may see different files.
+const authScope = (auth: DriveAuth) => {
+  const credential = auth.accessToken ?? auth.apiKey ?? '';
+  let hash = 0;
+  for (let i = 0; i < credential.length; i++) hash = (hash * 31 + credential.charCodeAt(i)) | 0;
+  return credential ? (hash >>> 0).toString(36) : 'shared';
+};
+
 export interface DriveFile {
   id: string;
   name: string;
   thumbnailLink: string;
   mimeType: string;
+  description?: string;
+  properties?: Record<string, string>;
+  appProperties?: Record<string, string>;
+  modifiedTime?: string;
+  parents?: string[];
+  // Merged from the folder sidecar, the description and the file properties, in that order.
+  product?: ProductMetadata;
 }
 
 export interface DriveFolder {
@@ -35,30 +98,195 @@ async function handleDriveApiResponse(response: Response) {
     return response.json();
 }
 
-export async function listFolders(parentFolderId: string): Promise<DriveFolder[]> {
-  const query = encodeURIComponent(`'${parentFolderId}' in parents and mimeType = 'application/vnd.google-apps.folder' and trashed = false`);
-  const fields = 'files(id, name)';
-  const url = `${API_BASE_URL}/files?q=${query}&fields=${fields}&orderBy=name&key=${API_KEY}`;
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+export const CATALOGUE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const FILE_FIELDS = 'id, name, thumbnailLink, mimeType, description, properties, appProperties, modifiedTime, parents';
+const FILE_PAGE_SIZE = 60;
+// Parents per search query; Drive rejects very long `q` strings.
+const SEARCH_PARENTS_PER_QUERY = 20;
 
-  const response = await fetch(url);
-  const data = await handleDriveApiResponse(response);
-  return data.files as DriveFolder[];
+export interface DriveFileFilters {
+  // Subset of CATALOGUE_IMAGE_TYPES; empty or missing means all of them.
+  mimeTypes?: string[];
+  // RFC 3339 timestamp; only files modified after it are listed.
+  modifiedAfter?: string;
 }
 
+export interface DriveFilePage {
+  files: DriveFile[];
+  nextPageToken?: string;
+}
 
-export async function listFiles(parentFolderId: string): Promise<DriveFile[]> {
-  const query = encodeURIComponent(`'${parentFolderId}' in parents and (mimeType='image/jpeg' or mimeType='image/png' or mimeType='image/webp') and trashed = false`);
-  const fields = 'files(id, name, thumbnailLink, mimeType)';
-  const url = `${API_BASE_URL}/files?q=${query}&fields=${fields}&orderBy=name&key=${API_KEY}`;
-  
-  const response = await fetch(url);
-  const data = await handleDriveApiResponse(response);
-  return data.files as DriveFile[];
+// Quotes a value for use inside a Drive `q` string.
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const fileFilterClauses = (filters: DriveFileFilters = {}) => {
+  const mimeTypes = filters.mimeTypes?.length ? filters.mimeTypes : CATALOGUE_IMAGE_TYPES;
+  const clauses = [`(${mimeTypes.map(type => `mimeType = ${quote(type)}`).join(' or ')})`, 'trashed = false'];
+  if (filters.modifiedAfter) clauses.push(`modifiedTime > ${quote(filters.modifiedAfter)}`);
+  return clauses;
+};
+
+const filtersKey = (filters: DriveFileFilters = {}) => `${(filters.mimeTypes ?? []).join('|')}:${filters.modifiedAfter ?? ''}`;
+
+async function queryFiles(auth: DriveAuth, query: string, fields: string, options: { pageToken?: string; pageSize?: number; signal?: AbortSignal } = {}) {
+  const params: Record<string, string> = {
+    q: query,
+    fields,
+    orderBy: 'name',
+    pageSize: String(options.pageSize ?? FILE_PAGE_SIZE),
+  };
+  if (options.pageToken) params.pageToken = options.pageToken;
+  const response = await driveFetch(auth, '/files', params, options.signal);
+  return handleDriveApiResponse(response);
+}
+
+// Folders are few enough to list in full, following every page.
+export async function listFolders(auth: DriveAuth, parentFolderId: string, signal?: AbortSignal): Promise<DriveFolder[]> {
+  const query = `${quote(parentFolderId)} in parents and mimeType = ${quote(FOLDER_MIME_TYPE)} and trashed = false`;
+  const folders: DriveFolder[] = [];
+  let pageToken: string | undefined;
+  do {
+    const data = await queryFiles(auth, query, 'nextPageToken, files(id, name)', { pageToken, pageSize: 1000, signal });
+    folders.push(...data.files);
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+  return folders;
+}
+
+// One page of a folder's images. Pass the previous page's `nextPageToken` to continue.
+export async function listFilesPage(
+  auth: DriveAuth,
+  parentFolderId: string,
+  options: { filters?: DriveFileFilters; pageToken?: string; signal?: AbortSignal } = {}
+): Promise<DriveFilePage> {
+  const query = [`${quote(parentFolderId)} in parents`, ...fileFilterClauses(options.filters)].join(' and ');
+  const data = await queryFiles(auth, query, `nextPageToken, files(${FILE_FIELDS})`, options);
+  return { files: await withProducts(auth, data.files), nextPageToken: data.nextPageToken };
+}
+
+export async function listFiles(auth: DriveAuth, parentFolderId: string, filters?: DriveFileFilters): Promise<DriveFile[]> {
+  const files: DriveFile[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await listFilesPage(auth, parentFolderId, { filters, pageToken });
+    files.push(...page.files);
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return files;
+}
+
+export interface DriveFolderListing {
+  folders: DriveFolder[];
+  files: DriveFile[];
+  nextPageToken?: string;
+}
+
+// A folder's subfolders and first page of images, served from the in-memory cache when
+// possible. `onListing` may be called twice: with the cached listing, then the fresh one.
+export function loadFolderListing(
+  auth: DriveAuth,
+  folderId: string,
+  filters: DriveFileFilters,
+  onListing: (listing: DriveFolderListing, isStale: boolean) => void
+): Promise<void> {
+  const scope = authScope(auth);
+  return swrFetch(`listing:${scope}:${folderId}:${filtersKey(filters)}`, async () => {
+    const [folders, page] = await Promise.all([
+      cachedFetch(`folders:${scope}:${folderId}`, () => listFolders(auth, folderId)),
+      listFilesPage(auth, folderId, { filters }),
+    ]);
+    return { folders, ...page };
+  }, onListing);
+}
+
+// Every folder below the root, collected breadth-first. Cached, so repeat searches only walk
+// the tree once. The walk is shared by every search that needs it, so it runs without a
+// signal; an aborted search just stops waiting for it.
+async function listDescendantFolderIds(auth: DriveAuth, rootFolderId: string, signal?: AbortSignal): Promise<string[]> {
+  const scope = authScope(auth);
+  const walk = cachedFetch(`tree:${scope}:${rootFolderId}`, async () => {
+    const ids = [rootFolderId];
+    for (let i = 0; i < ids.length; i++) {
+      const folders = await cachedFetch(`folders:${scope}:${ids[i]}`, () => listFolders(auth, ids[i]));
+      ids.push(...folders.map(folder => folder.id));
+    }
+    return ids;
+  }, 5 * 60 * 1000);
+  return raceSignal(walk, signal);
+}
+
+// Recursive name search across the whole tree under `rootFolderId`. Drive has no recursive
+// query, so the folders are searched in batches; the page token records which batch and
+// which page within it comes next.
+export async function searchFilesPage(
+  auth: DriveAuth,
+  rootFolderId: string,
+  term: string,
+  options: { filters?: DriveFileFilters; pageToken?: string; signal?: AbortSignal } = {}
+): Promise<DriveFilePage> {
+  const folderIds = await listDescendantFolderIds(auth, rootFolderId, options.signal);
+  const [batchPart, ...tokenParts] = (options.pageToken ?? '0').split(':');
+  let batch = parseInt(batchPart, 10) || 0;
+  let pageToken: string | undefined = tokenParts.join(':') || undefined;
+  const files: DriveFile[] = [];
+
+  while (batch * SEARCH_PARENTS_PER_QUERY < folderIds.length && files.length < FILE_PAGE_SIZE) {
+    const parents = folderIds.slice(batch * SEARCH_PARENTS_PER_QUERY, (batch + 1) * SEARCH_PARENTS_PER_QUERY);
+    const query = [
+      `name contains ${quote(term)}`,
+      `(${parents.map(id => `${quote(id)} in parents`).join(' or ')})`,
+      ...fileFilterClauses(options.filters),
+    ].join(' and ');
+    const data = await queryFiles(auth, query, `nextPageToken, files(${FILE_FIELDS})`, { pageToken, signal: options.signal });
+    files.push(...data.files);
+    pageToken = data.nextPageToken;
+    if (!pageToken) batch++;
+  }
+
+  const hasMore = batch * SEARCH_PARENTS_PER_QUERY < folderIds.length;
+  return {
+    files: await withProducts(auth, files),
+    nextPageToken: hasMore ? `${batch}:${pageToken ?? ''}` : undefined,
+  };
+}
+
+// Merges product metadata from the folder sidecar, the description and the file properties.
+async function withProducts(auth: DriveAuth, files: DriveFile[]): Promise<DriveFile[]> {
+  const parentIds = [...new Set(files.map(file => file.parents?.[0]).filter((id): id is string => !!id))];
+  const sidecars = new Map(await Promise.all(parentIds.map(async id => [id, await loadProductSidecar(auth, id)] as const)));
+  return files.map(file => ({
+    ...file,
+    product: mergeProducts(
+      findSidecarProduct(sidecars.get(file.parents?.[0] ?? '') ?? new Map(), file.name),
+      parseProductDescription(file.description),
+      normaliseProduct(file.appProperties),
+      normaliseProduct(file.properties),
+    ),
+  }));
+}
+
+// Reads the folder's optional products.json. A missing or malformed sidecar is not an error;
+// the files simply carry whatever metadata Drive has for them.
+function loadProductSidecar(auth: DriveAuth, parentFolderId: string): Promise<Map<string, ProductMetadata>> {
+  return cachedFetch(`sidecar:${authScope(auth)}:${parentFolderId}`, async () => {
+    const query = `${quote(parentFolderId)} in parents and name = ${quote(PRODUCT_SIDECAR_NAME)} and trashed = false`;
+    try {
+      const data = await queryFiles(auth, query, 'files(id)', { pageSize: 1 });
+      const sidecarId = data.files?.[0]?.id;
+      if (!sidecarId) return new Map();
+      const media = await driveFetch(auth, `/files/${sidecarId}`, { alt: 'media' });
+      if (!media.ok) return new Map();
+      return parseProductSidecar(await media.json());
+    } catch (err) {
+      console.warn(`Could not read ${PRODUCT_SIDECAR_NAME}:`, err);
+      return new Map();
+    }
+  });
 }
 
-export async function getDriveFileAsFile(driveFile: DriveFile): Promise<File> {
-  const url = `https://www.googleapis.com/drive/v3/files/${driveFile.id}?alt=media&key=${API_KEY}`;
-  const response = await fetch(url);
+export async function getDriveFileAsFile(auth: DriveAuth, driveFile: DriveFile): Promise<File> {
+  const response = await driveFetch(auth, `/files/${driveFile.id}`, { alt: 'media' });
   
   if (!response.ok) {
     // We can't use the JSON helper here because a failed media download might not return JSON
@@ -69,3 +297,176 @@ export async function getDriveFileAsFile(driveFile: DriveFile): Promise<File> {
   const blob = await response.blob();
   return new File([blob], driveFile.name, { type: driveFile.mimeType });
 }
+
+// Thumbnails of private files need the token too, so an <img> cannot load them directly.
+// Falls back to the full file when the thumbnail host refuses the request.
+export async function getDriveThumbnailBlob(auth: DriveAuth, driveFile: DriveFile): Promise<Blob> {
+  if (driveFile.thumbnailLink && auth.accessToken) {
+    try {
+      const response = await fetch(driveFile.thumbnailLink, { headers: { Authorization: `Bearer ${auth.accessToken}` } });
+      if (response.ok) return response.blob();
+    } catch (err) {
+      console.warn(`Could not load the thumbnail for "${driveFile.name}"; downloading the file instead.`, err);
+    }
+  }
+  return getDriveFileAsFile(auth, driveFile);
+}
+
+// --- Writing: saving exports back to Drive. API keys are read-only, so these need an OAuth token. ---
+
+const UPLOAD_BASE_URL = 'https://www.googleapis.com/upload/drive/v3';
+
+export type UploadConflictPolicy = 'rename' | 'replace' | 'skip';
+
+export interface UploadedFile {
+  id: string;
+  name: string;
+  webViewLink?: string;
+  // 'skipped' when a file of that name existed and the policy was 'skip'.
+  outcome: 'created' | 'replaced' | 'renamed' | 'skipped';
+}
+
+function requireAccessToken(auth: DriveAuth): string {
+  if (!auth.accessToken) {
+    throw new Error(auth.requiresSignIn ? SIGN_IN_REQUIRED_MESSAGE : "Saving to Drive needs a Google sign-in. Set this source to OAuth under Catalogue Sources.");
+  }
+  return auth.accessToken;
+}
+
+async function driveWrite(auth: DriveAuth, method: string, path: string, body: unknown) {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${requireAccessToken(auth)}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  checkSignedIn(auth, response.status);
+  return handleDriveApiResponse(response);
+}
+
+// What Drive returns for an upload: the requested fields, or an error body.
+interface DriveUploadResponse {
+  id: string;
+  name: string;
+  webViewLink?: string;
+}
+
+interface DriveErrorBody {
+  error?: { message?: string };
+}
+
+// fetch cannot report upload progress, so uploads go through XMLHttpRequest.
+function sendWithProgress(
+  method: string,
+  url: string,
+  token: string,
+  body: Blob,
+  contentType: string,
+  onProgress?: (loaded: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<DriveUploadResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The upload was cancelled.', 'AbortError'));
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    xhr.setRequestHeader('Content-Type', contentType);
+    xhr.upload.onprogress = (event) => event.lengthComputable && onProgress?.(event.loaded, event.total);
+    xhr.onload = () => {
+      let data: (DriveUploadResponse & DriveErrorBody) | null = null;
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {
+        // Leave data empty; the status decides below.
+      }
+      if (xhr.status >= 200 && xhr.status < 300 && data?.id) {
+        resolve(data);
+      } else if (xhr.status === 401) {
+        forgetAccessToken(token);
+        reject(new Error(SIGN_IN_REQUIRED_MESSAGE));
+      } else {
+        console.error("Google Drive upload error:", data);
+        reject(new Error(data?.error?.message || `Google Drive upload failed with status: ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Could not reach Google Drive. Check your connection and try again."));
+    xhr.onabort = () => reject(new DOMException('The upload was cancelled.', 'AbortError'));
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+    xhr.send(body);
+  });
+}
+
+export async function createFolder(auth: DriveAuth, parentFolderId: string, name: string): Promise<DriveFolder> {
+  const data = await driveWrite(auth, 'POST', '/files?fields=id,name', { name, mimeType: FOLDER_MIME_TYPE, parents: [parentFolderId] });
+  invalidateCache(`folders:${authScope(auth)}:${parentFolderId}`);
+  invalidateCache(`listing:${authScope(auth)}:${parentFolderId}`);
+  return data as DriveFolder;
+}
+
+// Names already taken in the folder, so conflicts can be resolved before uploading.
+export async function listNamesInFolder(auth: DriveAuth, folderId: string): Promise<Map<string, string>> {
+  const query = `${quote(folderId)} in parents and trashed = false and mimeType != ${quote(FOLDER_MIME_TYPE)}`;
+  const names = new Map<string, string>();
+  let pageToken: string | undefined;
+  do {
+    const data = await queryFiles(auth, query, 'nextPageToken, files(id, name)', { pageToken, pageSize: 1000 });
+    data.files.forEach((file: { id: string; name: string }) => names.set(file.name, file.id));
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+  return names;
+}
+
+// "design.png" -> "design (2).png", skipping any numbers already taken.
+export const nextAvailableName = (name: string, taken: { has: (name: string) => boolean }): string => {
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  let n = 2;
+  while (taken.has(`${stem} (${n})${extension}`)) n++;
+  return `${stem} (${n})${extension}`;
+};
+
+// Uploads one file into the folder. `existing` maps names already in the folder to file ids
+// and is updated as files are added, so a batch resolves conflicts among its own files too.
+export async function uploadFile(
+  auth: DriveAuth,
+  folderId: string,
+  name: string,
+  blob: Blob,
+  options: {
+    existing: Map<string, string>;
+    conflict: UploadConflictPolicy;
+    onProgress?: (loaded: number, total: number) => void;
+    signal?: AbortSignal;
+  }
+): Promise<UploadedFile> {
+  const token = requireAccessToken(auth);
+  const existingId = options.existing.get(name);
+  const fields = 'fields=id,name,webViewLink';
+
+  if (existingId && options.conflict === 'skip') {
+    return { id: existingId, name, outcome: 'skipped' };
+  }
+  if (existingId && options.conflict === 'replace') {
+    const data = await sendWithProgress('PATCH', `${UPLOAD_BASE_URL}/files/${existingId}?uploadType=media&${fields}`, token, blob, blob.type || 'application/octet-stream', options.onProgress, options.signal);
+    return { ...data, outcome: 'replaced' };
+  }
+
+  const finalName = existingId ? nextAvailableName(name, options.existing) : name;
+  const boundary = `bovali_${Date.now().toString(36)}`;
+  const metadata = JSON.stringify({ name: finalName, parents: [folderId] });
+  const body = new Blob([
+    `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n${metadata}\r\n`,
+    `--${boundary}\r\nContent-Type: ${blob.type || 'application/octet-stream'}\r\n\r\n`,
+    blob,
+    `\r\n--${boundary}--`,
+  ]);
+  const data = await sendWithProgress('POST', `${UPLOAD_BASE_URL}/files?uploadType=multipart&${fields}`, token, body, `multipart/related; boundary=${boundary}`, options.onProgress, options.signal);
+  options.existing.set(finalName, data.id);
+  invalidateCache(`listing:${authScope(auth)}:${folderId}`);
+  return { ...data, outcome: existingId ? 'renamed' : 'created' };
+}
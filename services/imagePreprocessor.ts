@@ -0,0 +1,217 @@
+// services/imagePreprocessor.ts
+// Normalises uploads before they reach the provider: applies EXIF orientation, drops metadata by
+// re-encoding through a canvas, downsizes to a maximum edge and converts HEIC/TIFF/AVIF sources.
+
+import { HEIC2ANY_URL, loadScript, UTIF_URL } from './scriptLoader';
+
+// Loaded from the CDN on first use; see scriptLoader. Only the calls made here are typed.
+interface UtifPage {
+  // Set by decodeImage.
+  width: number;
+  height: number;
+}
+
+declare var heic2any: (options: { blob: Blob; toType: string }) => Promise<Blob | Blob[]>;
+declare var UTIF: {
+  decode(buffer: ArrayBuffer): UtifPage[];
+  decodeImage(buffer: ArrayBuffer, page: UtifPage): void;
+  toRGBA8(page: UtifPage): Uint8Array;
+};
+
+export type PreprocessFormat = 'image/webp' | 'image/jpeg';
+
+export interface PreprocessSettings {
+  enabled: boolean;
+  maxEdge: number;
+  format: PreprocessFormat;
+  quality: number;
+}
+
+export interface PreprocessResult {
+  file: File;
+  originalBytes: number;
+  processedBytes: number;
+  width: number;
+  height: number;
+  resized: boolean;
+  // Set when the source had to be converted from a format the provider does not accept.
+  convertedFrom?: string;
+}
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+  enabled: true,
+  maxEdge: 2048,
+  format: 'image/webp',
+  quality: 0.9,
+};
+
+export const MAX_EDGE_OPTIONS = [1024, 1536, 2048, 3072, 4096];
+
+export const ACCEPTED_IMAGE_TYPES = 'image/png, image/jpeg, image/webp, image/heic, image/heif, image/tiff, image/avif, .heic, .heif, .tif, .tiff, .avif';
+
+const STORAGE_KEY = 'bovaliPreprocessSettings';
+
+export const getPreprocessSettings = (): PreprocessSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_PREPROCESS_SETTINGS, ...JSON.parse(raw) } : DEFAULT_PREPROCESS_SETTINGS;
+  } catch (error) {
+    console.error("Could not load upload settings from local storage", error);
+    return DEFAULT_PREPROCESS_SETTINGS;
+  }
+};
+
+export const savePreprocessSettings = (settings: PreprocessSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+type SourceKind = 'heic' | 'tiff' | 'avif' | 'native';
+
+const getSourceKind = (file: File): SourceKind => {
+  const type = file.type.toLowerCase();
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (type === 'image/heic' || type === 'image/heif' || extension === 'heic' || extension === 'heif') return 'heic';
+  if (type === 'image/tiff' || extension === 'tif' || extension === 'tiff') return 'tiff';
+  if (type === 'image/avif' || extension === 'avif') return 'avif';
+  return 'native';
+};
+
+const SOURCE_LABELS: Record<Exclude<SourceKind, 'native'>, string> = {
+  heic: 'HEIC',
+  tiff: 'TIFF',
+  avif: 'AVIF',
+};
+
+const decodeHeic = async (file: File): Promise<ImageBitmap> => {
+  try {
+    await loadScript(HEIC2ANY_URL);
+  } catch {
+    throw new Error("HEIC support could not be loaded. Please check your connection and try again.");
+  }
+  const converted = await heic2any({ blob: file, toType: 'image/png' });
+  // Multi-image HEIC containers come back as an array; the first frame is the primary image.
+  return createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+};
+
+const decodeTiff = async (file: File): Promise<ImageBitmap> => {
+  try {
+    await loadScript(UTIF_URL);
+  } catch {
+    throw new Error("TIFF support could not be loaded. Please check your connection and try again.");
+  }
+  const buffer = await file.arrayBuffer();
+  const [page] = UTIF.decode(buffer);
+  if (!page) {
+    throw new Error("The TIFF file does not contain an image.");
+  }
+  UTIF.decodeImage(buffer, page);
+  const rgba = UTIF.toRGBA8(page);
+  return createImageBitmap(new ImageData(new Uint8ClampedArray(rgba), page.width, page.height));
+};
+
+const decode = async (file: File, kind: SourceKind): Promise<ImageBitmap> => {
+  if (kind === 'heic') return decodeHeic(file);
+  if (kind === 'tiff') return decodeTiff(file);
+  try {
+    // 'from-image' applies the EXIF orientation so portrait camera shots are not sent sideways.
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(kind === 'avif'
+      ? "This browser cannot decode AVIF images. Please convert the file to JPG or PNG."
+      : `"${file.name}" could not be read as an image.`);
+  }
+};
+
+const hasTransparency = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode the image.")), type, quality);
+  });
+
+const EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+};
+
+const renameFor = (name: string, type: string) => {
+  const base = name.replace(/\.[^.]+$/, '') || 'image';
+  return `${base}.${EXTENSIONS[type] ?? 'png'}`;
+};
+
+export const preprocessImage = async (
+  file: File,
+  settings: PreprocessSettings = getPreprocessSettings()
+): Promise<PreprocessResult> => {
+  const kind = getSourceKind(file);
+  const convertedFrom = kind === 'native' ? undefined : SOURCE_LABELS[kind];
+
+  if (!settings.enabled && !convertedFrom) {
+    return { file, originalBytes: file.size, processedBytes: file.size, width: 0, height: 0, resized: false };
+  }
+
+  const bitmap = await decode(file, kind);
+  const maxEdge = settings.enabled ? settings.maxEdge : Infinity;
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  // JPEG has no alpha channel, so transparent sources fall back to PNG rather than gaining a black background.
+  let type: string = settings.enabled ? settings.format : 'image/png';
+  if (type === 'image/jpeg' && hasTransparency(ctx, width, height)) {
+    type = 'image/png';
+  }
+
+  let blob = await canvasToBlob(canvas, type, settings.quality);
+  if (blob.type !== type) {
+    // Browsers without a WebP encoder silently hand back PNG. JPEG keeps the upload small
+    // instead, unless the image has transparency, which only the PNG keeps.
+    const fallback = hasTransparency(ctx, width, height) ? 'image/png' : 'image/jpeg';
+    if (blob.type !== fallback) blob = await canvasToBlob(canvas, fallback, settings.quality);
+  }
+
+  return {
+    file: new File([blob], renameFor(file.name, blob.type), { type: blob.type, lastModified: Date.now() }),
+    originalBytes: file.size,
+    processedBytes: blob.size,
+    width,
+    height,
+    resized: scale < 1,
+    convertedFrom,
+  };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const describePreprocessResult = (result: PreprocessResult): string | null => {
+  // Untouched passthrough (preprocessing switched off).
+  if (result.width === 0) return null;
+  const saved = result.originalBytes - result.processedBytes;
+  const parts: string[] = [];
+  if (result.convertedFrom) parts.push(`Converted from ${result.convertedFrom}`);
+  if (result.resized) parts.push(`resized to ${result.width}×${result.height}`);
+  parts.push(saved > 0
+    ? `${formatBytes(result.originalBytes)} → ${formatBytes(result.processedBytes)} (saved ${Math.round((saved / result.originalBytes) * 100)}%)`
+    : `${formatBytes(result.processedBytes)}, metadata removed`);
+  const text = parts.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
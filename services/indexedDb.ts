@@ -0,0 +1,40 @@
+// services/indexedDb.ts
+// Minimal promise wrappers around IndexedDB, shared by the stores that keep blobs on device.
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction was aborted."));
+  });
+
+// Opens (and on first use creates or upgrades) a database. Connections are cached per name.
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> => {
+  const existing = connections.get(name);
+  if (existing) return existing;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error("This browser does not support on-device storage (IndexedDB)."));
+  }
+  const connection = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("On-device storage is blocked by another open tab. Close it and try again."));
+  });
+  connections.set(name, connection);
+  connection.catch(() => connections.delete(name));
+  return connection;
+};
@@ -0,0 +1,86 @@
+// services/layingPatterns.ts
+// How individual tiles are laid on a surface, with the wording used for each in prompts.
+
+import type { TileUnit } from '../types';
+
+export type LayingPattern =
+  | 'Stack'
+  | 'RunningBondHalf'
+  | 'RunningBondThird'
+  | 'Herringbone'
+  | 'DoubleHerringbone'
+  | 'Chevron'
+  | 'Basketweave'
+  | 'Diagonal'
+  | 'Versailles';
+
+export type GroutUnit = 'mm' | 'in';
+
+export interface LayingPatternDefinition {
+  value: LayingPattern;
+  label: string;
+  promptDescription: string;
+}
+
+export interface LayoutOptions {
+  pattern: LayingPattern;
+  // Rotation of the whole layout relative to the main edge of the surface, in degrees.
+  rotation: number;
+  groutWidth: number;
+  groutUnit: GroutUnit;
+  groutColor: string;
+}
+
+export const LAYING_PATTERNS: LayingPatternDefinition[] = [
+  { value: 'Stack', label: 'Stack', promptDescription: 'straight stack bond, with the tiles aligned in a grid and continuous joints in both directions' },
+  { value: 'RunningBondHalf', label: 'Running Bond 1/2', promptDescription: 'running bond with a 1/2 offset, each row shifted by half a tile length like brickwork' },
+  { value: 'RunningBondThird', label: 'Running Bond 1/3', promptDescription: 'running bond with a 1/3 offset, each row shifted by one third of a tile length' },
+  { value: 'Herringbone', label: 'Herringbone', promptDescription: 'herringbone, with rectangular tiles laid at 90° to each other in a staggered zig-zag so the end of each tile meets the side of the next' },
+  { value: 'DoubleHerringbone', label: 'Double Herringbone', promptDescription: 'double herringbone, with pairs of tiles laid side by side and each pair set at 90° to the next in a staggered zig-zag' },
+  { value: 'Chevron', label: 'Chevron', promptDescription: 'chevron, with tiles cut at an angle so their ends meet point-to-point in continuous V shapes' },
+  { value: 'Basketweave', label: 'Basketweave', promptDescription: 'basketweave, with pairs of rectangular tiles forming squares that alternate between horizontal and vertical' },
+  { value: 'Diagonal', label: 'Diagonal', promptDescription: 'diagonal, a straight grid set at 45° to the edges of the surface' },
+  { value: 'Versailles', label: 'Versailles', promptDescription: 'Versailles (French pattern), a repeating modular set of squares and rectangles of several sizes' },
+];
+
+export const DEFAULT_LAYOUT: LayoutOptions = {
+  pattern: 'Stack',
+  rotation: 0,
+  groutWidth: 2,
+  groutUnit: 'mm',
+  groutColor: '#d9d4cc',
+};
+
+// Grout is measured in mm alongside cm tiles and in inches alongside inch tiles.
+export const groutUnitFor = (tileUnit: TileUnit): GroutUnit => tileUnit === 'cm' ? 'mm' : 'in';
+
+// Converts the grout width when the tile unit changes, rounded to what the grout input steps by.
+export const withGroutUnit = (layout: LayoutOptions, unit: GroutUnit): LayoutOptions => {
+  if (layout.groutUnit === unit) return layout;
+  const groutWidth = unit === 'in'
+    ? Math.round(layout.groutWidth / 25.4 * 16) / 16
+    : Math.round(layout.groutWidth * 25.4 * 2) / 2;
+  return { ...layout, groutWidth, groutUnit: unit };
+};
+
+export const getLayingPatternDefinition = (pattern: LayingPattern): LayingPatternDefinition => {
+  return LAYING_PATTERNS.find(p => p.value === pattern) ?? LAYING_PATTERNS[0];
+};
+
+export const describeLayout = (layout: LayoutOptions): string => {
+  const { promptDescription } = getLayingPatternDefinition(layout.pattern);
+  const rotation = layout.rotation
+    ? ` Rotate the whole layout by ${layout.rotation}° relative to the main edge of the surface.`
+    : '';
+  const grout = layout.groutWidth > 0
+    ? ` Separate the tiles with ${layout.groutWidth} ${layout.groutUnit} grout joints in the colour ${layout.groutColor}.`
+    : ' Butt the tiles together with no visible grout joints.';
+  return `The "Pattern Image" shows a single tile. Lay it repeatedly in a ${promptDescription}.${rotation}${grout}`;
+};
+
+export const formatLayout = (layout: LayoutOptions): string => {
+  const parts = [getLayingPatternDefinition(layout.pattern).label];
+  if (layout.rotation) parts.push(`${layout.rotation}°`);
+  parts.push(layout.groutWidth > 0 ? `${layout.groutWidth} ${layout.groutUnit} grout` : 'no grout');
+  return parts.join(' · ');
+};
@@ -0,0 +1,290 @@
+// services/layoutComposer.ts
+// Builds a laid-out pattern sheet from a single tile image on a canvas. Unlike the laying
+// instructions sent to the model, this is exact and deterministic: the same inputs always
+// produce the same sheet.
+
+export type ComposerLayout = 'stack' | 'brick' | 'herringbone' | 'chevron' | 'hex' | 'randomPlank';
+
+export interface ComposerLayoutDefinition {
+  value: ComposerLayout;
+  label: string;
+}
+
+export const COMPOSER_LAYOUTS: ComposerLayoutDefinition[] = [
+  { value: 'stack', label: 'Stack' },
+  { value: 'brick', label: 'Brick (1/2 offset)' },
+  { value: 'herringbone', label: 'Herringbone' },
+  { value: 'chevron', label: 'Chevron' },
+  { value: 'hex', label: 'Hexagon' },
+  { value: 'randomPlank', label: 'Random Plank' },
+];
+
+export interface ComposerOptions {
+  image: HTMLImageElement;
+  layout: ComposerLayout;
+  // All lengths share one unit (whatever the tile dimensions are entered in).
+  tileWidth: number;
+  tileHeight: number;
+  sheetWidth: number;
+  sheetHeight: number;
+  groutWidth: number;
+  groutColor: string;
+  // Plank lengths for 'randomPlank', as fractions of the tile width (e.g. [1, 0.75, 0.5]).
+  plankLengths?: number[];
+  seed?: number;
+  maxPixels?: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// A single laid tile: the outline it occupies and the affine transform that maps the unit
+// square of the source image onto the sheet (canvas `transform` argument order).
+interface Piece {
+  polygon: Point[];
+  transform: [number, number, number, number, number, number];
+}
+
+const DEFAULT_MAX_PIXELS = 2048;
+// More pieces than this would block the page while drawing, and be too small to see.
+export const MAX_COMPOSER_PIECES = 5000;
+
+// Small seeded PRNG so random layouts are reproducible.
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const rectPolygon = (x: number, y: number, w: number, h: number): Point[] => [
+  { x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h },
+];
+
+const horizontalPiece = (x: number, y: number, w: number, h: number): Piece => ({
+  polygon: rectPolygon(x, y, w, h),
+  transform: [w, 0, 0, h, x, y],
+});
+
+// A tile turned 90°: the image's long axis runs down the sheet.
+const verticalPiece = (x: number, y: number, w: number, h: number): Piece => ({
+  polygon: rectPolygon(x, y, w, h),
+  transform: [0, h, -w, 0, x + w, y],
+});
+
+const gridPieces = (width: number, height: number, sheetWidth: number, sheetHeight: number, rowOffset: number): Piece[] => {
+  const pieces: Piece[] = [];
+  const rows = Math.ceil(sheetHeight / height);
+  for (let row = 0; row < rows; row++) {
+    const offset = row % 2 === 1 ? -rowOffset : 0;
+    for (let x = offset; x < sheetWidth; x += width) {
+      pieces.push(horizontalPiece(x, row * height, width, height));
+    }
+  }
+  return pieces;
+};
+
+// Staircases of one horizontal and one vertical plank, repeated along (-L, L). Each plank's
+// end butts against the side of its neighbour.
+const herringbonePieces = (length: number, width: number, sheetWidth: number, sheetHeight: number): Piece[] => {
+  const pieces: Piece[] = [];
+  const span = Math.ceil((sheetWidth + sheetHeight) / width) + 2;
+  const bands = Math.ceil((sheetWidth + sheetHeight) / length) + 2;
+  for (let band = -bands; band <= bands; band++) {
+    for (let step = -span; step <= span; step++) {
+      const x = step * width - band * length;
+      const y = step * width + band * length;
+      pieces.push(horizontalPiece(x, y, length, width));
+      pieces.push(verticalPiece(x + length, y + width - length, width, length));
+    }
+  }
+  return pieces;
+};
+
+// Columns of parallelograms slanting alternately up and down at 45°, meeting in a V.
+const chevronPieces = (length: number, width: number, sheetWidth: number, sheetHeight: number): Piece[] => {
+  const pieces: Piece[] = [];
+  const columnWidth = length / Math.SQRT2;
+  const pitch = width * Math.SQRT2;
+  const columns = Math.ceil(sheetWidth / columnWidth);
+  for (let column = 0; column < columns; column++) {
+    const direction = column % 2 === 0 ? -1 : 1;
+    const x = column * columnWidth;
+    const offset = column % 2 === 0 ? 0 : -columnWidth;
+    for (let y = offset - Math.ceil(columnWidth / pitch + 1) * pitch; y < sheetHeight + columnWidth; y += pitch) {
+      const rise = direction * columnWidth;
+      pieces.push({
+        polygon: [
+          { x, y },
+          { x: x + columnWidth, y: y + rise },
+          { x: x + columnWidth, y: y + rise + pitch },
+          { x, y: y + pitch },
+        ],
+        transform: [columnWidth, rise, 0, pitch, x, y],
+      });
+    }
+  }
+  return pieces;
+};
+
+// Pointy-top hexagons inscribed in the tile's width × height box.
+const hexPieces = (width: number, height: number, sheetWidth: number, sheetHeight: number): Piece[] => {
+  const pieces: Piece[] = [];
+  const rowPitch = height * 0.75;
+  const rows = Math.ceil(sheetHeight / rowPitch) + 1;
+  for (let row = 0; row < rows; row++) {
+    const offset = row % 2 === 1 ? width / 2 : 0;
+    for (let cx = offset - width / 2; cx < sheetWidth + width; cx += width) {
+      const cy = row * rowPitch;
+      const left = cx - width / 2;
+      const top = cy - height / 2;
+      pieces.push({
+        polygon: [
+          { x: cx, y: top },
+          { x: cx + width / 2, y: top + height / 4 },
+          { x: cx + width / 2, y: top + height * 0.75 },
+          { x: cx, y: top + height },
+          { x: left, y: top + height * 0.75 },
+          { x: left, y: top + height / 4 },
+        ],
+        transform: [width, 0, 0, height, left, top],
+      });
+    }
+  }
+  return pieces;
+};
+
+// Rows of planks with lengths picked from the mix and a random stagger. Shorter planks show
+// a random slice of the tile image rather than a squashed copy of it.
+const randomPlankPieces = (
+  length: number,
+  width: number,
+  sheetWidth: number,
+  sheetHeight: number,
+  lengths: number[],
+  random: () => number
+): Piece[] => {
+  const pieces: Piece[] = [];
+  const mix = lengths.length > 0 ? lengths : [1];
+  const rows = Math.ceil(sheetHeight / width);
+  for (let row = 0; row < rows; row++) {
+    const y = row * width;
+    let x = -random() * length;
+    while (x < sheetWidth) {
+      const plank = length * mix[Math.floor(random() * mix.length)];
+      const sliceStart = random() * (length - plank);
+      pieces.push({
+        polygon: rectPolygon(x, y, plank, width),
+        transform: [length, 0, 0, width, x - sliceStart, y],
+      });
+      x += plank;
+    }
+  }
+  return pieces;
+};
+
+// Planked layouts expect the plank's length along the image's x axis.
+const toLandscape = (image: HTMLImageElement): CanvasImageSource => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalHeight;
+  canvas.height = image.naturalWidth;
+  const ctx = canvas.getContext('2d')!;
+  ctx.translate(canvas.width, 0);
+  ctx.rotate(Math.PI / 2);
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+};
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, polygon: Point[], scale: number) => {
+  ctx.beginPath();
+  polygon.forEach((point, index) => {
+    if (index === 0) ctx.moveTo(point.x * scale, point.y * scale);
+    else ctx.lineTo(point.x * scale, point.y * scale);
+  });
+  ctx.closePath();
+};
+
+const isVisible = (polygon: Point[], sheetWidth: number, sheetHeight: number) =>
+  polygon.some(p => p.x > 0) && polygon.some(p => p.x < sheetWidth) &&
+  polygon.some(p => p.y > 0) && polygon.some(p => p.y < sheetHeight);
+
+export const composeLayout = (canvas: HTMLCanvasElement, options: ComposerOptions): { pieces: number } => {
+  const { image, layout, sheetWidth, sheetHeight, groutWidth, groutColor } = options;
+  if (!(options.tileWidth > 0 && options.tileHeight > 0 && sheetWidth > 0 && sheetHeight > 0)) {
+    throw new Error("Tile and sheet dimensions must be greater than zero.");
+  }
+  // Lay out on a pitch of tile + joint; the joint is stroked back over the edges afterwards,
+  // leaving each tile at its nominal size.
+  const grout = Math.max(0, groutWidth);
+  const tileWidth = options.tileWidth + grout;
+  const tileHeight = options.tileHeight + grout;
+  // Planked layouts treat the longer side as the plank length.
+  const plankLength = Math.max(tileWidth, tileHeight);
+  const plankWidth = Math.min(tileWidth, tileHeight);
+  const estimatedPieces = Math.ceil((sheetWidth * sheetHeight) / (tileWidth * tileHeight));
+  if (estimatedPieces > MAX_COMPOSER_PIECES) {
+    throw new Error(`This sheet would need about ${estimatedPieces.toLocaleString()} tiles. Use a smaller sheet or larger tiles (up to ${MAX_COMPOSER_PIECES.toLocaleString()} tiles).`);
+  }
+
+  const isPlanked = layout === 'herringbone' || layout === 'chevron' || layout === 'randomPlank';
+  const source = isPlanked && options.tileHeight > options.tileWidth ? toLandscape(image) : image;
+
+  let pieces: Piece[];
+  switch (layout) {
+    case 'stack':
+      pieces = gridPieces(tileWidth, tileHeight, sheetWidth, sheetHeight, 0);
+      break;
+    case 'brick':
+      pieces = gridPieces(tileWidth, tileHeight, sheetWidth, sheetHeight, tileWidth / 2);
+      break;
+    case 'herringbone':
+      pieces = herringbonePieces(plankLength, plankWidth, sheetWidth, sheetHeight);
+      break;
+    case 'chevron':
+      pieces = chevronPieces(plankLength, plankWidth, sheetWidth, sheetHeight);
+      break;
+    case 'hex':
+      pieces = hexPieces(tileWidth, tileHeight, sheetWidth, sheetHeight);
+      break;
+    case 'randomPlank':
+      pieces = randomPlankPieces(plankLength, plankWidth, sheetWidth, sheetHeight, options.plankLengths ?? [1], mulberry32(options.seed ?? 1));
+      break;
+    default:
+      throw new Error(`Unknown layout: "${layout}"`);
+  }
+  pieces = pieces.filter(piece => isVisible(piece.polygon, sheetWidth, sheetHeight));
+
+  const maxPixels = options.maxPixels ?? DEFAULT_MAX_PIXELS;
+  const scale = Math.min(maxPixels / sheetWidth, maxPixels / sheetHeight);
+  canvas.width = Math.round(sheetWidth * scale);
+  canvas.height = Math.round(sheetHeight * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = groutColor;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+
+  for (const piece of pieces) {
+    ctx.save();
+    tracePolygon(ctx, piece.polygon, scale);
+    ctx.clip();
+    const [a, b, c, d, e, f] = piece.transform;
+    ctx.setTransform(a * scale, b * scale, c * scale, d * scale, e * scale, f * scale);
+    ctx.drawImage(source, 0, 0, 1, 1);
+    ctx.restore();
+  }
+
+  if (grout > 0) {
+    ctx.strokeStyle = groutColor;
+    ctx.lineWidth = grout * scale;
+    ctx.lineJoin = 'miter';
+    for (const piece of pieces) {
+      tracePolygon(ctx, piece.polygon, scale);
+      ctx.stroke();
+    }
+  }
+
+  return { pieces: pieces.length };
+};
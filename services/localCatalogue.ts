@@ -0,0 +1,381 @@
+// services/localCatalogue.ts
+// Offline catalogue: a folder or ZIP imported into IndexedDB, browsable through the same
+// listing calls as the Google Drive catalogue.
+
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import {
+  findSidecarProduct,
+  mergeProducts,
+  parseProductSidecar,
+  PRODUCT_SIDECAR_NAME,
+  ProductMetadata,
+} from './productMetadata';
+import { CATALOGUE_IMAGE_TYPES } from './googleDriveService';
+import type { DriveFile, DriveFileFilters, DriveFilePage, DriveFolder, DriveFolderListing } from './googleDriveService';
+
+// The parts of JSZip's API read here.
+interface JSZipEntry {
+  name: string;
+  dir: boolean;
+  date?: Date;
+  async(type: 'blob'): Promise<Blob>;
+}
+
+declare var JSZip: { loadAsync(data: Blob): Promise<{ files: Record<string, JSZipEntry> }> } | undefined;
+
+const DB_NAME = 'bovaliLocalCatalogue';
+// Version 2 moved image data out of the file records, so listings read metadata only.
+const DB_VERSION = 2;
+const FOLDER_STORE = 'folders';
+const FILE_STORE = 'files';
+const BLOB_STORE = 'blobs';
+const PAGE_SIZE = 60;
+const THUMBNAIL_EDGE = 320;
+export const LOCAL_MANIFEST_NAME = 'manifest.json';
+
+interface StoredFolder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  rootId: string;
+}
+
+interface StoredFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  parentId: string;
+  rootId: string;
+  modifiedTime: string;
+  product?: ProductMetadata;
+}
+
+// The image and its thumbnail, keyed by the file id.
+interface StoredBlobs {
+  id: string;
+  rootId: string;
+  blob: Blob;
+  thumbnail: Blob;
+}
+
+// A file to import, with its path relative to the catalogue root ("Marble/Calacatta.jpg").
+export interface LocalImportEntry {
+  path: string;
+  file: Blob;
+  lastModified?: number;
+}
+
+export interface LocalImportResult {
+  rootFolderId: string;
+  name: string;
+  fileCount: number;
+}
+
+// Optional manifest.json at the root: a catalogue name and product metadata keyed by file
+// path or name, in the same shapes products.json accepts.
+interface LocalManifest {
+  name?: string;
+  products?: unknown;
+}
+
+const getDb = () => openDatabase(DB_NAME, DB_VERSION, (db, oldVersion, transaction) => {
+  if (oldVersion < 1) {
+    const folders = db.createObjectStore(FOLDER_STORE, { keyPath: 'id' });
+    folders.createIndex('parentId', 'parentId');
+    folders.createIndex('rootId', 'rootId');
+    const files = db.createObjectStore(FILE_STORE, { keyPath: 'id' });
+    files.createIndex('parentId', 'parentId');
+    files.createIndex('rootId', 'rootId');
+  }
+  if (oldVersion < 2) {
+    const blobs = db.createObjectStore(BLOB_STORE, { keyPath: 'id' });
+    blobs.createIndex('rootId', 'rootId');
+    // Split version 1 records, which carried their blobs inline.
+    const files = transaction.objectStore(FILE_STORE);
+    files.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const { blob, thumbnail, ...file } = cursor.value as StoredFile & Partial<Pick<StoredBlobs, 'blob' | 'thumbnail'>>;
+      if (blob) {
+        blobs.put({ id: file.id, rootId: file.rootId, blob, thumbnail: thumbnail ?? blob } satisfies StoredBlobs);
+        cursor.update(file);
+      }
+      cursor.continue();
+    };
+  }
+});
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+const mimeTypeFor = (path: string, blob: Blob) => {
+  if (CATALOGUE_IMAGE_TYPES.includes(blob.type)) return blob.type;
+  return MIME_BY_EXTENSION[path.split('.').pop()?.toLowerCase() ?? ''];
+};
+
+const newId = (prefix: string) => `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const baseName = (path: string) => path.split('/').pop() ?? path;
+
+const makeThumbnail = async (blob: Blob): Promise<Blob> => {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_EDGE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise<Blob>((resolve) => canvas.toBlob(result => resolve(result ?? blob), 'image/jpeg', 0.8));
+  } catch {
+    return blob;
+  }
+};
+
+const readJson = async (blob: Blob): Promise<unknown> => {
+  try {
+    return JSON.parse(await blob.text());
+  } catch (err) {
+    console.warn("Ignoring unreadable catalogue JSON:", err);
+    return null;
+  }
+};
+
+// Strips a shared top-level folder (a ZIP of "Catalogue/…", or the picked directory itself).
+const stripCommonRoot = (entries: LocalImportEntry[]): { entries: LocalImportEntry[]; rootName?: string } => {
+  const first = entries[0]?.path.split('/');
+  if (!first || first.length < 2) return { entries };
+  const root = first[0];
+  if (!entries.every(entry => entry.path.startsWith(`${root}/`))) return { entries };
+  return { entries: entries.map(entry => ({ ...entry, path: entry.path.slice(root.length + 1) })), rootName: root };
+};
+
+export const importLocalCatalogue = async (
+  rawEntries: LocalImportEntry[],
+  fallbackName: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<LocalImportResult> => {
+  const { entries, rootName } = stripCommonRoot(rawEntries.filter(entry => !baseName(entry.path).startsWith('.')));
+  const manifestEntry = entries.find(entry => entry.path === LOCAL_MANIFEST_NAME);
+  const manifest = (manifestEntry ? await readJson(manifestEntry.file) : null) as LocalManifest | null;
+  const manifestProducts = parseProductSidecar(manifest?.products && !Array.isArray(manifest.products) ? manifest.products : manifest);
+
+  // products.json sidecars, keyed by the folder path they sit in.
+  const sidecars = new Map<string, Map<string, ProductMetadata>>();
+  for (const entry of entries.filter(e => baseName(e.path) === PRODUCT_SIDECAR_NAME)) {
+    sidecars.set(entry.path.slice(0, -PRODUCT_SIDECAR_NAME.length).replace(/\/$/, ''), parseProductSidecar(await readJson(entry.file)));
+  }
+
+  const images = entries
+    .map(entry => ({ ...entry, mimeType: mimeTypeFor(entry.path, entry.file) }))
+    .filter(entry => !!entry.mimeType);
+  if (images.length === 0) {
+    throw new Error("No JPEG, PNG or WEBP images were found to import.");
+  }
+
+  const name = (typeof manifest?.name === 'string' && manifest.name.trim()) || rootName || fallbackName;
+  const rootId = newId('local');
+  const folders: StoredFolder[] = [{ id: rootId, name, parentId: null, rootId }];
+  const folderIds = new Map<string, string>([['', rootId]]);
+  const folderIdFor = (folderPath: string): string => {
+    const existing = folderIds.get(folderPath);
+    if (existing) return existing;
+    const slash = folderPath.lastIndexOf('/');
+    const parentId = folderIdFor(slash === -1 ? '' : folderPath.slice(0, slash));
+    const id = newId('folder');
+    folders.push({ id, name: folderPath.slice(slash + 1), parentId, rootId });
+    folderIds.set(folderPath, id);
+    return id;
+  };
+
+  const files: StoredFile[] = [];
+  const blobs: StoredBlobs[] = [];
+  for (const [index, image] of images.entries()) {
+    const slash = image.path.lastIndexOf('/');
+    const folderPath = slash === -1 ? '' : image.path.slice(0, slash);
+    const fileName = baseName(image.path);
+    const id = newId('file');
+    blobs.push({ id, rootId, blob: image.file, thumbnail: await makeThumbnail(image.file) });
+    files.push({
+      id,
+      name: fileName,
+      mimeType: image.mimeType,
+      parentId: folderIdFor(folderPath),
+      rootId,
+      modifiedTime: new Date(image.lastModified ?? Date.now()).toISOString(),
+      product: mergeProducts(
+        findSidecarProduct(sidecars.get(folderPath) ?? new Map(), fileName),
+        findSidecarProduct(manifestProducts, fileName),
+        findSidecarProduct(manifestProducts, image.path),
+      ),
+    });
+    onProgress?.(index + 1, images.length);
+  }
+
+  const db = await getDb();
+  const transaction = db.transaction([FOLDER_STORE, FILE_STORE, BLOB_STORE], 'readwrite');
+  folders.forEach(folder => transaction.objectStore(FOLDER_STORE).put(folder));
+  files.forEach(file => transaction.objectStore(FILE_STORE).put(file));
+  blobs.forEach(entry => transaction.objectStore(BLOB_STORE).put(entry));
+  await transactionDone(transaction);
+  return { rootFolderId: rootId, name, fileCount: files.length };
+};
+
+// Walks a directory picked with the File System Access API.
+export const readDirectoryHandle = async (directory: FileSystemDirectoryHandle, prefix = ''): Promise<LocalImportEntry[]> => {
+  const entries: LocalImportEntry[] = [];
+  for await (const handle of directory.values()) {
+    const path = `${prefix}${handle.name}`;
+    if (handle.kind === 'directory') {
+      entries.push(...await readDirectoryHandle(handle as FileSystemDirectoryHandle, `${path}/`));
+    } else {
+      const file = await (handle as FileSystemFileHandle).getFile();
+      entries.push({ path, file, lastModified: file.lastModified });
+    }
+  }
+  return entries;
+};
+
+// Files from an <input webkitdirectory> keep their folder structure in webkitRelativePath.
+export const entriesFromFileList = (files: FileList | File[]): LocalImportEntry[] =>
+  Array.from(files).map(file => ({
+    path: file.webkitRelativePath || file.name,
+    file,
+    lastModified: file.lastModified,
+  }));
+
+export const entriesFromZip = async (zipFile: Blob): Promise<LocalImportEntry[]> => {
+  if (typeof JSZip === 'undefined') {
+    throw new Error("Could not read the ZIP file. A required library is missing.");
+  }
+  const zip = await JSZip.loadAsync(zipFile);
+  const entries: LocalImportEntry[] = [];
+  for (const zipEntry of Object.values(zip.files)) {
+    if (zipEntry.dir || zipEntry.name.startsWith('__MACOSX/')) continue;
+    entries.push({ path: zipEntry.name, file: await zipEntry.async('blob'), lastModified: zipEntry.date?.getTime() });
+  }
+  return entries;
+};
+
+export const deleteLocalCatalogue = async (rootFolderId: string): Promise<void> => {
+  const db = await getDb();
+  const transaction = db.transaction([FOLDER_STORE, FILE_STORE, BLOB_STORE], 'readwrite');
+  for (const storeName of [FOLDER_STORE, FILE_STORE, BLOB_STORE]) {
+    const store = transaction.objectStore(storeName);
+    const keys = await requestToPromise(store.index('rootId').getAllKeys(rootFolderId));
+    keys.forEach(key => store.delete(key));
+  }
+  await transactionDone(transaction);
+  revokeThumbnails(rootFolderId);
+};
+
+export const countLocalCatalogueFiles = async (rootFolderId: string): Promise<number> => {
+  const db = await getDb();
+  return requestToPromise(db.transaction(FILE_STORE).objectStore(FILE_STORE).index('rootId').count(rootFolderId));
+};
+
+// --- Browsing, mirroring the Drive listing calls ---
+
+// One object URL per thumbnail, reused across listings and released when the catalogue goes.
+const thumbnailUrls = new Map<string, { rootId: string; url: string }>();
+
+const revokeThumbnails = (rootId: string) => {
+  for (const [id, entry] of thumbnailUrls) {
+    if (entry.rootId === rootId) {
+      URL.revokeObjectURL(entry.url);
+      thumbnailUrls.delete(id);
+    }
+  }
+};
+
+const getBlobs = async (id: string): Promise<StoredBlobs | undefined> => {
+  const db = await getDb();
+  return requestToPromise<StoredBlobs | undefined>(db.transaction(BLOB_STORE).objectStore(BLOB_STORE).get(id));
+};
+
+// Reads thumbnails only for the files on the page being shown.
+const toDriveFile = async (file: StoredFile): Promise<DriveFile> => {
+  let thumbnail = thumbnailUrls.get(file.id);
+  if (!thumbnail) {
+    const blobs = await getBlobs(file.id);
+    thumbnail = { rootId: file.rootId, url: blobs ? URL.createObjectURL(blobs.thumbnail) : '' };
+    if (blobs) thumbnailUrls.set(file.id, thumbnail);
+  }
+  return {
+    id: file.id,
+    name: file.name,
+    mimeType: file.mimeType,
+    thumbnailLink: thumbnail.url,
+    modifiedTime: file.modifiedTime,
+    parents: [file.parentId],
+    product: file.product,
+  };
+};
+
+const matchesFilters = (file: StoredFile, filters: DriveFileFilters = {}) =>
+  (!filters.mimeTypes?.length || filters.mimeTypes.includes(file.mimeType)) &&
+  (!filters.modifiedAfter || file.modifiedTime > filters.modifiedAfter);
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name, undefined, { numeric: true });
+
+const getByIndex = async <T>(storeName: string, index: string, key: string): Promise<T[]> => {
+  const db = await getDb();
+  return requestToPromise(db.transaction(storeName).objectStore(storeName).index(index).getAll(key));
+};
+
+// Page tokens are plain offsets into the sorted, filtered list.
+const toPage = async (files: StoredFile[], pageToken?: string): Promise<DriveFilePage> => {
+  const offset = parseInt(pageToken ?? '0', 10) || 0;
+  const next = offset + PAGE_SIZE;
+  return {
+    files: await Promise.all(files.slice(offset, next).map(toDriveFile)),
+    nextPageToken: next < files.length ? String(next) : undefined,
+  };
+};
+
+export const listLocalFolders = async (parentFolderId: string): Promise<DriveFolder[]> => {
+  const folders = await getByIndex<StoredFolder>(FOLDER_STORE, 'parentId', parentFolderId);
+  return folders.sort(byName).map(({ id, name }) => ({ id, name }));
+};
+
+export const listLocalFilesPage = async (
+  parentFolderId: string,
+  options: { filters?: DriveFileFilters; pageToken?: string } = {}
+): Promise<DriveFilePage> => {
+  const files = await getByIndex<StoredFile>(FILE_STORE, 'parentId', parentFolderId);
+  return toPage(files.filter(file => matchesFilters(file, options.filters)).sort(byName), options.pageToken);
+};
+
+export const loadLocalFolderListing = async (
+  folderId: string,
+  filters: DriveFileFilters,
+  onListing: (listing: DriveFolderListing, isStale: boolean) => void
+): Promise<void> => {
+  const [folders, page] = await Promise.all([listLocalFolders(folderId), listLocalFilesPage(folderId, { filters })]);
+  onListing({ folders, ...page }, false);
+};
+
+export const searchLocalFilesPage = async (
+  rootFolderId: string,
+  term: string,
+  options: { filters?: DriveFileFilters; pageToken?: string } = {}
+): Promise<DriveFilePage> => {
+  const needle = term.toLowerCase();
+  const files = await getByIndex<StoredFile>(FILE_STORE, 'rootId', rootFolderId);
+  return toPage(
+    files.filter(file => file.name.toLowerCase().includes(needle) && matchesFilters(file, options.filters)).sort(byName),
+    options.pageToken
+  );
+};
+
+export const getLocalFileAsFile = async (file: DriveFile): Promise<File> => {
+  const stored = await getBlobs(file.id);
+  if (!stored) {
+    throw new Error(`"${file.name}" is no longer in the local catalogue.`);
+  }
+  return new File([stored.blob], file.name, { type: file.mimeType });
+};
@@ -0,0 +1,199 @@
+// services/localProvider.ts
+// An offline stand-in for the AI backend. It composites the supplied images on a canvas
+// so the studios can be demoed and developed without an API key or network access.
+// Output is deterministic: the same prompt, inputs and seed always produce the same image.
+import type { GenerationProvider, ImageInput, GenerateImageOptions, RequestOptions } from './generationProvider';
+import { sleep } from './sleep';
+
+const MAX_EDGE = 1024;
+const SIMULATED_LATENCY_MS = 600;
+
+const hashString = (value: string): number => {
+    // FNV-1a, good enough to derive stable colours and offsets.
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const loadBitmap = (blob: Blob): Promise<ImageBitmap> => createImageBitmap(blob);
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("Canvas 2D rendering is not supported in this browser.");
+    }
+    return { canvas, ctx };
+};
+
+const fitWithin = (width: number, height: number, maxEdge: number) => {
+    const scale = Math.min(1, maxEdge / Math.max(width, height));
+    return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, width: number, height: number, label: string) => {
+    const fontSize = Math.max(12, Math.round(width / 48));
+    ctx.font = `${fontSize}px sans-serif`;
+    const padding = fontSize * 0.6;
+    const textWidth = ctx.measureText(label).width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(padding, height - fontSize * 2 - padding, textWidth + padding * 2, fontSize * 2);
+    ctx.fillStyle = '#F5F3EF';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, padding * 2, height - fontSize - padding);
+};
+
+// Decides which part of the base image to re-surface from the wording of the prompt.
+const pickRegion = (prompt: string, width: number, height: number) => {
+    const lower = prompt.toLowerCase();
+    const band = (top: number, bottom: number) => ({
+        x: 0,
+        y: Math.round(height * top),
+        width,
+        height: Math.round(height * (bottom - top)),
+    });
+    if (lower.includes('identify the ceiling')) return band(0, 0.25);
+    if (lower.includes('identify the countertops') || lower.includes('identify the kitchen backsplash')) return band(0.4, 0.6);
+    if (/identify the (walls|shower walls|exterior facade)/.test(lower)) return band(0, 0.55);
+    return band(0.6, 1);
+};
+
+const tint = (ctx: CanvasRenderingContext2D, seed: number, width: number, height: number) => {
+    const hue = seed % 360;
+    ctx.save();
+    ctx.globalCompositeOperation = 'soft-light';
+    ctx.fillStyle = `hsla(${hue}, 40%, 50%, 0.35)`;
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+};
+
+const compositeSingle = (bitmap: ImageBitmap, seed: number, label: string): string => {
+    // Used for extraction and edits: a square, centred crop of the source with a seeded tint.
+    const side = Math.min(bitmap.width, bitmap.height);
+    const size = Math.min(MAX_EDGE, side);
+    const { canvas, ctx } = createCanvas(size, size);
+    const sx = (bitmap.width - side) / 2;
+    const sy = (bitmap.height - side) / 2;
+    ctx.drawImage(bitmap, sx, sy, side, side, 0, 0, size, size);
+    tint(ctx, seed, size, size);
+    drawCaption(ctx, size, size, label);
+    return canvas.toDataURL('image/png');
+};
+
+// Converts a white-on-black mask into an alpha mask so it can clip the surface layer.
+const toAlphaMask = (mask: ImageBitmap, width: number, height: number) => {
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(mask, 0, 0, width, height);
+    const data = ctx.getImageData(0, 0, width, height);
+    for (let i = 0; i < data.data.length; i += 4) {
+        data.data[i + 3] = data.data[i];
+    }
+    ctx.putImageData(data, 0, 0);
+    return canvas;
+};
+
+const compositeSurface = (base: ImageBitmap, fills: ImageBitmap[], mask: ImageBitmap | null, prompt: string, seed: number, label: string): string => {
+    const { width, height } = fitWithin(base.width, base.height, MAX_EDGE);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(base, 0, 0, width, height);
+
+    // With a mask the painted area is the region; otherwise guess it from the prompt.
+    const region = mask ? { x: 0, y: 0, width, height } : pickRegion(prompt, width, height);
+    const stripeWidth = region.width / fills.length;
+    const tileSize = Math.max(32, Math.round(width / 8));
+    const offset = seed % tileSize;
+
+    const { canvas: surface, ctx: surfaceCtx } = createCanvas(width, height);
+    fills.forEach((fill, index) => {
+        const { canvas: tileCanvas, ctx: tileCtx } = createCanvas(tileSize, tileSize);
+        tileCtx.drawImage(fill, 0, 0, tileSize, tileSize);
+        const pattern = surfaceCtx.createPattern(tileCanvas, 'repeat');
+        if (!pattern) return;
+        surfaceCtx.save();
+        surfaceCtx.translate(offset, offset);
+        surfaceCtx.fillStyle = pattern;
+        surfaceCtx.fillRect(region.x + stripeWidth * index - offset, region.y - offset, stripeWidth, region.height);
+        surfaceCtx.restore();
+    });
+    if (mask) {
+        surfaceCtx.globalCompositeOperation = 'destination-in';
+        surfaceCtx.drawImage(toAlphaMask(mask, width, height), 0, 0);
+    }
+    ctx.globalAlpha = 0.85;
+    ctx.drawImage(surface, 0, 0);
+    ctx.globalAlpha = 1;
+
+    tint(ctx, seed, width, height);
+    drawCaption(ctx, width, height, label);
+    return canvas.toDataURL('image/png');
+};
+
+const CANNED_REPLIES = [
+    "I'm running in offline demo mode, so I can't consult the design assistant right now. Your generations will use local placeholder previews.",
+    "Offline demo mode is active. Try the studios to see placeholder compositions of your images.",
+];
+
+export const createLocalProvider = (): GenerationProvider => ({
+    id: 'local',
+    label: 'Offline preview',
+    imageModel: 'local-canvas-compositor',
+
+    generateImage: async (prompt: string, images: ImageInput[], options?: GenerateImageOptions) => {
+        if (images.length === 0) {
+            throw new Error("The offline provider needs at least one input image.");
+        }
+        const seed = hashString([
+            prompt,
+            ...images.map(image => `${image.file.name}:${image.file.size}`),
+            String(options?.seed ?? 0),
+        ].join('|'));
+        await sleep(SIMULATED_LATENCY_MS, options?.signal);
+
+        const contentInputs = images.filter(image => image.role !== 'mask');
+        const maskInput = images.find(image => image.role === 'mask');
+        const bitmaps = await Promise.all(contentInputs.map(image => loadBitmap(image.file)));
+        const maskBitmap = maskInput ? await loadBitmap(maskInput.file) : null;
+        const label = `Offline preview #${seed.toString(16).slice(0, 6)}`;
+        const imageUrl = bitmaps.length === 1
+            ? compositeSingle(bitmaps[0], seed, label)
+            : compositeSurface(bitmaps[0], bitmaps.slice(1), maskBitmap, prompt, seed, label);
+        bitmaps.forEach(bitmap => bitmap.close());
+        maskBitmap?.close();
+
+        return { imageUrl, text: null };
+    },
+
+    editImage: async (base64Image: string, mimeType: string, prompt: string, options?: RequestOptions) => {
+        const seed = hashString(`${prompt}|${base64Image.length}`);
+        await sleep(SIMULATED_LATENCY_MS, options?.signal);
+        const blob = await (await fetch(`data:${mimeType};base64,${base64Image}`)).blob();
+        const bitmap = await loadBitmap(blob);
+        const { width, height } = fitWithin(bitmap.width, bitmap.height, MAX_EDGE);
+        const { canvas, ctx } = createCanvas(width, height);
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        bitmap.close();
+        tint(ctx, seed, width, height);
+        drawCaption(ctx, width, height, `Offline edit: ${prompt.slice(0, 60)}`);
+        return {
+            imageUrl: canvas.toDataURL('image/png'),
+            text: "Offline demo mode: here is a placeholder of your edit.",
+        };
+    },
+
+    createChat: () => {
+        let turn = 0;
+        return {
+            sendMessage: async () => {
+                await sleep(SIMULATED_LATENCY_MS);
+                const text = CANNED_REPLIES[turn % CANNED_REPLIES.length];
+                turn++;
+                return { text };
+            },
+        };
+    },
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseNominalSize } from './productMetadata';
+
+describe('parseNominalSize', () => {
+  it('reads centimetre sizes as they are', () => {
+    expect(parseNominalSize('60x120 cm')).toEqual({ width: '60', height: '120', unit: 'cm' });
+  });
+
+  it('converts millimetres and metres to centimetres', () => {
+    expect(parseNominalSize('600 × 1200 mm')).toEqual({ width: '60', height: '120', unit: 'cm' });
+    expect(parseNominalSize('0.6 x 1.2 m')).toEqual({ width: '60', height: '120', unit: 'cm' });
+  });
+
+  it('reads inch sizes in any spelling', () => {
+    expect(parseNominalSize('24 x 48 in')).toEqual({ width: '24', height: '48', unit: 'inches' });
+    expect(parseNominalSize('12 by 24 inches')).toEqual({ width: '12', height: '24', unit: 'inches' });
+    expect(parseNominalSize('12x24"')).toEqual({ width: '12', height: '24', unit: 'inches' });
+  });
+
+  it('accepts decimal commas', () => {
+    expect(parseNominalSize('7,5x30 cm')).toEqual({ width: '7.5', height: '30', unit: 'cm' });
+  });
+
+  it('reads a comma before three digits as a thousands separator', () => {
+    expect(parseNominalSize('1,200x600 mm')).toEqual({ width: '120', height: '60', unit: 'cm' });
+    expect(parseNominalSize('1,200.5 x 600')).toEqual({ width: '1200.5', height: '600' });
+  });
+
+  it('does not take a unit from the start of a word', () => {
+    expect(parseNominalSize('60x120 matt')).toEqual({ width: '60', height: '120' });
+    expect(parseNominalSize('30x60 index')).toEqual({ width: '30', height: '60' });
+  });
+
+  it('leaves the unit undefined when the size has none', () => {
+    expect(parseNominalSize('60x120')).toEqual({ width: '60', height: '120' });
+  });
+
+  it('returns null for text that is not a size', () => {
+    expect(parseNominalSize(undefined)).toBeNull();
+    expect(parseNominalSize('Large format')).toBeNull();
+    expect(parseNominalSize('0x120 cm')).toBeNull();
+  });
+});
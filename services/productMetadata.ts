@@ -0,0 +1,156 @@
+// services/productMetadata.ts
+// Structured product details for catalogue images, read from Drive file properties, a
+// "key: value" (or JSON) file description, or a per-folder JSON sidecar.
+
+import type { TileUnit } from '../types';
+import { toCsv } from './csv';
+
+export interface ProductMetadata {
+  sku?: string;
+  collection?: string;
+  finish?: string;
+  nominalSize?: string;
+  price?: string;
+  description?: string;
+}
+
+export const PRODUCT_FIELDS: { key: keyof ProductMetadata; label: string }[] = [
+  { key: 'sku', label: 'SKU' },
+  { key: 'collection', label: 'Collection' },
+  { key: 'finish', label: 'Finish' },
+  { key: 'nominalSize', label: 'Nominal size' },
+  { key: 'price', label: 'Price' },
+  { key: 'description', label: 'Description' },
+];
+
+// Name of the optional sidecar file in each catalogue folder.
+export const PRODUCT_SIDECAR_NAME = 'products.json';
+
+// Accepted spellings for each field, compared case-insensitively with separators removed.
+const FIELD_ALIASES: Record<keyof ProductMetadata, string[]> = {
+  sku: ['sku', 'code', 'productcode', 'itemcode', 'ref'],
+  collection: ['collection', 'series', 'range'],
+  finish: ['finish', 'surface'],
+  nominalSize: ['nominalsize', 'size', 'dimensions', 'format'],
+  price: ['price', 'unitprice'],
+  description: ['description', 'notes'],
+};
+
+const normaliseKey = (key: string) => key.toLowerCase().replace(/[\s_\-.]/g, '');
+
+const fieldForKey = (key: string): keyof ProductMetadata | undefined => {
+  const normalised = normaliseKey(key);
+  return (Object.keys(FIELD_ALIASES) as (keyof ProductMetadata)[]).find(field => FIELD_ALIASES[field].includes(normalised));
+};
+
+export const normaliseProduct = (source: Record<string, unknown> | null | undefined): ProductMetadata => {
+  const product: ProductMetadata = {};
+  if (!source) return product;
+  for (const [key, value] of Object.entries(source)) {
+    const field = fieldForKey(key);
+    if (field && (typeof value === 'string' || typeof value === 'number') && String(value).trim()) {
+      product[field] = String(value).trim();
+    }
+  }
+  return product;
+};
+
+// A description may be JSON, "Key: value" lines, or free text (kept as the description).
+export const parseProductDescription = (text: string | undefined): ProductMetadata => {
+  if (!text?.trim()) return {};
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      return normaliseProduct(JSON.parse(trimmed));
+    } catch {
+      // Fall through and treat it as text.
+    }
+  }
+  const fields: Record<string, string> = {};
+  const freeText: string[] = [];
+  for (const line of trimmed.split(/\r?\n/)) {
+    const match = line.match(/^\s*([\w .-]+?)\s*[:=]\s*(.+)$/);
+    if (match && fieldForKey(match[1])) {
+      fields[match[1]] = match[2];
+    } else if (line.trim()) {
+      freeText.push(line.trim());
+    }
+  }
+  const product = normaliseProduct(fields);
+  if (!product.description && freeText.length > 0) {
+    product.description = freeText.join(' ');
+  }
+  return product;
+};
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// Sidecar format: either { "<file name>": { sku, ... } } or { "products": [{ "file": "...", sku, ... }] }.
+// Entries are keyed by file name; the extension is optional.
+export const parseProductSidecar = (json: unknown): Map<string, ProductMetadata> => {
+  const entries = new Map<string, ProductMetadata>();
+  if (!json || typeof json !== 'object') return entries;
+  const list = (json as { products?: unknown }).products;
+  if (Array.isArray(list)) {
+    for (const item of list) {
+      const file = (item as { file?: unknown; fileName?: unknown })?.file ?? (item as { fileName?: unknown })?.fileName;
+      if (typeof file === 'string') {
+        entries.set(stripExtension(file).toLowerCase(), normaliseProduct(item as Record<string, unknown>));
+      }
+    }
+    return entries;
+  }
+  for (const [file, value] of Object.entries(json as Record<string, unknown>)) {
+    if (value && typeof value === 'object') {
+      entries.set(stripExtension(file).toLowerCase(), normaliseProduct(value as Record<string, unknown>));
+    }
+  }
+  return entries;
+};
+
+export const findSidecarProduct = (sidecar: Map<string, ProductMetadata>, fileName: string): ProductMetadata | undefined =>
+  sidecar.get(stripExtension(fileName).toLowerCase());
+
+// Later sources win, so pass them from least to most specific.
+export const mergeProducts = (...sources: (ProductMetadata | undefined)[]): ProductMetadata | undefined => {
+  const merged = Object.assign({}, ...sources.filter(Boolean)) as ProductMetadata;
+  return Object.keys(merged).length > 0 ? merged : undefined;
+};
+
+// "7,5" is a decimal comma; in "1,200" (three digits after it, or alongside a point) the comma
+// separates thousands.
+const parseSizeNumber = (text: string) =>
+  parseFloat(/^\d+,\d{1,2}$/.test(text) ? text.replace(',', '.') : text.replace(/,/g, ''));
+
+// Reads a nominal size such as "60x120 cm", "600 × 1200 mm" or "24 x 48 in" into tile dimensions.
+// A size without a unit ("60x120") could be either system, so its unit is left undefined for
+// the user to choose.
+export const parseNominalSize = (size: string | undefined): { width: string; height: string; unit?: TileUnit } | null => {
+  const match = size?.match(/([\d.,]+)\s*(?:x|×|\*|by)\s*([\d.,]+)\s*(?:(mm|cm|m|inches|inch|in)\b|("|''))?/i);
+  if (!match) return null;
+  const width = parseSizeNumber(match[1]);
+  const height = parseSizeNumber(match[2]);
+  if (!(width > 0 && height > 0)) return null;
+  const unit = (match[3] ?? match[4])?.toLowerCase();
+  if (!unit) return { width: String(width), height: String(height) };
+  if (unit === 'in' || unit === 'inch' || unit === 'inches' || unit === '"' || unit === "''") {
+    return { width: String(width), height: String(height), unit: 'inches' };
+  }
+  const toCm = unit === 'mm' ? 0.1 : unit === 'm' ? 100 : 1;
+  return { width: String(+(width * toCm).toFixed(2)), height: String(+(height * toCm).toFixed(2)), unit: 'cm' };
+};
+
+export const formatSkus = (products: (ProductMetadata | null | undefined)[]): string =>
+  [...new Set(products.map(p => p?.sku).filter((sku): sku is string => !!sku))].join(', ');
+
+// One row per product used in each image, so an image built from several SKUs lists them all.
+export const productsToCsv = (rows: { image: string; products: ProductMetadata[] }[]): string => {
+  const header = ['Image', ...PRODUCT_FIELDS.map(field => field.label)];
+  const lines = rows.flatMap(({ image, products }) =>
+    products.map(product => [image, ...PRODUCT_FIELDS.map(field => product[field.key] ?? '')]));
+  return toCsv([header, ...lines]);
+};
+
+// Safe for use in a download file name, e.g. "BV-1001_BV-2040".
+export const skusForFilename = (products: (ProductMetadata | null | undefined)[] | undefined): string =>
+  formatSkus(products ?? []).split(', ').filter(Boolean).map(sku => sku.replace(/[^\w.-]+/g, '-')).join('_');
@@ -0,0 +1,422 @@
+// services/projectFile.ts
+// .bovali project files: a ZIP holding project.json (every studio's inputs, options, outputs
+// and the chat transcript) plus the images it refers to. Recently saved or opened projects
+// are also kept in IndexedDB so they can be reopened from the app.
+
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import type { LayoutOptions } from './layingPatterns';
+import type { ProductMetadata } from './productMetadata';
+import type { ProvenanceRecord } from './provenance';
+import type { TemplateRef } from './promptTemplates';
+import type { TileEstimate } from './tileEstimator';
+import type { TileUnit } from '../types';
+
+// The parts of JSZip's API used here.
+interface JSZipEntry {
+  async(type: 'string'): Promise<string>;
+  async(type: 'arraybuffer'): Promise<ArrayBuffer>;
+}
+
+interface JSZipArchive {
+  file(path: string): JSZipEntry | null;
+  file(path: string, data: Blob | string): JSZipArchive;
+  generateAsync(options: { type: 'blob'; mimeType: string }): Promise<Blob>;
+}
+
+declare var JSZip: (new () => JSZipArchive) & { loadAsync(data: Blob): Promise<JSZipArchive> } | undefined;
+
+// The File System Access API calls the app uses, which TypeScript's DOM types leave out.
+interface FilePickerOptions {
+  suggestedName?: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}
+
+type FilePickerWindow = Window & {
+  showSaveFilePicker?: (options: FilePickerOptions) => Promise<FileSystemFileHandle>;
+  showOpenFilePicker?: (options: FilePickerOptions) => Promise<FileSystemFileHandle[]>;
+};
+
+type PermissionedFileHandle = FileSystemFileHandle & {
+  queryPermission?: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+  requestPermission?: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+};
+
+export const PROJECT_EXTENSION = '.bovali';
+const MANIFEST_NAME = 'project.json';
+const FORMAT = 'bovali-project';
+const FORMAT_VERSION = 1;
+
+export interface ProjectImage {
+  file: File;
+  mask?: File | null;
+  product?: ProductMetadata | null;
+}
+
+export interface ProjectSurface {
+  surfaceType: string;
+  pattern: ProjectImage | null;
+  materials: ProjectImage[];
+  tileWidth: string;
+  tileHeight: string;
+}
+
+// What is known about each output, as recorded when it was made.
+export interface ProjectOutputDetails {
+  template?: TemplateRef;
+  layout?: LayoutOptions;
+  estimate?: TileEstimate;
+  products?: ProductMetadata[];
+  provenance?: ProvenanceRecord;
+}
+
+// The in-memory form of a project. Outputs are image URLs (data URLs once read back).
+export interface ProjectState {
+  name: string;
+  activeTab: string;
+  generator: {
+    surfaceType: string;
+    generationMode: string;
+    renderShot: ProjectImage | null;
+    pattern: ProjectImage | null;
+    materials: ProjectImage[];
+    tileWidth: string;
+    tileHeight: string;
+    tileUnit: TileUnit;
+    layout: LayoutOptions | null;
+    numberOfVariations: number;
+    surfaces: ProjectSurface[];
+    outputs: string[];
+  };
+  extractor: {
+    sourceImage: ProjectImage | null;
+    extractionType: string;
+    sourceWidth: string;
+    sourceHeight: string;
+    sourceUnit: TileUnit;
+    output: string | null;
+  };
+  pattern: {
+    outline: ProjectImage | null;
+    materials: ProjectImage[];
+    reference: ProjectImage | null;
+    prompt: string;
+    output: string | null;
+  };
+  chat: { id: number; text: string; sender: 'user' | 'bot' }[];
+  outputDetails: Record<string, ProjectOutputDetails>;
+}
+
+// In project.json every image is replaced by a reference to its entry in the ZIP.
+interface AssetRef {
+  path: string;
+  name: string;
+  type: string;
+}
+
+type Serialized<T> =
+  T extends File ? AssetRef :
+  T extends ProjectImage ? { file: AssetRef; mask?: AssetRef | null; product?: ProductMetadata | null } :
+  T extends (infer U)[] ? Serialized<U>[] :
+  T extends object ? { [K in keyof T]: Serialized<T[K]> } :
+  T;
+
+interface ProjectManifest {
+  format: typeof FORMAT;
+  version: number;
+  savedAt: string;
+  name: string;
+  activeTab: string;
+  generator: Omit<Serialized<ProjectState['generator']>, 'outputs'> & { outputs: AssetRef[] };
+  extractor: Omit<Serialized<ProjectState['extractor']>, 'output'> & { output: AssetRef | null };
+  pattern: Omit<Serialized<ProjectState['pattern']>, 'output'> & { output: AssetRef | null };
+  chat: ProjectState['chat'];
+  // Keyed by the output's path in the ZIP.
+  outputDetails: Record<string, ProjectOutputDetails>;
+}
+
+const extensionFor = (type: string) => type.split('/')[1]?.replace('jpeg', 'jpg').replace(/\W.*$/, '') || 'png';
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Checks the structure readProjectFile relies on, so a damaged or hand-edited project.json
+// fails with a clear message instead of part-way through restoring the studios.
+const isProjectManifest = (value: unknown): value is ProjectManifest => {
+  if (!isObject(value)) return false;
+  const { generator, extractor, pattern } = value;
+  return typeof value.version === 'number'
+    && typeof value.name === 'string'
+    && isObject(generator) && Array.isArray(generator.materials) && Array.isArray(generator.surfaces) && Array.isArray(generator.outputs)
+    && generator.surfaces.every(surface => isObject(surface) && Array.isArray(surface.materials))
+    && isObject(extractor)
+    && isObject(pattern) && Array.isArray(pattern.materials)
+    && (value.chat === undefined || Array.isArray(value.chat))
+    && (value.outputDetails === undefined || isObject(value.outputDetails));
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Builds the .bovali file for a project.
+export const writeProjectFile = async (state: ProjectState): Promise<Blob> => {
+  if (typeof JSZip === 'undefined') {
+    throw new Error("Projects can't be saved because a required library is missing.");
+  }
+  const zip = new JSZip();
+  let count = 0;
+  const addBlob = (blob: Blob, name: string): AssetRef => {
+    const type = blob.type || 'image/png';
+    const path = `assets/${String(++count).padStart(3, '0')}.${extensionFor(type)}`;
+    zip.file(path, blob);
+    return { path, name, type };
+  };
+  const addImage = (image: ProjectImage | null) => image && {
+    file: addBlob(image.file, image.file.name),
+    mask: image.mask ? addBlob(image.mask, image.mask.name) : null,
+    product: image.product ?? null,
+  };
+  const outputPaths = new Map<string, AssetRef>();
+  const addOutput = async (url: string | null) => {
+    if (!url) return null;
+    if (!outputPaths.has(url)) {
+      const blob = await (await fetch(url)).blob();
+      outputPaths.set(url, addBlob(blob, `output_${outputPaths.size + 1}.${extensionFor(blob.type)}`));
+    }
+    return outputPaths.get(url)!;
+  };
+
+  const { generator, extractor, pattern } = state;
+  const manifest: ProjectManifest = {
+    format: FORMAT,
+    version: FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    name: state.name,
+    activeTab: state.activeTab,
+    generator: {
+      ...generator,
+      renderShot: addImage(generator.renderShot),
+      pattern: addImage(generator.pattern),
+      materials: generator.materials.map(image => addImage(image)!),
+      surfaces: generator.surfaces.map(surface => ({
+        ...surface,
+        pattern: addImage(surface.pattern),
+        materials: surface.materials.map(image => addImage(image)!),
+      })),
+      outputs: await Promise.all(generator.outputs.map(url => addOutput(url) as Promise<AssetRef>)),
+    },
+    extractor: {
+      ...extractor,
+      sourceImage: addImage(extractor.sourceImage),
+      output: await addOutput(extractor.output),
+    },
+    pattern: {
+      ...pattern,
+      outline: addImage(pattern.outline),
+      materials: pattern.materials.map(image => addImage(image)!),
+      reference: addImage(pattern.reference),
+      output: await addOutput(pattern.output),
+    },
+    chat: state.chat,
+    outputDetails: {},
+  };
+  outputPaths.forEach((ref, url) => {
+    if (state.outputDetails[url]) manifest.outputDetails[ref.path] = state.outputDetails[url];
+  });
+  zip.file(MANIFEST_NAME, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+// Reads a .bovali file back into a project, with every image restored as a File.
+export const readProjectFile = async (blob: Blob): Promise<ProjectState> => {
+  if (typeof JSZip === 'undefined') {
+    throw new Error("Projects can't be opened because a required library is missing.");
+  }
+  let zip: JSZipArchive;
+  let parsed: unknown = null;
+  try {
+    zip = await JSZip.loadAsync(blob);
+    const manifestEntry = zip.file(MANIFEST_NAME);
+    parsed = manifestEntry ? JSON.parse(await manifestEntry.async('string')) : null;
+  } catch {
+    throw new Error("This file isn't a Bovali project.");
+  }
+  if (!isObject(parsed) || parsed.format !== FORMAT) {
+    throw new Error("This file isn't a Bovali project.");
+  }
+  if (typeof parsed.version === 'number' && parsed.version > FORMAT_VERSION) {
+    throw new Error("This project was saved by a newer version of the app.");
+  }
+  if (!isProjectManifest(parsed)) {
+    throw new Error("This project file is damaged and can't be opened.");
+  }
+  const manifest = parsed;
+
+  const readBlob = async (ref: AssetRef): Promise<Blob> => {
+    const entry = zip.file(ref.path);
+    if (!entry) throw new Error(`The project is missing ${ref.path}.`);
+    return new Blob([await entry.async('arraybuffer')], { type: ref.type });
+  };
+  const readFile = async (ref: AssetRef) => new File([await readBlob(ref)], ref.name, { type: ref.type });
+  const readImage = async (image: Serialized<ProjectImage> | null): Promise<ProjectImage | null> => image && {
+    file: await readFile(image.file),
+    mask: image.mask ? await readFile(image.mask) : null,
+    product: image.product ?? null,
+  };
+  const readImages = async (images: Serialized<ProjectImage>[]) =>
+    (await Promise.all(images.map(readImage))).filter((image): image is ProjectImage => !!image);
+  const outputUrls = new Map<string, string>();
+  const readOutput = async (ref: AssetRef | null) => {
+    if (!ref) return null;
+    if (!outputUrls.has(ref.path)) outputUrls.set(ref.path, await blobToDataUrl(await readBlob(ref)));
+    return outputUrls.get(ref.path)!;
+  };
+
+  const { generator, extractor, pattern } = manifest;
+  const state: ProjectState = {
+    name: manifest.name,
+    activeTab: manifest.activeTab,
+    generator: {
+      ...generator,
+      renderShot: await readImage(generator.renderShot),
+      pattern: await readImage(generator.pattern),
+      materials: await readImages(generator.materials),
+      surfaces: await Promise.all(generator.surfaces.map(async surface => ({
+        ...surface,
+        pattern: await readImage(surface.pattern),
+        materials: await readImages(surface.materials),
+      }))),
+      outputs: (await Promise.all(generator.outputs.map(readOutput))) as string[],
+    },
+    extractor: {
+      ...extractor,
+      sourceImage: await readImage(extractor.sourceImage),
+      output: await readOutput(extractor.output),
+    },
+    pattern: {
+      ...pattern,
+      outline: await readImage(pattern.outline),
+      materials: await readImages(pattern.materials),
+      reference: await readImage(pattern.reference),
+      output: await readOutput(pattern.output),
+    },
+    chat: manifest.chat ?? [],
+    outputDetails: {},
+  };
+  Object.entries(manifest.outputDetails ?? {}).forEach(([path, details]) => {
+    const url = outputUrls.get(path);
+    if (url) state.outputDetails[url] = details;
+  });
+  return state;
+};
+
+export const projectFilename = (name: string) =>
+  `${name.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'Untitled project'}${PROJECT_EXTENSION}`;
+
+export const projectNameFromFilename = (filename: string) =>
+  filename.replace(new RegExp(`\\${PROJECT_EXTENSION}$`, 'i'), '') || 'Untitled project';
+
+// --- Recent projects ---
+
+export interface RecentProject {
+  id: string;
+  name: string;
+  savedAt: number;
+  size: number;
+}
+
+interface StoredProject extends RecentProject {
+  blob: Blob;
+  // The file on disk it was saved to or opened from, where the browser allows that.
+  handle?: FileSystemFileHandle;
+}
+
+const MAX_RECENT_PROJECTS = 8;
+const DB_NAME = 'bovaliProjects';
+const DB_VERSION = 1;
+const STORE = 'recent';
+
+const getDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+  db.createObjectStore(STORE, { keyPath: 'id' });
+});
+
+export const createProjectId = () => `project_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Most recent first.
+export const listRecentProjects = async (): Promise<RecentProject[]> => {
+  const db = await getDb();
+  const stored = await requestToPromise<StoredProject[]>(db.transaction(STORE).objectStore(STORE).getAll());
+  return stored
+    .sort((a, b) => b.savedAt - a.savedAt)
+    .map(({ id, name, savedAt, size }) => ({ id, name, savedAt, size }));
+};
+
+// Keeps a copy of the project, dropping the oldest beyond the limit.
+export const rememberProject = async (id: string, name: string, blob: Blob, handle?: FileSystemFileHandle): Promise<void> => {
+  const existing = await listRecentProjects();
+  const stale = existing.filter(project => project.id !== id).slice(MAX_RECENT_PROJECTS - 1);
+  const db = await getDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  const record: StoredProject = { id, name, savedAt: Date.now(), size: blob.size, blob, handle };
+  store.put(record);
+  stale.forEach(project => store.delete(project.id));
+  await transactionDone(transaction);
+};
+
+export const getRecentProject = async (id: string): Promise<{ blob: Blob; handle?: FileSystemFileHandle } | null> => {
+  const db = await getDb();
+  const stored = await requestToPromise<StoredProject | undefined>(db.transaction(STORE).objectStore(STORE).get(id));
+  return stored ? { blob: stored.blob, handle: stored.handle } : null;
+};
+
+export const forgetRecentProject = async (id: string): Promise<void> => {
+  const db = await getDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+// --- Files on disk ---
+
+const FILE_PICKER_TYPES = [{ description: 'Bovali project', accept: { 'application/zip': [PROJECT_EXTENSION] } }];
+
+export const canWriteFilesInPlace = () => typeof (window as FilePickerWindow).showSaveFilePicker === 'function';
+
+// Asks where to save. Returns null if the browser can't write files directly, in which case
+// the caller should download the project instead.
+export const pickSaveLocation = async (suggestedName: string): Promise<FileSystemFileHandle | null> => {
+  const picker = (window as FilePickerWindow).showSaveFilePicker;
+  if (typeof picker !== 'function') return null;
+  return picker.call(window, { suggestedName, types: FILE_PICKER_TYPES });
+};
+
+export const pickProjectToOpen = async (): Promise<{ file: File; handle: FileSystemFileHandle } | null> => {
+  const picker = (window as FilePickerWindow).showOpenFilePicker;
+  if (typeof picker !== 'function') return null;
+  const [handle] = await picker.call(window, { types: FILE_PICKER_TYPES });
+  return { file: await handle.getFile(), handle };
+};
+
+export const writeToHandle = async (handle: PermissionedFileHandle, blob: Blob): Promise<void> => {
+  if (handle.queryPermission && (await handle.queryPermission({ mode: 'readwrite' })) !== 'granted') {
+    if ((await handle.requestPermission?.({ mode: 'readwrite' })) !== 'granted') {
+      throw new Error("Permission to save over the project file was denied.");
+    }
+  }
+  const writable = await handle.createWritable();
+  await writable.write(blob);
+  await writable.close();
+};
+
+export const downloadProject = (name: string, blob: Blob) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = projectFilename(name);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
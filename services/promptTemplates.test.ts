@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { fillTemplate, getMissingRequiredVariables } from './promptTemplates';
+
+describe('getMissingRequiredVariables', () => {
+  it('requires the mask instruction in every Generator mode', () => {
+    for (const id of ['patternAndMaterial', 'patternOnly', 'materialOnly', 'multiSurface'] as const) {
+      expect(getMissingRequiredVariables(id, 'Re-surface the room.')).toContain('maskInstruction');
+    }
+  });
+
+  it('requires the material instruction where materials are applied', () => {
+    expect(getMissingRequiredVariables('patternAndMaterial', '{{maskInstruction}} {{layoutInstruction}}')).toEqual(['materialInstruction']);
+    expect(getMissingRequiredVariables('materialOnly', '{{maskInstruction}}')).toEqual(['materialInstruction']);
+  });
+
+  it('requires the surface assignments in multi-surface mode', () => {
+    expect(getMissingRequiredVariables('multiSurface', '{{ maskInstruction }}')).toEqual(['assignments']);
+  });
+
+  it('accepts a body that keeps every required placeholder', () => {
+    expect(getMissingRequiredVariables('multiSurface', '{{maskInstruction}}\n{{assignments}}')).toEqual([]);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('fills placeholders and leaves unknown ones empty', () => {
+    expect(fillTemplate('Tile the {{surface}} at {{ dimensions }}.{{missing}}', { surface: 'floor', dimensions: '60 x 60 cm' }))
+      .toBe('Tile the floor at 60 x 60 cm.');
+  });
+});
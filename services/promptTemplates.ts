@@ -0,0 +1,368 @@
+// services/promptTemplates.ts
+// Versioned registry of the prompts sent to the generation provider. Built-in defaults live
+// here; edits made in the settings screen are saved to localStorage as new versions.
+
+export type PromptTemplateId =
+  | 'chatSystem'
+  | 'edit'
+  | 'extract'
+  | 'patternAndMaterial'
+  | 'patternOnly'
+  | 'materialOnly'
+  | 'multiSurface'
+  | 'outline';
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  variables: string[];
+  // Instructions a generation depends on. If a customised body leaves out one of these
+  // placeholders, the value is appended to the prompt rather than silently dropped.
+  requiredVariables?: string[];
+  defaultBody: string;
+}
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  variables: string[];
+  version: number;
+  // Short hash of the body. Version 1 is the built-in wording, which can change between
+  // releases, so the revision is what pins down the exact text.
+  revision: string;
+  body: string;
+  isDefault: boolean;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  savedAt: string | null;
+}
+
+// Identifies the exact template text a generation was made with.
+export interface TemplateRef {
+  id: PromptTemplateId;
+  version: number;
+  // Missing on records made before revisions were tracked.
+  revision?: string;
+}
+
+export type TemplateVariables = Record<string, string | number>;
+
+const STORAGE_KEY = 'bovaliPromptTemplates';
+const MAX_STORED_VERSIONS = 20;
+
+const DEFINITIONS: PromptTemplateDefinition[] = [
+  {
+    id: 'chatSystem',
+    name: 'Design Assistant',
+    description: 'System instruction for the chat assistant. A saved change starts a new conversation from the next message.',
+    variables: [],
+    defaultBody: `You are a sophisticated and knowledgeable AI assistant for Bovali, a luxury brand specializing in high-end flooring and cladding.
+Your expertise lies in contemporary architecture and Italian design. Your purpose is to assist clients by answering questions about
+Bovali's products, explaining the AI design generation process, and offering expert design advice. When the user provides an instruction to edit an image, you fulfill the request and provide a brief confirmation. Maintain a professional,
+elegant, and helpful tone at all times. If a question is outside the scope of interior design, flooring, cladding, or Bovali,
+politely state that your expertise is focused on these areas.`,
+  },
+  {
+    id: 'edit',
+    name: 'Chat Image Edit',
+    description: 'Used when the Design Assistant edits the current result.',
+    variables: ['userPrompt'],
+    defaultBody: `As an expert AI image editor, edit the provided image based on the following instruction, ensuring the result is photorealistic and maintains the original image's context.
+Instruction: "{{userPrompt}}"`,
+  },
+  {
+    id: 'extract',
+    name: 'Extractor',
+    description: 'Extractor Studio: turns a photo into a catalogue-ready pattern or material.',
+    variables: ['extractionType', 'dimensions', 'dimensionInstruction'],
+    defaultBody: `You are an expert AI assistant specializing in creating professional, catalogue-ready images for the luxury design brand Bovali.
+Your task is to process the user-submitted photograph and extract a specific element.
+Analyze the image and correct for any perspective distortion, angled views, uneven lighting, and color inconsistencies.
+The final result must be a clean, seamless, front-facing, high-resolution image of the requested element, suitable for a professional design catalogue.
+
+Extraction Type: Extract the {{extractionType}}.
+- If 'Pattern', isolate the primary repeating pattern.
+- If 'Material', isolate the material's texture, color, and finish, ignoring distinct patterns unless they are part of the material itself (like wood grain).
+
+{{dimensionInstruction}}
+
+Output only the processed image. Do not add text or other artifacts. The image is provided after this prompt.`,
+  },
+  {
+    id: 'patternAndMaterial',
+    name: 'Apply Pattern & Material',
+    description: 'Generator Studio, "Apply Pattern & Material" mode.',
+    variables: ['surface', 'maskInstruction', 'materialCount', 'materialInstruction', 'dimensions', 'dimensionInstruction', 'layout', 'layoutInstruction'],
+    requiredVariables: ['maskInstruction', 'materialInstruction', 'layoutInstruction'],
+    defaultBody: `You are an AI assistant for Bovali, a luxury interior design brand.
+Your task is to modify the primary "Render Shot" image.
+Identify the {{surface}} in the "Render Shot".
+{{maskInstruction}}
+Apply the visual pattern from the "Pattern Image" to the {{surface}}.
+{{materialInstruction}}
+{{dimensionInstruction}}
+{{layoutInstruction}}
+The final result must be a single, photorealistic image that seamlessly integrates the new pattern and material(s) onto the specified surface in the original render shot, maintaining realistic lighting, shadows, and perspective.
+Do not add any text or other artifacts to the image. Output only the modified image.
+The images are provided after this prompt.`,
+  },
+  {
+    id: 'patternOnly',
+    name: 'Apply Pattern Only',
+    description: 'Generator Studio, "Apply Pattern Only" mode.',
+    variables: ['surface', 'maskInstruction', 'dimensions', 'dimensionInstruction', 'layout', 'layoutInstruction'],
+    requiredVariables: ['maskInstruction', 'layoutInstruction'],
+    defaultBody: `You are an AI assistant for Bovali, a luxury interior design brand.
+Your task is to modify the primary "Render Shot" image.
+Identify the {{surface}} in the "Render Shot".
+{{maskInstruction}}
+Apply ONLY the visual pattern from the "Pattern Image" to the {{surface}}.
+{{dimensionInstruction}}
+{{layoutInstruction}}
+The original material, texture, lighting, and colors of the surface in the "Render Shot" should be preserved as much as possible.
+The final result must be a single, photorealistic image that seamlessly integrates the new pattern onto the specified surface in the original render shot, maintaining realistic lighting, shadows, and perspective.
+Do not add any text or other artifacts to the image. Output only the modified image.
+The images are provided after this prompt.`,
+  },
+  {
+    id: 'materialOnly',
+    name: 'Apply Material Only',
+    description: 'Generator Studio, "Apply Material Only" mode.',
+    variables: ['surface', 'maskInstruction', 'materialCount', 'materialInstruction'],
+    requiredVariables: ['maskInstruction', 'materialInstruction'],
+    defaultBody: `You are an AI assistant for Bovali, a luxury interior design brand.
+Your task is to modify the primary "Render Shot" image.
+Identify the {{surface}} in the "Render Shot".
+{{maskInstruction}}
+{{materialInstruction}}
+If the original surface had a pattern, it should be preserved if possible, but rendered with the new material properties.
+The final result must be a single, photorealistic image that seamlessly integrates the new material(s) onto the specified surface in the original render shot, maintaining realistic lighting, shadows, and perspective.
+Do not add any text or other artifacts to the image. Output only the modified image.
+The images are provided after this prompt.`,
+  },
+  {
+    id: 'multiSurface',
+    name: 'Multi-Surface',
+    description: 'Generator Studio, "Multi-Surface" mode.',
+    variables: ['maskInstruction', 'surfaceCount', 'assignments'],
+    requiredVariables: ['maskInstruction', 'assignments'],
+    defaultBody: `You are an AI assistant for Bovali, a luxury interior design brand.
+Your task is to modify the primary "Render Shot" image (image 1) by re-surfacing {{surfaceCount}} surfaces at once.
+{{maskInstruction}}
+Apply each of the following assignments to its surface only. Keep every other surface as it is in the "Render Shot".
+{{assignments}}
+The final result must be a single, photorealistic image that seamlessly integrates every assignment, maintaining realistic lighting, shadows, and perspective.
+Do not add any text or other artifacts to the image. Output only the modified image.
+The images are provided after this prompt, numbered in the order given.`,
+  },
+  {
+    id: 'outline',
+    name: 'Pattern Studio',
+    description: 'Pattern Studio: builds a design from an outline and materials.',
+    variables: ['materialCount', 'userPrompt'],
+    defaultBody: `You are an AI assistant for Bovali, a luxury interior design brand.
+Your task is to create a new surface design based on the provided images.
+
+You have received:
+- A "Pattern Outline" image, which will be the first image provided. This image acts as a stencil or mask for the final design.
+- One or more "Material Images" following the outline. These provide the textures, colors, and properties for the design.
+- An optional "Reference Image" provided last, for overall style and lighting inspiration.
+
+Your instructions are:
+1. Use the "Pattern Outline" to define the shape of the new design. The design should only appear within the solid areas of the outline.
+2. Apply the textures and properties from the "Material Images" to fill the shape defined by the outline.
+3. Follow the user prompt to determine how to combine the different materials. For example, "use the marble for the main area and the gold for the edges." If no prompt is provided, use your design expertise to combine them artfully.
+4. If a "Reference Image" is provided, use it to guide the final aesthetic, lighting, and photorealism.
+5. The final output must be a single, photorealistic, catalogue-quality image of the generated pattern on a neutral background. Do not add text.
+
+User Prompt: "{{userPrompt}}"
+
+The images are provided after this prompt.`,
+  },
+];
+
+// Example values used by the settings screen to preview a template.
+export const SAMPLE_VARIABLES: TemplateVariables = {
+  surface: 'flooring',
+  dimensions: '60 x 120 cm',
+  dimensionInstruction: 'The "Pattern Image" represents a single tile with the dimensions 60 x 120 cm. Use this information to accurately scale the pattern on the surface.',
+  materialCount: 2,
+  materialInstruction: 'Then, apply the textures, material properties (like gloss, reflection, texture), and color palettes from the "Material Images" to the same surface.',
+  maskInstruction: '',
+  layout: 'Herringbone · 2 mm grout',
+  layoutInstruction: 'The "Pattern Image" shows a single tile. Lay it repeatedly in a herringbone, with rectangular tiles laid at 90° to each other in a staggered zig-zag so the end of each tile meets the side of the next. Separate the tiles with 2 mm grout joints in the colour #d9d4cc.',
+  extractionType: 'Pattern',
+  userPrompt: 'Use the marble for the main area and the brass for the inlays.',
+  surfaceCount: 2,
+  assignments: '1. flooring: apply the pattern from image 2.\n2. walls: apply the texture, material properties and colour palette from image 3.',
+};
+
+interface StoredTemplate {
+  current: number;
+  versions: PromptTemplateVersion[];
+}
+
+type StoredTemplates = Partial<Record<PromptTemplateId, StoredTemplate>>;
+
+const loadStored = (): StoredTemplates => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error("Could not load prompt templates from local storage", error);
+    return {};
+  }
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// When storage is full, older versions are dropped (keeping each template's current one) and
+// the save is tried once more.
+const saveStored = (stored: StoredTemplates) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    return;
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+  }
+  const pruned: StoredTemplates = {};
+  (Object.keys(stored) as PromptTemplateId[]).forEach(id => {
+    const entry = stored[id]!;
+    pruned[id] = { current: entry.current, versions: entry.versions.filter(v => v.version === entry.current) };
+  });
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pruned));
+    console.warn("Browser storage was full, so earlier prompt template versions were removed.");
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    throw new Error("There isn't room in browser storage to save this template. Free some space and try again.");
+  }
+};
+
+// FNV-1a, as 8 hex digits.
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const getDefinition = (id: PromptTemplateId): PromptTemplateDefinition => {
+  const definition = DEFINITIONS.find(d => d.id === id);
+  if (!definition) {
+    throw new Error(`Unknown prompt template: "${id}"`);
+  }
+  return definition;
+};
+
+export const isPromptTemplateId = (id: string): id is PromptTemplateId => DEFINITIONS.some(d => d.id === id);
+
+export const getPromptTemplateHistory = (id: PromptTemplateId): PromptTemplateVersion[] => {
+  const builtIn: PromptTemplateVersion = { version: 1, body: getDefinition(id).defaultBody, savedAt: null };
+  return [builtIn, ...(loadStored()[id]?.versions ?? [])];
+};
+
+export const getPromptTemplate = (id: PromptTemplateId): PromptTemplate => {
+  const definition = getDefinition(id);
+  const stored = loadStored()[id];
+  const current = stored?.versions.find(v => v.version === stored.current);
+  const body = current?.body ?? definition.defaultBody;
+  return {
+    id,
+    name: definition.name,
+    description: definition.description,
+    variables: definition.variables,
+    version: current?.version ?? 1,
+    revision: hashText(body),
+    body,
+    isDefault: !current || current.body === definition.defaultBody,
+  };
+};
+
+export const listPromptTemplates = (): PromptTemplate[] => DEFINITIONS.map(d => getPromptTemplate(d.id));
+
+// Every save becomes a new version so earlier generations stay traceable to their exact wording.
+export const savePromptTemplate = (id: PromptTemplateId, body: string): PromptTemplate => {
+  const stored = loadStored();
+  const history = getPromptTemplateHistory(id);
+  const nextVersion = Math.max(...history.map(v => v.version)) + 1;
+  const versions = [...(stored[id]?.versions ?? []), { version: nextVersion, body, savedAt: new Date().toISOString() }];
+  stored[id] = { current: nextVersion, versions: versions.slice(-MAX_STORED_VERSIONS) };
+  saveStored(stored);
+  return getPromptTemplate(id);
+};
+
+export const resetPromptTemplate = (id: PromptTemplateId): PromptTemplate => {
+  return savePromptTemplate(id, getDefinition(id).defaultBody);
+};
+
+export const fillTemplate = (body: string, variables: TemplateVariables): string => {
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = variables[name];
+    return value === undefined ? '' : String(value);
+  });
+};
+
+const hasPlaceholder = (body: string, name: string) => new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(body);
+
+// Required placeholders the body leaves out, for the settings screen to warn about.
+export const getMissingRequiredVariables = (id: PromptTemplateId, body: string): string[] =>
+  (getDefinition(id).requiredVariables ?? []).filter(name => !hasPlaceholder(body, name));
+
+export const renderPromptTemplate = (
+  id: PromptTemplateId,
+  variables: TemplateVariables
+): { text: string; template: TemplateRef } => {
+  const template = getPromptTemplate(id);
+  const appended = getMissingRequiredVariables(id, template.body)
+    .map(name => variables[name])
+    .filter(value => value !== undefined && value !== '');
+  return {
+    text: [fillTemplate(template.body, variables), ...appended].join('\n'),
+    template: { id, version: template.version, revision: template.revision },
+  };
+};
+
+export const formatTemplateRef = (ref: TemplateRef): string =>
+  `${getDefinition(ref.id).name} v${ref.version}${ref.revision ? ` (${ref.revision})` : ''}`;
+
+export const exportPromptTemplates = (): string => {
+  const templates = listPromptTemplates().map(({ id, version, body }) => ({ id, version, body }));
+  return JSON.stringify({ format: 'bovali-prompt-templates', exportedAt: new Date().toISOString(), templates }, null, 2);
+};
+
+// Imports templates exported from another installation. Each changed body is saved as a new
+// local version rather than overwriting history. Returns the number of templates updated.
+export const importPromptTemplates = (json: string): number => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The selected file is not valid JSON.");
+  }
+  const templates = (parsed as { templates?: unknown })?.templates;
+  if (!Array.isArray(templates)) {
+    throw new Error("The selected file does not contain any prompt templates.");
+  }
+
+  let updated = 0;
+  for (const entry of templates) {
+    const { id, body } = (entry ?? {}) as { id?: unknown; body?: unknown };
+    if (typeof id !== 'string' || typeof body !== 'string' || !isPromptTemplateId(id)) {
+      continue;
+    }
+    if (getPromptTemplate(id).body !== body) {
+      savePromptTemplate(id, body);
+      updated++;
+    }
+  }
+  return updated;
+};
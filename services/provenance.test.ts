@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { embedProvenance, readProvenance } from './provenance';
+import type { ProvenanceRecord } from './provenance';
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Signature, a 1×1 IHDR and IEND. readProvenance does not check CRCs, so they are left at zero.
+const tinyPng = () => new Blob([new Uint8Array([
+  ...PNG_SIGNATURE,
+  0, 0, 0, 13, ...'IHDR'.split('').map(c => c.charCodeAt(0)), 0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0, 0, 0, 0, 0,
+  0, 0, 0, 0, ...'IEND'.split('').map(c => c.charCodeAt(0)), 0, 0, 0, 0,
+])], { type: 'image/png' });
+
+const record: ProvenanceRecord = {
+  format: 'bovali-provenance',
+  version: 1,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  studio: 'generator',
+  provider: 'gemini',
+  model: 'test-model',
+  settings: { surfaceType: 'Floor', tileWidth: '60', tileHeight: '120', tileUnit: 'cm', prompt: 'Carrelage « grès » 60×120 — ✓' },
+  inputs: [{ role: 'renderShot', name: 'kitchen.jpg', sha256: 'a'.repeat(64) }],
+};
+
+const chunkTypes = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const types: string[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    types.push(String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)));
+    offset += 12 + length;
+  }
+  return types;
+};
+
+describe('embedProvenance / readProvenance', () => {
+  it('reads back the record it wrote, including non-Latin text', async () => {
+    const stamped = await embedProvenance(tinyPng(), record);
+    expect(stamped.type).toBe('image/png');
+    await expect(readProvenance(stamped)).resolves.toEqual(record);
+  });
+
+  it('adds its text chunks before IEND', async () => {
+    const types = await chunkTypes(await embedProvenance(tinyPng(), record));
+    expect(types).toEqual(['IHDR', 'tEXt', 'tEXt', 'iTXt', 'IEND']);
+  });
+
+  it('writes a valid CRC for each chunk', async () => {
+    const bytes = new Uint8Array(await (await embedProvenance(tinyPng(), record)).arrayBuffer());
+    // The CRC of an empty IEND chunk is fixed by the PNG specification.
+    expect(Array.from(bytes.subarray(bytes.length - 4))).toEqual([0xae, 0x42, 0x60, 0x82]);
+  });
+
+  it('replaces an earlier record rather than adding a second one', async () => {
+    const first = await embedProvenance(tinyPng(), record);
+    const second = await embedProvenance(first, { ...record, studio: 'chat', parent: record });
+    expect((await chunkTypes(second)).filter(type => type === 'iTXt')).toHaveLength(1);
+    await expect(readProvenance(second)).resolves.toMatchObject({ studio: 'chat', parent: record });
+  });
+
+  it('returns null for images without a record', async () => {
+    await expect(readProvenance(tinyPng())).resolves.toBeNull();
+    await expect(readProvenance(new Blob(['not an image'], { type: 'image/jpeg' }))).resolves.toBeNull();
+    await expect(readProvenance(new Blob(['not an image'], { type: 'image/png' }))).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,239 @@
+// services/provenance.ts
+// Where an output came from: hashes of its input images, the settings, prompt template and model
+// that produced it. Written into downloaded PNGs as text chunks so a re-imported image can
+// bring its settings back.
+
+import { getProvider } from './generationProvider';
+import type { LayoutOptions } from './layingPatterns';
+import type { ProductMetadata } from './productMetadata';
+import type { TemplateRef } from './promptTemplates';
+import type { TileUnit } from '../types';
+
+export type ProvenanceStudio = 'generator' | 'extractor' | 'pattern' | 'chat';
+
+export interface ProvenanceInput {
+  // e.g. 'renderShot', 'pattern', 'material', 'mask', 'source', 'outline', 'reference'.
+  role: string;
+  // Index into settings.surfaces for inputs of a multi-surface render.
+  surface?: number;
+  name?: string;
+  sha256: string;
+  sku?: string;
+}
+
+// Only the fields relevant to the studio are set.
+export interface ProvenanceSettings {
+  generationMode?: string;
+  surfaceType?: string;
+  tileWidth?: string;
+  tileHeight?: string;
+  tileUnit?: TileUnit;
+  numberOfVariations?: number;
+  surfaces?: { surfaceType: string; tileWidth: string; tileHeight: string }[];
+  extractionType?: string;
+  sourceWidth?: string;
+  sourceHeight?: string;
+  sourceUnit?: TileUnit;
+  prompt?: string;
+  // The chat instruction behind an edit.
+  instruction?: string;
+}
+
+export interface ProvenanceRecord {
+  format: 'bovali-provenance';
+  version: number;
+  createdAt: string;
+  studio: ProvenanceStudio;
+  provider: string;
+  model: string;
+  template?: TemplateRef;
+  layout?: LayoutOptions | null;
+  // Which variation of a batch this is, from 0.
+  variation?: number;
+  settings: ProvenanceSettings;
+  inputs: ProvenanceInput[];
+  // For edits, the record of the image that was edited, when known.
+  parent?: ProvenanceRecord;
+}
+
+export interface ProvenanceSource {
+  role: string;
+  surface?: number;
+  image: Blob | string | null | undefined;
+  product?: ProductMetadata | null;
+}
+
+const PROVENANCE_KEYWORD = 'BovaliProvenance';
+const SOFTWARE = 'Bovali AI Studio';
+
+export const STUDIO_LABELS: Record<ProvenanceStudio, string> = {
+  generator: 'Generator Studio',
+  extractor: 'Extractor Studio',
+  pattern: 'Pattern Studio',
+  chat: 'Design Assistant edit',
+};
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Hashes the inputs now, before they can change; the template and timestamp are added
+// with stampProvenance once the output exists.
+export const captureProvenance = async (
+  studio: ProvenanceStudio,
+  sources: ProvenanceSource[],
+  settings: ProvenanceSettings
+): Promise<ProvenanceRecord> => {
+  const provider = getProvider();
+  const inputs = await Promise.all(sources
+    .filter((source): source is ProvenanceSource & { image: Blob | string } => !!source.image)
+    .map(async ({ role, surface, image, product }): Promise<ProvenanceInput> => {
+      const blob = typeof image === 'string' ? await (await fetch(image)).blob() : image;
+      return {
+        role,
+        ...(surface !== undefined && { surface }),
+        ...(blob instanceof File && { name: blob.name }),
+        sha256: await hashBlob(blob),
+        ...(product?.sku && { sku: product.sku }),
+      };
+    }));
+  return {
+    format: 'bovali-provenance',
+    version: 1,
+    createdAt: new Date().toISOString(),
+    studio,
+    provider: provider.id,
+    model: provider.imageModel,
+    settings,
+    inputs,
+  };
+};
+
+export const stampProvenance = (
+  base: ProvenanceRecord,
+  details: Pick<ProvenanceRecord, 'template' | 'layout' | 'variation' | 'parent'> = {}
+): ProvenanceRecord => ({ ...base, ...details, createdAt: new Date().toISOString() });
+
+export const describeProvenance = (record: ProvenanceRecord): string =>
+  `${STUDIO_LABELS[record.studio]}, ${new Date(record.createdAt).toLocaleString()} · ${record.model}`;
+
+// --- PNG text chunks ---
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const encodeChunk = ({ type, data }: PngChunk): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+
+const textChunk = (keyword: string, text: string): PngChunk => ({
+  type: 'tEXt',
+  data: latin1(`${keyword}\0${text}`),
+});
+
+// Uncompressed iTXt: keyword, compression flag and method, empty language and translated keyword, UTF-8 text.
+const internationalTextChunk = (keyword: string, text: string): PngChunk => {
+  const header = latin1(`${keyword}\0\0\0\0\0`);
+  const body = new TextEncoder().encode(text);
+  const data = new Uint8Array(header.length + body.length);
+  data.set(header);
+  data.set(body, header.length);
+  return { type: 'iTXt', data };
+};
+
+const chunkKeyword = (chunk: PngChunk) => {
+  const end = chunk.data.indexOf(0);
+  return String.fromCharCode(...chunk.data.subarray(0, end === -1 ? 0 : end));
+};
+
+const toPng = async (blob: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return new Promise((resolve, reject) => canvas.toBlob(png => png ? resolve(png) : reject(new Error("Could not encode PNG.")), 'image/png'));
+};
+
+// Returns the image as a PNG carrying the record (iTXt) and a short tEXt summary.
+// Other formats are converted to PNG first.
+export const embedProvenance = async (image: Blob, record: ProvenanceRecord): Promise<Blob> => {
+  let bytes = new Uint8Array(await image.arrayBuffer());
+  if (!isPng(bytes)) {
+    bytes = new Uint8Array(await (await toPng(image)).arrayBuffer());
+  }
+  const chunks = readChunks(bytes).filter(chunk =>
+    !((chunk.type === 'iTXt' || chunk.type === 'tEXt') && [PROVENANCE_KEYWORD, 'Software', 'Description'].includes(chunkKeyword(chunk))));
+  const added = [
+    textChunk('Software', SOFTWARE),
+    textChunk('Description', describeProvenance(record).replace(/[^\x20-\xff]/g, '?')),
+    internationalTextChunk(PROVENANCE_KEYWORD, JSON.stringify(record)),
+  ];
+  const end = chunks.findIndex(chunk => chunk.type === 'IEND');
+  chunks.splice(end === -1 ? chunks.length : end, 0, ...added);
+  return new Blob([new Uint8Array(PNG_SIGNATURE), ...chunks.map(encodeChunk)], { type: 'image/png' });
+};
+
+// Reads the record back from a PNG made by embedProvenance; null for anything else.
+export const readProvenance = async (image: Blob): Promise<ProvenanceRecord | null> => {
+  if (image.type && image.type !== 'image/png') return null;
+  const bytes = new Uint8Array(await image.arrayBuffer());
+  if (!isPng(bytes)) return null;
+  const chunk = readChunks(bytes).find(c => c.type === 'iTXt' && chunkKeyword(c) === PROVENANCE_KEYWORD);
+  if (!chunk) return null;
+  // Skip the keyword and the four header fields that follow it.
+  let offset = chunk.data.indexOf(0) + 3;
+  offset = chunk.data.indexOf(0, offset) + 1;
+  offset = chunk.data.indexOf(0, offset) + 1;
+  try {
+    const record = JSON.parse(new TextDecoder().decode(chunk.data.subarray(offset)));
+    return record?.format === 'bovali-provenance' ? record : null;
+  } catch {
+    return null;
+  }
+};
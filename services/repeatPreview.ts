@@ -0,0 +1,151 @@
+// services/repeatPreview.ts
+// Draws a tile image repeated over a real-world area with grout joints and scale rulers, so the
+// repeat can be judged before a generation is spent on it.
+
+import type { TileUnit } from '../types';
+
+export interface RepeatPreviewOptions {
+  image: HTMLImageElement;
+  unit: TileUnit;
+  // Tile size in `unit`.
+  tileWidth: number;
+  tileHeight: number;
+  // Covered area in metres for metric, feet for imperial.
+  areaWidth: number;
+  areaHeight: number;
+  // Joint width in millimetres for metric, inches for imperial.
+  groutWidth: number;
+  groutColor: string;
+}
+
+export interface RepeatPreviewStats {
+  columns: number;
+  rows: number;
+  // Set when the area held more than MAX_PREVIEW_TILES and only its top-left corner is shown.
+  isCropped: boolean;
+}
+
+const CM_PER_INCH = 2.54;
+const MAX_AREA_PIXELS = 1600;
+const RULER_SIZE = 36;
+const RULER_STEPS_CM = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000];
+const MIN_TICK_SPACING = 70;
+// Beyond this many tiles drawing blocks the page, and each tile is under a pixel anyway.
+export const MAX_PREVIEW_TILES = 10000;
+
+export const getAreaUnitLabel = (unit: TileUnit) => unit === 'cm' ? 'm' : 'ft';
+export const getGroutUnitLabel = (unit: TileUnit) => unit === 'cm' ? 'mm' : 'in';
+
+const toCm = (value: number, unit: TileUnit) => unit === 'cm' ? value : value * CM_PER_INCH;
+const areaToCm = (value: number, unit: TileUnit) => unit === 'cm' ? value * 100 : value * 12 * CM_PER_INCH;
+const groutToCm = (value: number, unit: TileUnit) => unit === 'cm' ? value / 10 : value * CM_PER_INCH;
+
+const formatRulerLabel = (cm: number, unit: TileUnit) => {
+  if (unit === 'cm') {
+    return cm >= 100 ? `${+(cm / 100).toFixed(2)} m` : `${cm} cm`;
+  }
+  const inches = cm / CM_PER_INCH;
+  const feet = Math.floor(inches / 12);
+  const rest = Math.round(inches - feet * 12);
+  return feet > 0 ? `${feet}'${rest ? ` ${rest}"` : ''}` : `${rest}"`;
+};
+
+const drawRulers = (
+  ctx: CanvasRenderingContext2D,
+  widthCm: number,
+  heightCm: number,
+  scale: number,
+  unit: TileUnit
+) => {
+  const step = RULER_STEPS_CM.find(s => s * scale >= MIN_TICK_SPACING) ?? RULER_STEPS_CM[RULER_STEPS_CM.length - 1];
+  ctx.fillStyle = '#F5F3EF';
+  ctx.fillRect(0, 0, ctx.canvas.width, RULER_SIZE);
+  ctx.fillRect(0, 0, RULER_SIZE, ctx.canvas.height);
+  ctx.strokeStyle = '#333333';
+  ctx.fillStyle = '#333333';
+  ctx.font = '12px Lato, sans-serif';
+  ctx.lineWidth = 1;
+
+  for (let cm = 0; cm <= widthCm + 1e-6; cm += step / 2) {
+    const x = RULER_SIZE + cm * scale;
+    const isMajor = Math.round(cm / step * 2) % 2 === 0;
+    ctx.beginPath();
+    ctx.moveTo(x + 0.5, RULER_SIZE);
+    ctx.lineTo(x + 0.5, RULER_SIZE - (isMajor ? 14 : 7));
+    ctx.stroke();
+    if (isMajor) {
+      ctx.textAlign = cm === 0 ? 'left' : 'center';
+      ctx.fillText(formatRulerLabel(cm, unit), x + (cm === 0 ? 2 : 0), 14);
+    }
+  }
+  for (let cm = 0; cm <= heightCm + 1e-6; cm += step / 2) {
+    const y = RULER_SIZE + cm * scale;
+    const isMajor = Math.round(cm / step * 2) % 2 === 0;
+    ctx.beginPath();
+    ctx.moveTo(RULER_SIZE, y + 0.5);
+    ctx.lineTo(RULER_SIZE - (isMajor ? 14 : 7), y + 0.5);
+    ctx.stroke();
+    if (isMajor && cm > 0) {
+      ctx.save();
+      ctx.translate(14, y);
+      ctx.rotate(-Math.PI / 2);
+      ctx.textAlign = 'center';
+      ctx.fillText(formatRulerLabel(cm, unit), 0, 0);
+      ctx.restore();
+    }
+  }
+};
+
+export const renderRepeatPreview = (canvas: HTMLCanvasElement, options: RepeatPreviewOptions): RepeatPreviewStats => {
+  const { image, unit, groutColor } = options;
+  const tileWidth = toCm(options.tileWidth, unit);
+  const tileHeight = toCm(options.tileHeight, unit);
+  const grout = groutToCm(options.groutWidth, unit);
+  // Each tile sits inside a pitch of tile + one joint; half a joint on every side keeps the edges even.
+  const pitchX = tileWidth + grout;
+  const pitchY = tileHeight + grout;
+
+  // Too many tiles for the area: show a corner of it, keeping the tile scale and proportions.
+  let areaWidth = areaToCm(options.areaWidth, unit);
+  let areaHeight = areaToCm(options.areaHeight, unit);
+  const fullTiles = Math.ceil(areaWidth / pitchX) * Math.ceil(areaHeight / pitchY);
+  const isCropped = fullTiles > MAX_PREVIEW_TILES;
+  if (isCropped) {
+    const shrink = Math.sqrt(MAX_PREVIEW_TILES / fullTiles) * 0.95;
+    areaWidth = Math.max(pitchX, areaWidth * shrink);
+    areaHeight = Math.max(pitchY, areaHeight * shrink);
+  }
+
+  const scale = Math.min(MAX_AREA_PIXELS / areaWidth, MAX_AREA_PIXELS / areaHeight);
+  canvas.width = Math.round(RULER_SIZE + areaWidth * scale);
+  canvas.height = Math.round(RULER_SIZE + areaHeight * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  ctx.save();
+  ctx.translate(RULER_SIZE, RULER_SIZE);
+  ctx.beginPath();
+  ctx.rect(0, 0, areaWidth * scale, areaHeight * scale);
+  ctx.clip();
+  ctx.fillStyle = groutColor;
+  ctx.fillRect(0, 0, areaWidth * scale, areaHeight * scale);
+
+  const columns = Math.ceil(areaWidth / pitchX);
+  const rows = Math.ceil(areaHeight / pitchY);
+  ctx.imageSmoothingQuality = 'high';
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      ctx.drawImage(
+        image,
+        (column * pitchX + grout / 2) * scale,
+        (row * pitchY + grout / 2) * scale,
+        tileWidth * scale,
+        tileHeight * scale
+      );
+    }
+  }
+  ctx.restore();
+
+  drawRulers(ctx, areaWidth, areaHeight, scale, unit);
+  return { columns, rows, isCropped };
+};
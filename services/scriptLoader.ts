@@ -0,0 +1,29 @@
+// services/scriptLoader.ts
+// Loads the large CDN libraries (HEIC and TIFF decoding, PDF writing) the first time a feature
+// needs them, rather than as render-blocking scripts on every page load.
+
+export const HEIC2ANY_URL = 'https://cdn.jsdelivr.net/npm/heic2any@0.0.4/dist/heic2any.min.js';
+export const UTIF_URL = 'https://cdn.jsdelivr.net/npm/utif@3.1.0/UTIF.min.js';
+export const JSPDF_URL = 'https://cdnjs.cloudflare.com/ajax/libs/jspdf/2.5.1/jspdf.umd.min.js';
+
+const loading = new Map<string, Promise<void>>();
+
+// Resolves once the script has run. A failed load is forgotten so the next call retries.
+export const loadScript = (url: string): Promise<void> => {
+  const pending = loading.get(url);
+  if (pending) return pending;
+  const request = new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = url;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      script.remove();
+      loading.delete(url);
+      reject(new Error(`Could not load ${url}`));
+    };
+    document.head.appendChild(script);
+  });
+  loading.set(url, request);
+  return request;
+};
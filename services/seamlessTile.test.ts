@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { blendSeams } from './seamlessTile';
+
+const SIZE = 64;
+
+// A texture that does not tile: brightness ramps across and down, with some fine detail.
+const rampTexture = () => {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const value = x * 2 + y + ((x * 7 + y * 13) % 5);
+      data.set([value, value, value, 255], (y * SIZE + x) * 4);
+    }
+  }
+  return data;
+};
+
+const value = (data: Uint8ClampedArray, x: number, y: number) => data[(y * SIZE + x) * 4];
+
+// Largest difference between the rows (or columns) that meet when the texture repeats.
+const wrapDifference = (data: Uint8ClampedArray, axis: 'x' | 'y') => {
+  let max = 0;
+  for (let i = 0; i < SIZE; i++) {
+    const diff = axis === 'x'
+      ? value(data, SIZE - 1, i) - value(data, 0, i)
+      : value(data, i, SIZE - 1) - value(data, i, 0);
+    max = Math.max(max, Math.abs(diff));
+  }
+  return max;
+};
+
+// Largest difference between neighbouring pixels inside the texture.
+const interiorStep = (data: Uint8ClampedArray) => {
+  let max = 0;
+  for (let y = 1; y < SIZE; y++) {
+    for (let x = 1; x < SIZE; x++) {
+      max = Math.max(max, Math.abs(value(data, x, y) - value(data, x - 1, y)), Math.abs(value(data, x, y) - value(data, x, y - 1)));
+    }
+  }
+  return max;
+};
+
+describe('blendSeams', () => {
+  it('makes the wrap edges meet as smoothly as neighbouring pixels', () => {
+    const source = rampTexture();
+    expect(wrapDifference(source, 'x')).toBeGreaterThan(100);
+
+    const out = blendSeams(source, SIZE, SIZE, 0.15);
+    const step = interiorStep(source);
+    expect(wrapDifference(out, 'x')).toBeLessThanOrEqual(step);
+    expect(wrapDifference(out, 'y')).toBeLessThanOrEqual(step);
+  });
+
+  it('keeps the edges clean with the widest blend', () => {
+    const out = blendSeams(rampTexture(), SIZE, SIZE, 0.5);
+    const step = interiorStep(rampTexture());
+    expect(wrapDifference(out, 'x')).toBeLessThanOrEqual(step);
+    expect(wrapDifference(out, 'y')).toBeLessThanOrEqual(step);
+  });
+
+  it('leaves alpha intact', () => {
+    const out = blendSeams(rampTexture(), SIZE, SIZE, 0.15);
+    expect(out.filter((_, i) => i % 4 === 3).every(alpha => alpha === 255)).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+// services/seamlessTile.ts
+// Checks whether an extracted texture tiles without visible seams and repairs it locally on a
+// canvas, so the result can be repeated across a surface in the Generator.
+
+export interface TilingAnalysis {
+  // 0–100, where 100 means the wrapped edges are no rougher than the texture itself.
+  score: number;
+  horizontal: number;
+  vertical: number;
+}
+
+export type SeamFixMethod = 'blend' | 'mirror';
+
+export interface SeamFixOptions {
+  method: SeamFixMethod;
+  // Width of the cross-fade either side of the hidden seam, as a fraction of the tile size.
+  blendWidth?: number;
+}
+
+// Analysis runs on a downscaled copy; seams are large-scale discontinuities so detail is not needed.
+const ANALYSIS_EDGE = 512;
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error("Could not load the image for tiling analysis."));
+  image.src = url;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+const luminanceAt = (data: Uint8ClampedArray, index: number) =>
+  0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+
+// Mean luminance difference across the wrap seam, relative to the mean difference between
+// neighbouring pixels inside the image.
+const seamRatio = (data: Uint8ClampedArray, width: number, height: number, axis: 'x' | 'y') => {
+  const pixel = (x: number, y: number) => luminanceAt(data, (y * width + x) * 4);
+  const length = axis === 'x' ? height : width;
+  const span = axis === 'x' ? width : height;
+  const at = (along: number, across: number) => axis === 'x' ? pixel(across, along) : pixel(along, across);
+
+  let seam = 0;
+  let interior = 0;
+  let interiorCount = 0;
+  for (let i = 0; i < length; i++) {
+    seam += Math.abs(at(i, span - 1) - at(i, 0));
+    for (let j = 1; j < span; j += Math.max(1, Math.floor(span / 32))) {
+      interior += Math.abs(at(i, j) - at(i, j - 1));
+      interiorCount++;
+    }
+  }
+  const seamMean = seam / length;
+  const interiorMean = interior / interiorCount;
+  return seamMean / Math.max(interiorMean, 1);
+};
+
+const ratioToScore = (ratio: number) => Math.round(100 * Math.min(1, 1 / Math.max(ratio, 1e-6)));
+
+export const analyseTiling = async (imageUrl: string): Promise<TilingAnalysis> => {
+  const image = await loadImage(imageUrl);
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(2, Math.round(image.naturalWidth * scale));
+  const height = Math.max(2, Math.round(image.naturalHeight * scale));
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const horizontal = ratioToScore(seamRatio(data, width, height, 'x'));
+  const vertical = ratioToScore(seamRatio(data, width, height, 'y'));
+  return { score: Math.min(horizontal, vertical), horizontal, vertical };
+};
+
+const drawOffset = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+  const dx = Math.floor(width / 2);
+  const dy = Math.floor(height / 2);
+  for (const x of [dx - width, dx]) {
+    for (const y of [dy - height, dy]) {
+      ctx.drawImage(image, x, y, width, height);
+    }
+  }
+};
+
+// Shifts the texture by half its size so the wrap seams meet in a cross through the centre.
+export const createOffsetPreview = async (imageUrl: string): Promise<string> => {
+  const image = await loadImage(imageUrl);
+  const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+  drawOffset(ctx, image, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+const mirrorTile = (image: HTMLImageElement, width: number, height: number) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  const halfWidth = width / 2;
+  const halfHeight = height / 2;
+  for (const [flipX, flipY] of [[false, false], [true, false], [false, true], [true, true]]) {
+    ctx.save();
+    ctx.translate(flipX ? width : 0, flipY ? height : 0);
+    ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+    ctx.drawImage(image, 0, 0, halfWidth, halfHeight);
+    ctx.restore();
+  }
+  return canvas;
+};
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+// Cross-fade weight for each position along an axis: 1 at the centre seam, falling to 0 a band
+// away from it and always 0 at the outer edges, so the edges keep the offset texture.
+const seamWeights = (size: number, blendWidth: number) => {
+  const centre = Math.floor(size / 2);
+  const band = Math.max(1, Math.min(size * blendWidth, size / 2 - 1));
+  return Array.from({ length: size }, (_, i) => smoothstep(Math.max(0, 1 - Math.abs(i - centre) / band)));
+};
+
+// Works on RGBA pixels. The texture is offset by half its size so its seams meet in a cross
+// through the centre. Each arm of the cross is faded into a copy shifted only along the other
+// axis, which is continuous across that arm and still wraps cleanly along the outer edges; the
+// unshifted original fills in where the arms cross.
+export const blendSeams = (source: Uint8ClampedArray, width: number, height: number, blendWidth: number): Uint8ClampedArray => {
+  const dx = Math.floor(width / 2);
+  const dy = Math.floor(height / 2);
+  const wx = seamWeights(width, blendWidth);
+  const wy = seamWeights(height, blendWidth);
+  const at = (x: number, y: number, shiftX: number, shiftY: number) =>
+    (((y - shiftY + height) % height) * width + (x - shiftX + width) % width) * 4;
+
+  const out = new Uint8ClampedArray(source.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = at(x, y, dx, dy);
+      const shiftedY = at(x, y, 0, dy);
+      const shiftedX = at(x, y, dx, 0);
+      const original = at(x, y, 0, 0);
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        // Continuous across the vertical arm, then across the horizontal arm as well.
+        const acrossX = source[offset + c] * (1 - wx[x]) + source[shiftedY + c] * wx[x];
+        const acrossBoth = source[shiftedX + c] * (1 - wx[x]) + source[original + c] * wx[x];
+        out[i + c] = acrossX * (1 - wy[y]) + acrossBoth * wy[y];
+      }
+    }
+  }
+  return out;
+};
+
+const blendTile = (image: HTMLImageElement, width: number, height: number, blendWidth: number) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height);
+  pixels.data.set(blendSeams(pixels.data, width, height, blendWidth));
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
+
+export const makeSeamless = async (imageUrl: string, { method, blendWidth = 0.15 }: SeamFixOptions): Promise<string> => {
+  const image = await loadImage(imageUrl);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const canvas = method === 'mirror'
+    ? mirrorTile(image, width, height)
+    : blendTile(image, width, height, Math.min(0.5, Math.max(0.02, blendWidth)));
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,92 @@
+// services/shortlist.ts
+// The shortlist board: outputs picked out across runs, with ratings, pins and notes. Kept in
+// IndexedDB so a re-generation or a reload doesn't lose them.
+
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+export type ShortlistSource = 'generator' | 'extractor' | 'pattern';
+
+export interface ShortlistDetails {
+  source: ShortlistSource;
+  // e.g. "Variation 2".
+  label: string;
+  // Catalogue products used to make the image.
+  skus: string[];
+  // The laying pattern, for generator outputs that had one.
+  layingPattern?: string;
+}
+
+export interface ShortlistItem extends ShortlistDetails {
+  id: string;
+  // The original URL for items added this session, an object URL for ones loaded from the store.
+  imageUrl: string;
+  createdAt: number;
+  // 0 for unrated, otherwise 1 to 5 stars.
+  rating: number;
+  pinned: boolean;
+  note: string;
+}
+
+export type ShortlistUpdate = Partial<Pick<ShortlistItem, 'rating' | 'pinned' | 'note'>>;
+
+interface StoredShortlistItem extends Omit<ShortlistItem, 'imageUrl'> {
+  blob: Blob;
+}
+
+export const SHORTLIST_COMPARE_LIMIT = 4;
+
+const DB_NAME = 'bovaliShortlist';
+const DB_VERSION = 1;
+const STORE = 'items';
+
+const getDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+  db.createObjectStore(STORE, { keyPath: 'id' });
+});
+
+const toItem = ({ blob, ...item }: StoredShortlistItem, imageUrl: string): ShortlistItem => ({ ...item, imageUrl });
+
+// Newest first.
+export const loadShortlist = async (): Promise<ShortlistItem[]> => {
+  const db = await getDb();
+  const stored = await requestToPromise<StoredShortlistItem[]>(db.transaction(STORE).objectStore(STORE).getAll());
+  return stored
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(item => toItem(item, URL.createObjectURL(item.blob)));
+};
+
+export const addToShortlist = async (imageUrl: string, details: ShortlistDetails): Promise<ShortlistItem> => {
+  const stored: StoredShortlistItem = {
+    ...details,
+    id: `shortlist_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+    blob: await (await fetch(imageUrl)).blob(),
+    createdAt: Date.now(),
+    rating: 0,
+    pinned: false,
+    note: '',
+  };
+  const db = await getDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).put(stored);
+  await transactionDone(transaction);
+  return toItem(stored, imageUrl);
+};
+
+export const updateShortlistItem = async (id: string, update: ShortlistUpdate): Promise<void> => {
+  const db = await getDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  const stored = await requestToPromise<StoredShortlistItem | undefined>(store.get(id));
+  if (stored) store.put({ ...stored, ...update });
+  await transactionDone(transaction);
+};
+
+export const removeFromShortlist = async (ids: string[]): Promise<void> => {
+  const db = await getDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  ids.forEach(id => transaction.objectStore(STORE).delete(id));
+  await transactionDone(transaction);
+};
+
+// Pinned items first, then by rating, then newest.
+export const sortShortlist = (items: ShortlistItem[]): ShortlistItem[] =>
+  [...items].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.rating - a.rating || b.createdAt - a.createdAt);
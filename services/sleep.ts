@@ -0,0 +1,15 @@
+// services/sleep.ts
+// A timer that can be cancelled: rejects with the signal's reason as soon as it aborts.
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
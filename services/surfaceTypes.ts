@@ -0,0 +1,35 @@
+// services/surfaceTypes.ts
+// The surfaces the Generator can re-surface, with the wording used for each in prompts.
+
+export type SurfaceType =
+  | 'Flooring'
+  | 'Walls'
+  | 'Ceiling'
+  | 'Countertops'
+  | 'Backsplash'
+  | 'StairTreads'
+  | 'ShowerWalls'
+  | 'ExteriorFacade';
+
+export interface SurfaceDefinition {
+  value: SurfaceType;
+  label: string;
+  promptName: string;
+}
+
+export const SURFACE_TYPES: SurfaceDefinition[] = [
+  { value: 'Flooring', label: 'Flooring', promptName: 'flooring' },
+  { value: 'Walls', label: 'Walls', promptName: 'walls' },
+  { value: 'Ceiling', label: 'Ceiling', promptName: 'ceiling' },
+  { value: 'Countertops', label: 'Countertops', promptName: 'countertops' },
+  { value: 'Backsplash', label: 'Backsplash', promptName: 'kitchen backsplash' },
+  { value: 'StairTreads', label: 'Stair Treads', promptName: 'stair treads' },
+  { value: 'ShowerWalls', label: 'Shower Walls', promptName: 'shower walls' },
+  { value: 'ExteriorFacade', label: 'Exterior Facade', promptName: 'exterior facade cladding' },
+];
+
+export const getSurfaceDefinition = (surfaceType: SurfaceType): SurfaceDefinition => {
+  return SURFACE_TYPES.find(surface => surface.value === surfaceType) ?? SURFACE_TYPES[0];
+};
+
+export const describeSurface = (surfaceType: SurfaceType): string => getSurfaceDefinition(surfaceType).promptName;
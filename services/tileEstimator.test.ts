@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTiles, estimatesToCsv, getSuggestedWaste } from './tileEstimator';
+import type { EstimateInput } from './tileEstimator';
+
+const input = (overrides: Partial<EstimateInput> = {}): EstimateInput => ({
+  zones: [{ id: 1, name: 'Floor', width: 3, length: 2 }],
+  tileWidth: 60,
+  tileHeight: 60,
+  unit: 'cm',
+  layout: 'Stack',
+  wastePercent: 10,
+  tilesPerBox: 4,
+  unitPrice: 10,
+  priceBasis: 'box',
+  currency: '£',
+  ...overrides,
+});
+
+describe('estimateTiles', () => {
+  it('counts the tiles of a stacked zone, including the cut row', () => {
+    // 300 cm / 60 = 5 columns; 200 cm / 60 = 3.33 rows, so the fourth row is cut.
+    const estimate = estimateTiles(input());
+    expect(estimate.area).toBe(6);
+    expect(estimate.areaUnit).toBe('m²');
+    expect(estimate.tilesLaid).toBe(20);
+    expect(estimate.cutTiles).toBe(5);
+    expect(estimate.tilesNeeded).toBe(22);
+    expect(estimate.boxes).toBe(6);
+    expect(estimate.tilesOrdered).toBe(24);
+    expect(estimate.totalCost).toBe(60);
+  });
+
+  it('does not count float noise from unit conversion as an extra cut row', () => {
+    // 110 cm / 55 cm is 2.0000000000000004 in floating point.
+    const estimate = estimateTiles(input({ zones: [{ id: 1, name: 'Floor', width: 1.1, length: 1.1 }], tileWidth: 55, tileHeight: 55, wastePercent: 0 }));
+    expect(estimate.tilesLaid).toBe(4);
+    expect(estimate.cutTiles).toBe(0);
+    expect(estimateTiles(input({ zones: [{ id: 1, name: 'Floor', width: 1.1, length: 1.1 }], tileWidth: 55, tileHeight: 55, layout: 'Herringbone', wastePercent: 0 })).tilesLaid).toBe(4);
+  });
+
+  it('applies waste without rounding up float noise', () => {
+    // 100 × 1.1 is 110.00000000000001 in floating point.
+    const estimate = estimateTiles(input({ zones: [{ id: 1, name: 'Floor', width: 6, length: 6 }], wastePercent: 10 }));
+    expect(estimate.tilesLaid).toBe(100);
+    expect(estimate.tilesNeeded).toBe(110);
+  });
+
+  it('prices per tile, box or area', () => {
+    expect(estimateTiles(input({ priceBasis: 'tile' })).totalCost).toBe(240);
+    // 24 tiles of 0.36 m² at 10 per m².
+    expect(estimateTiles(input({ priceBasis: 'area' })).totalCost).toBeCloseTo(86.4);
+  });
+
+  it('works in feet and inches for imperial units', () => {
+    const estimate = estimateTiles(input({ unit: 'inches', tileWidth: 12, tileHeight: 12, zones: [{ id: 1, name: 'Floor', width: 10, length: 10 }], wastePercent: 0 }));
+    expect(estimate.areaUnit).toBe('ft²');
+    expect(estimate.tilesLaid).toBe(100);
+    expect(estimate.cutTiles).toBe(0);
+  });
+
+  it('ignores zones without dimensions and adds zones together', () => {
+    const estimate = estimateTiles(input({
+      zones: [
+        { id: 1, name: 'Floor', width: 1.2, length: 1.2 },
+        { id: 2, name: 'Hall', width: 1.2, length: 0.6 },
+        { id: 3, name: 'Empty', width: 0, length: 2 },
+      ],
+      wastePercent: 0,
+    }));
+    expect(estimate.input.zones.map(z => z.name)).toEqual(['Floor', 'Hall']);
+    expect(estimate.tilesLaid).toBe(6);
+  });
+
+  it('normalises waste, box size and price and keeps them on the estimate', () => {
+    const estimate = estimateTiles(input({ wastePercent: -5, tilesPerBox: 0, unitPrice: Number.NaN }));
+    expect(estimate.input.wastePercent).toBe(0);
+    expect(estimate.input.tilesPerBox).toBe(1);
+    expect(estimate.input.unitPrice).toBe(0);
+    expect(estimate.boxes).toBe(estimate.tilesNeeded);
+    expect(estimate.totalCost).toBe(0);
+  });
+
+  it('rejects missing tile or zone dimensions', () => {
+    expect(() => estimateTiles(input({ tileWidth: 0 }))).toThrow(/tile dimensions/);
+    expect(() => estimateTiles(input({ zones: [] }))).toThrow(/at least one zone/);
+  });
+
+  it('allows extra waste for angled layouts', () => {
+    expect(getSuggestedWaste(null)).toBe(10);
+    expect(getSuggestedWaste('Herringbone')).toBeGreaterThan(getSuggestedWaste('Stack'));
+  });
+});
+
+describe('estimatesToCsv', () => {
+  it('writes a header and one row per estimate', () => {
+    const csv = estimatesToCsv([{ image: '=cmd', estimate: estimateTiles(input()) }]);
+    const [header, row] = csv.split('\n');
+    expect(header.startsWith('Image,Zones,Area')).toBe(true);
+    expect(row.startsWith(`"'=cmd",Floor 3x2,6.00 m²`)).toBe(true);
+    expect(row.endsWith('£60.00')).toBe(true);
+  });
+});
@@ -0,0 +1,181 @@
+// services/tileEstimator.ts
+// Quantity and cost estimate for tiling one or more rectangular zones, so sales can quote
+// straight from a render.
+
+import type { TileUnit } from '../types';
+import type { LayingPattern } from './layingPatterns';
+import { toCsv } from './csv';
+
+export interface EstimateZone {
+  id: number;
+  name: string;
+  // Metres for metric, feet for imperial.
+  width: number;
+  length: number;
+}
+
+export type PriceBasis = 'tile' | 'box' | 'area';
+
+export interface EstimateInput {
+  zones: EstimateZone[];
+  tileWidth: number;
+  tileHeight: number;
+  unit: TileUnit;
+  layout: LayingPattern | null;
+  wastePercent: number;
+  tilesPerBox: number;
+  unitPrice: number;
+  priceBasis: PriceBasis;
+  currency: string;
+}
+
+export interface TileEstimate {
+  input: EstimateInput;
+  area: number;
+  areaUnit: string;
+  // Tiles laid before waste, including the ones that are cut.
+  tilesLaid: number;
+  cutTiles: number;
+  tilesNeeded: number;
+  boxes: number;
+  tilesOrdered: number;
+  totalCost: number;
+}
+
+// Typical allowance for breakage and offcuts; layouts with angled cuts lose more.
+export const SUGGESTED_WASTE: Record<LayingPattern | 'default', number> = {
+  default: 10,
+  Stack: 10,
+  RunningBondHalf: 10,
+  RunningBondThird: 10,
+  Basketweave: 12,
+  Versailles: 12,
+  Herringbone: 15,
+  DoubleHerringbone: 15,
+  Diagonal: 15,
+  Chevron: 20,
+};
+
+export const getSuggestedWaste = (layout: LayingPattern | null) => SUGGESTED_WASTE[layout ?? 'default'];
+
+export const getAreaUnit = (unit: TileUnit) => unit === 'cm' ? 'm²' : 'ft²';
+
+// Zone sizes are entered in m/ft, tiles in cm/in.
+const zoneToTileUnits = (value: number, unit: TileUnit) => unit === 'cm' ? value * 100 : value * 12;
+const tileAreaInZoneUnits = (width: number, height: number, unit: TileUnit) => unit === 'cm'
+  ? (width / 100) * (height / 100)
+  : (width / 12) * (height / 12);
+
+// Unit conversions leave float noise (110 / 55 is 2.0000000000000004), which would otherwise
+// round up to an extra row or column of cut tiles.
+const roundNoise = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const estimateZone = (zone: EstimateZone, input: EstimateInput) => {
+  const width = zoneToTileUnits(zone.width, input.unit);
+  const length = zoneToTileUnits(zone.length, input.unit);
+  const columns = roundNoise(width / input.tileWidth);
+  const rows = roundNoise(length / input.tileHeight);
+  const hasPartialRow = rows % 1 > 0;
+
+  switch (input.layout ?? 'Stack') {
+    case 'Stack': {
+      const laid = Math.ceil(columns) * Math.ceil(rows);
+      const full = Math.floor(columns) * Math.floor(rows);
+      return { laid, cuts: laid - full };
+    }
+    case 'RunningBondHalf':
+    case 'RunningBondThird': {
+      // Offset rows start and end on a part tile; a partial last row cuts every tile in it.
+      const laid = Math.ceil(Math.ceil(rows) * (columns + 1));
+      const cuts = Math.ceil(rows) * 2 + (hasPartialRow ? Math.ceil(columns) : 0);
+      return { laid, cuts: Math.min(laid, cuts) };
+    }
+    default: {
+      // Angled layouts: every tile meeting the perimeter is cut.
+      const laid = Math.ceil(roundNoise(columns * rows));
+      const cuts = Math.ceil(roundNoise((2 * (width + length)) / Math.min(input.tileWidth, input.tileHeight)));
+      return { laid, cuts: Math.min(laid, cuts) };
+    }
+  }
+};
+
+export const estimateTiles = (input: EstimateInput): TileEstimate => {
+  if (!(input.tileWidth > 0 && input.tileHeight > 0)) {
+    throw new Error("Enter the tile dimensions to estimate quantities.");
+  }
+  const zones = input.zones.filter(z => z.width > 0 && z.length > 0);
+  if (zones.length === 0) {
+    throw new Error("Enter the dimensions of at least one zone.");
+  }
+  // Stored back on the estimate, so exports show the figures the totals were worked out from.
+  const wastePercent = Math.max(0, input.wastePercent || 0);
+  const tilesPerBox = Math.max(1, Math.floor(input.tilesPerBox) || 1);
+  const unitPrice = Math.max(0, input.unitPrice || 0);
+
+  let tilesLaid = 0;
+  let cutTiles = 0;
+  for (const zone of zones) {
+    const { laid, cuts } = estimateZone(zone, input);
+    tilesLaid += laid;
+    cutTiles += cuts;
+  }
+
+  const tilesNeeded = Math.ceil(roundNoise(tilesLaid * (1 + wastePercent / 100)));
+  const boxes = Math.ceil(tilesNeeded / tilesPerBox);
+  const tilesOrdered = boxes * tilesPerBox;
+  const tileArea = tileAreaInZoneUnits(input.tileWidth, input.tileHeight, input.unit);
+  const totalCost = {
+    tile: tilesOrdered * unitPrice,
+    box: boxes * unitPrice,
+    area: tilesOrdered * tileArea * unitPrice,
+  }[input.priceBasis];
+
+  return {
+    input: { ...input, zones, wastePercent, tilesPerBox, unitPrice },
+    area: zones.reduce((sum, zone) => sum + zone.width * zone.length, 0),
+    areaUnit: getAreaUnit(input.unit),
+    tilesLaid,
+    cutTiles,
+    tilesNeeded,
+    boxes,
+    tilesOrdered,
+    totalCost,
+  };
+};
+
+export const formatCost = (amount: number, currency: string) => `${currency}${amount.toFixed(2)}`;
+
+export const summariseEstimate = (estimate: TileEstimate) =>
+  `${estimate.tilesOrdered} tiles · ${estimate.boxes} boxes · ${formatCost(estimate.totalCost, estimate.input.currency)}`;
+
+const ESTIMATE_CSV_HEADER = [
+  'Image', 'Zones', 'Area', 'Tile size', 'Layout', 'Waste %', 'Tiles laid', 'Cut tiles',
+  'Tiles needed', 'Tiles per box', 'Boxes', 'Tiles ordered', 'Unit price', 'Price basis', 'Total cost',
+];
+
+const estimateRow = (image: string, estimate: TileEstimate) => {
+  const { input } = estimate;
+  const tileUnit = input.unit === 'cm' ? 'cm' : 'in';
+  return [
+    image,
+    input.zones.map(z => `${z.name} ${z.width}x${z.length}`).join('; '),
+    `${estimate.area.toFixed(2)} ${estimate.areaUnit}`,
+    `${input.tileWidth}x${input.tileHeight} ${tileUnit}`,
+    input.layout ?? 'As in pattern image',
+    input.wastePercent,
+    estimate.tilesLaid,
+    estimate.cutTiles,
+    estimate.tilesNeeded,
+    input.tilesPerBox,
+    estimate.boxes,
+    estimate.tilesOrdered,
+    formatCost(input.unitPrice, input.currency),
+    input.priceBasis === 'area' ? `per ${estimate.areaUnit}` : `per ${input.priceBasis}`,
+    formatCost(estimate.totalCost, input.currency),
+  ];
+};
+
+// One row per estimate; `image` names the file the estimate belongs to (or is left blank).
+export const estimatesToCsv = (rows: { image: string; estimate: TileEstimate }[]): string => {
+  return toCsv([ESTIMATE_CSV_HEADER, ...rows.map(({ image, estimate }) => estimateRow(image, estimate))]);
+};
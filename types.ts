@@ -1,5 +1,12 @@
+import type { ProductMetadata } from './services/productMetadata';
 
 export interface ImageState {
   file: File | null;
   previewUrl: string | null;
+  // Optional painted mask (white = area to re-surface) kept with the image it was painted on.
+  mask?: File | null;
+  // Catalogue product the image was picked from, if any.
+  product?: ProductMetadata | null;
 }
+
+export type TileUnit = 'cm' | 'inches';